@@ -0,0 +1,42 @@
+// Library entry for APX repacker (the CLI lives in ./index).
+//
+//   import { repack, repackToBuffer } from "apx-repack";
+//
+//   // HTTP upload → object storage, no temp files
+//   const result = await repack(req, storageWriteStream, {
+//     name: "flight.telemetry",
+//     size: Number(req.headers["content-length"]),
+//     onProgress: (p) => console.log(p.bytesRead, "/", p.totalBytes),
+//   });
+//
+//   // in memory
+//   const { data, result } = await repackToBuffer(fs.readFileSync("flight.datalink"));
+//
+// Results carry fields (with info and sample counts), events, objects,
+// value counts and the time span; nothing is printed.
+
+export {
+  Repacker, repack, repackToBuffer,
+  RepackInput, RepackOutput, RepackOptions, RepackProgress, RepackResult,
+} from "./repack/repacker.service";
+export { mergeInputs, MergeOptions, MergeResult, MergeInputSummary } from "./repack/merge.service";
+export { RepackStats } from "./repack/services/stats-sink";
+export { TimePolicy, TimeAnomaly, TimeGuardSettings } from "./repack/services/time-guard";
+export { SegmentOptions, SegmentRule } from "./repack/services/segment-sink";
+export { RepackFilter } from "./repack/services/filter";
+export { EncodingPolicy, FieldEncoding, ValueSpec } from "./repack/services/value-encoding";
+export { RecoveryReport, SkippedRange } from "./repack/services/recovery";
+export {
+  FileKind, XmlKind, isXmlKind, sniffKind, sniffKindFromHead, sniffXmlKind, sniffXmlKindFromHead, isApxTlmFile,
+} from "./repack/sniff.service";
+export { LogFieldMap, LogFieldTarget, MAVLINK_FIELD_MAP, DATAFLASH_FIELD_MAP } from "./repack/services/log-mapping";
+export { FieldProfile, validateFieldProfile } from "./repack/services/field-profile";
+export { TlmSink, SinkFactory } from "./repack/services/tlm-sink";
+export { ApxTlmWriter, ApxTlmFileStats, HeaderFlag } from "./repack/services/apxtlm-writer.service";
+export { ApxTlmReader, ApxTlmRecord, ApxTlmHeader, ApxTlmFormatError } from "./repack/services/apxtlm-reader.service";
+export { inspectApxTlm, ApxTlmInspectReport } from "./repack/services/apxtlm-inspect.service";
+export { validateXml, ValidateReport, ValidateDiagnostic, ValidateCode, ValidateOptions } from "./repack/services/xml-validate.service";
+export { FieldMeta } from "./repack/services/field-meta";
+export {
+  RepackError, UsageError, InputError, FormatError, ParseError, OutputError, PartialFailureError, ValidationError, ExitCode,
+} from "./repack/errors";
@@ -1,47 +1,393 @@
 // CLI entry for APX repacker.
 // Usage:
-//   apx-repack --in <input> --out <result.apxtlm> [--utc <offsetSec>] [--with-jso]
+//   apx-repack [repack] <input|dir|archive.zip> --out <result.apxtlm|dir> [--utc <offsetSec>] [--no-jso]
+//                [--kind telemetry|datalink|tlog|dataflash] [--mapping <map.json>] [--profile <profile.json|.yaml>]
+//                [--derive "<name>=<expr>"]
+//                [--time-policy clamp|reorder|split] [--time-window <ms>] [--segment gap,landed,mode,nodes]
+//                [--from <ms|iso>] [--to <ms|iso>] [--fields <globs>] [--events <globs>] [--encoding <policy.json>]
+//                [--recover]
+//   apx-repack merge <input...> --out <merged.apxtlm> [--dedup <ms>]
+//   apx-repack inspect <file.apxtlm>
+//   apx-repack validate <file> [--kind telemetry|datalink] [--max <n>]
+//   apx-repack export <input> --out <file.csv|.arrow|.geojson|.kml> [options]
+//   apx-repack watch <inbox> --out <dir> [--interval <ms>]
+//   apx-repack help [command]
+// Exit codes: see ExitCode in ./repack/errors.
 
-import { runRepack } from "./repack/command";
+import * as fs from "fs";
+import { parse as parseYaml } from "yaml";
+import { runRepack, runInspect, runExport, runBatchRepack, runWatch, runMerge, runValidate, isMultiInputArchive } from "./repack/command";
+import { batchWorkerMain, isBatchWorker, DEFAULT_OUT_TEMPLATE } from "./repack/batch.service";
+import { parseArgs, formatHelp, CommandSpec, OptSpec, ParsedArgs } from "./repack/argv";
+import { UsageError, PartialFailureError, ValidationError, ExitCode, exitCodeOf } from "./repack/errors";
+import { log, setLogMode } from "./repack/log";
+import { TIME_POLICIES, TimeGuardSettings } from "./repack/services/time-guard";
+import { SEGMENT_RULES, SegmentOptions, SegmentRule } from "./repack/services/segment-sink";
+import { RepackFilter, resolveFilterTime } from "./repack/services/filter";
+import { EncodingPolicy, validateEncodingPolicy } from "./repack/services/value-encoding";
+import { LogFieldMap, validateLogFieldMap } from "./repack/services/log-mapping";
+import { FieldProfile, validateFieldProfile } from "./repack/services/field-profile";
 
-function usage() {
-  console.log(`Usage:
-  apx-repack --in <path/to/input> --out <result.apxtlm> [--utc <offsetSec>] [--with-jso]
+const PROG = "apx-repack";
 
-Examples:
-  apx-repack --in ./sample.telemetry --out ./result.apxtlm
-  apx-repack --in ./sample.datalink.xml --out ./result.apxtlm --utc 10800 --with-jso
-`);
+// ±14 h covers every real time zone
+const UTC_MAX = 14 * 3600;
+
+const OPT_UTC: OptSpec = { name: "utc", type: "int", min: -UTC_MAX, max: UTC_MAX, arg: "<sec>", describe: "UTC offset of the source timestamps, seconds" };
+const OPT_KIND: OptSpec = { name: "kind", type: "enum", values: ["telemetry", "datalink", "tlog", "dataflash"], describe: "input type, overrides sniffing" };
+const OPT_PROFILE: OptSpec = { name: "profile", type: "string", arg: "<file.json|.yaml>", describe: 'rename/merge/drop/derive output fields, e.g. {"derive": {"hagl": "gps_hmsl - home_hmsl"}}' };
+const OPT_DERIVE: OptSpec = { name: "derive", type: "string", repeat: true, arg: "<name=expr>", describe: "computed field, e.g. \"power=Vp*Ip\", \"gs=hypot(gps_Vnorth, gps_Veast)\", avg(x, ms), deriv(x), distance(lat, lon, lat2, lon2)" };
+const OPT_MAPPING: OptSpec = { name: "mapping", type: "string", arg: "<file.json>", describe: 'tlog/DataFlash: message fields onto mandala names over the defaults, e.g. {"VFR_HUD.alt": "altitude"}' };
+const OPT_TIME_POLICY: OptSpec = { name: "time-policy", type: "enum", values: [...TIME_POLICIES], describe: "wrapped/out-of-order/reset timestamps: clamp (default), reorder or split into _segN files" };
+const OPT_TIME_WINDOW: OptSpec = { name: "time-window", type: "int", min: 0, arg: "<ms>", describe: "reorder window, larger jumps back count as resets (default 5000)" };
+const OPT_SEGMENT: OptSpec = { name: "segment", type: "list", repeat: true, arg: "<rules>", describe: `split into <title>_segN files at ${SEGMENT_RULES.join("/")} boundaries` };
+const OPT_SEGMENT_GAP: OptSpec = { name: "segment-gap", type: "int", min: 1, arg: "<ms>", describe: "segment: time gap that starts a new segment (default 30000)" };
+const OPT_JSO: OptSpec = { name: "jso", type: "boolean", negatable: true, aliases: ["with-jso"], describe: "embed nodes/mission/msg objects (default on)" };
+
+const GLOBALS: OptSpec[] = [
+  { name: "quiet", alias: "q", type: "boolean", describe: "print warnings and errors only" },
+  { name: "verbose", alias: "v", type: "boolean", describe: "print debug details" },
+  { name: "json", type: "boolean", describe: "print the result as one JSON document on stdout" },
+  { name: "help", alias: "h", type: "boolean", describe: "show help" },
+];
+
+const COMMANDS: CommandSpec[] = [
+  {
+    name: "repack",
+    summary: "Repack .telemetry/.datalink XML, MAVLink .tlog or DataFlash .bin logs into .apxtlm (a directory, or a zip archive holding several logs, is repacked as a batch: one output per file)",
+    positionals: [{ name: "input", describe: "input file, directory or zip archive (same as --in); .gz/.zst/.zip are read as is" }],
+    options: [
+      { name: "in", type: "string", arg: "<path>", describe: "input file or directory" },
+      { name: "out", type: "string", arg: "<path>", describe: "output file (output directory for a directory or multi-file zip, default: input dir)" },
+      OPT_UTC,
+      OPT_KIND,
+      OPT_MAPPING,
+      OPT_PROFILE,
+      OPT_DERIVE,
+      OPT_JSO,
+      OPT_TIME_POLICY,
+      OPT_TIME_WINDOW,
+      OPT_SEGMENT,
+      OPT_SEGMENT_GAP,
+      { name: "from", type: "string", arg: "<ms|iso>", describe: "start time: ms from file start or ISO date; the output starts there" },
+      { name: "to", type: "string", arg: "<ms|iso>", describe: "end time: ms from file start or ISO date" },
+      { name: "fields", type: "list", repeat: true, arg: "<globs>", describe: "fields to keep, e.g. roll,pitch,gps_*; !glob drops" },
+      { name: "events", type: "list", repeat: true, arg: "<globs>", describe: "events to keep, e.g. msg,mission; !glob drops" },
+      { name: "encoding", type: "string", arg: "<file.json>", describe: 'value types/precision by field glob, e.g. {"roll,pitch": {"precision": 0.01}}' },
+      { name: "recover", type: "boolean", describe: "keep what parses from truncated/corrupted XML, skipped ranges go to the info block" },
+      { name: "template", type: "string", arg: "<path>", describe: `batch: output path template, default ${DEFAULT_OUT_TEMPLATE}` },
+      { name: "include", type: "list", repeat: true, arg: "<globs>", describe: "batch: files to take" },
+      { name: "exclude", type: "list", repeat: true, arg: "<globs>", describe: "batch: files to skip" },
+      { name: "concurrency", alias: "j", type: "int", min: 1, describe: "batch: worker threads, default cpu count" },
+      { name: "force", type: "boolean", describe: "batch: repack files that are up to date" },
+      { name: "summary", type: "string", repeat: true, arg: "<file.json|file.md>", describe: "batch: write a summary report" },
+    ],
+    examples: [
+      `${PROG} ./sample.telemetry --out ./result.apxtlm`,
+      `${PROG} --in ./sample.datalink.xml --out ./result.apxtlm --utc 10800 --no-jso`,
+      `${PROG} ./long.telemetry --out ./long.apxtlm --time-policy split`,
+      `${PROG} ./day.datalink --out ./flights/day.apxtlm --segment gap,landed --segment-gap 60000`,
+      `${PROG} ./sample.telemetry --out ./small.apxtlm --encoding ./encoding.json`,
+      `${PROG} ./sample.telemetry --out ./cut.apxtlm --from 60000 --to 2025-08-01T04:10:00Z --fields roll,pitch,gps_* --events msg`,
+      `${PROG} ./flights.zip --out ./out`,
+      `${PROG} ./crashed.telemetry --out ./crashed.apxtlm --recover`,
+      `${PROG} ./flight.tlog --out ./flight.apxtlm --mapping ./mavlink-map.json`,
+      `${PROG} ./old-firmware.datalink --out ./aligned.apxtlm --profile ./fw9-to-fw10.yaml`,
+      `${PROG} ./sample.telemetry --out ./result.apxtlm --derive "power=Vp*Ip" --derive "dist=distance(gps_lat, gps_lon, home_lat, home_lon)"`,
+      `${PROG} ./inbox --out ./out --template "{dir}/{name}.apxtlm" -j 4 --summary ./out/summary.md`,
+    ],
+  },
+  {
+    name: "merge",
+    summary: "Merge recordings of one vehicle (.telemetry/.datalink/.tlog/.bin/.apxtlm) into one .apxtlm timeline",
+    positionals: [{ name: "inputs", required: true, variadic: true, describe: "input files, aligned by their absolute start time" }],
+    options: [
+      { name: "out", type: "string", arg: "<path>", describe: "output file" },
+      OPT_UTC,
+      OPT_JSO,
+      { name: "dedup", type: "int", min: 0, arg: "<ms>", describe: "drop a field sample another input wrote within this window (default 50)" },
+    ],
+    examples: [
+      `${PROG} merge ./part1.telemetry ./part2.telemetry --out ./sortie.apxtlm`,
+      `${PROG} merge ./gcs1.telemetry ./gcs2.datalink --out ./sortie.apxtlm --dedup 100`,
+    ],
+  },
+  {
+    name: "inspect",
+    summary: "Print header, fields, events and statistics of an .apxtlm file",
+    positionals: [{ name: "file", required: true, describe: ".apxtlm file" }],
+    options: [],
+    examples: [`${PROG} inspect ./result.apxtlm --json`],
+  },
+  {
+    name: "validate",
+    summary: "Check .telemetry/.datalink XML against the structure repack expects, with line:column diagnostics",
+    positionals: [{ name: "file", required: true, describe: "input file" }],
+    options: [
+      { ...OPT_KIND, values: ["telemetry", "datalink"] },
+      OPT_TIME_WINDOW,
+      { name: "max", type: "int", min: 0, arg: "<n>", describe: "diagnostics listed per kind of problem (default 20)" },
+    ],
+    examples: [`${PROG} validate ./sample.telemetry`, `${PROG} validate ./sample.datalink --json`],
+  },
+  {
+    name: "export",
+    summary: "Export telemetry/datalink/tlog/DataFlash/.apxtlm to CSV, Arrow IPC, GeoJSON, KML or .telemetry XML",
+    positionals: [{ name: "input", required: true, describe: "input file" }],
+    options: [
+      { name: "out", type: "string", arg: "<path>", describe: "output file, format taken from the extension" },
+      { name: "format", type: "enum", values: ["csv", "arrow", "geojson", "kml", "telemetry"], describe: "output format" },
+      OPT_UTC,
+      OPT_KIND,
+      OPT_MAPPING,
+      OPT_PROFILE,
+      OPT_DERIVE,
+      { name: "fields", type: "list", repeat: true, describe: "csv: columns to write" },
+      { name: "fill", type: "boolean", negatable: true, describe: "csv: hold last value in empty cells; telemetry: full rows (default, --no-fill writes changed cells only)" },
+      { name: "rate", type: "number", min: 0, arg: "<hz>", describe: "csv: resample to a fixed rate" },
+      { name: "from", type: "number", min: 0, arg: "<ms>", describe: "csv: start time, ms from file start" },
+      { name: "to", type: "number", min: 0, arg: "<ms>", describe: "csv: end time, ms from file start" },
+      { name: "altitude-mode", type: "enum", values: ["absolute", "relativeToGround", "clampToGround"], describe: "kml: altitude mode" },
+    ],
+    examples: [
+      `${PROG} export ./sample.telemetry --out ./sample.csv --fields roll,pitch,yaw --rate 10`,
+      `${PROG} export ./sample.datalink --out ./sample.arrow`,
+      `${PROG} export ./sample.telemetry --out ./flight.kml --altitude-mode absolute`,
+      `${PROG} export ./result.apxtlm --out ./result.telemetry`,
+      `${PROG} export ./00000042.bin --out ./attitude.csv --fields roll,pitch,yaw`,
+    ],
+  },
+  {
+    name: "watch",
+    summary: "Repack every file dropped into an inbox folder until interrupted (a zip archive gives one output per log inside)",
+    positionals: [{ name: "inbox", required: true, describe: "folder to watch" }],
+    options: [
+      { name: "out", type: "string", arg: "<dir>", describe: "output directory" },
+      { name: "interval", type: "int", min: 1, arg: "<ms>", describe: "poll period, default 2000" },
+      OPT_UTC,
+      OPT_JSO,
+    ],
+    examples: [`${PROG} watch ./inbox --out ./out`],
+  },
+  {
+    name: "help",
+    summary: "Show help for a command",
+    positionals: [{ name: "command", describe: "command name" }],
+    options: [],
+  },
+];
+
+function segmentOptions(o: Record<string, any>): SegmentOptions | undefined {
+  const rules: string[] | undefined = o.segment;
+  if (!rules) {
+    if (o["segment-gap"] !== undefined) throw new UsageError("--segment-gap needs --segment gap");
+    return undefined;
+  }
+  for (const r of rules) {
+    if (!SEGMENT_RULES.includes(r as SegmentRule)) {
+      throw new UsageError(`--segment: unknown rule "${r}" (expected ${SEGMENT_RULES.join(", ")})`);
+    }
+  }
+  return { rules: rules as SegmentRule[], gapMs: o["segment-gap"] };
 }
 
-function parseArgv(argv: string[]) {
-  const a = argv.slice(2);
-  const out: { in?: string; out?: string; utc?: number; includeJso: boolean; help?: boolean } = { includeJso: true };
-  for (let i = 0; i < a.length; i++) {
-    const x = a[i];
-    if (x === "-h" || x === "--help") out.help = true;
-    else if (x === "--in") out.in = a[++i];
-    else if (x === "--out") out.out = a[++i];
-    else if (x === "--utc") out.utc = Number(a[++i] ?? 0);
+function repackFilter(o: Record<string, any>): RepackFilter | undefined {
+  const f: RepackFilter = { from: o.from, to: o.to, fields: o.fields, events: o.events };
+  if (Object.values(f).every((v) => v === undefined)) return undefined;
+  for (const k of ["from", "to"] as const) {
+    try { if (f[k] !== undefined) resolveFilterTime(f[k]!, 0); } catch (e: any) { throw new UsageError(`--${k}: ${e.message}`); }
   }
-  return out;
+  return f;
 }
 
-(async () => {
-  const args = parseArgv(process.argv);
-  if (args.help || !args.in || !args.out) {
-    usage();
-    process.exit(args.help ? 0 : 1);
+function encodingPolicy(o: Record<string, any>): EncodingPolicy | undefined {
+  const file: string | undefined = o.encoding;
+  if (file === undefined) return undefined;
+  let policy: EncodingPolicy;
+  try {
+    policy = JSON.parse(fs.readFileSync(file, "utf8"));
+    validateEncodingPolicy(policy);
+  } catch (e: any) {
+    throw new UsageError(`--encoding ${file}: ${e.message}`);
   }
+  return policy;
+}
+
+function logFieldMap(o: Record<string, any>): LogFieldMap | undefined {
+  const file: string | undefined = o.mapping;
+  if (file === undefined) return undefined;
+  let map: LogFieldMap;
   try {
-    await runRepack({
-      inFile: args.in,
-      outFile: args.out,
-      utcOffset: Number.isFinite(args.utc) ? (args.utc as number) : 0,
-      includeJso: !!args.includeJso
-    });
+    map = JSON.parse(fs.readFileSync(file, "utf8"));
+    validateLogFieldMap(map);
   } catch (e: any) {
-    console.error("❌ repack error:", e?.message ?? e);
-    process.exit(1);
+    throw new UsageError(`--mapping ${file}: ${e.message}`);
   }
-})();
+  return map;
+}
+
+/** --profile file, with the --derive fields added after its own */
+function fieldProfile(o: Record<string, any>): FieldProfile | undefined {
+  const file: string | undefined = o.profile;
+  const derive: string[] = o.derive ?? [];
+  if (file === undefined && !derive.length) return undefined;
+  let profile: FieldProfile = {};
+  if (file !== undefined) {
+    try {
+      const text = fs.readFileSync(file, "utf8");
+      profile = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+      validateFieldProfile(profile);
+    } catch (e: any) {
+      throw new UsageError(`--profile ${file}: ${e.message}`);
+    }
+  }
+  if (!derive.length) return profile;
+
+  profile = { ...profile, derive: { ...profile.derive } };
+  for (const d of derive) {
+    const eq = d.indexOf("=");
+    if (eq < 0) throw new UsageError(`--derive "${d}": expected <name>=<expr>`);
+    profile.derive![d.slice(0, eq).trim()] = d.slice(eq + 1);
+  }
+  try { validateFieldProfile(profile); } catch (e: any) { throw new UsageError(`--derive: ${e.message}`); }
+  return profile;
+}
+
+function needArg<T>(v: T | undefined, what: string, cmd: string): T {
+  if (v === undefined) throw new UsageError(`${cmd}: missing ${what}`);
+  return v;
+}
+
+async function dispatch(args: ParsedArgs): Promise<unknown> {
+  const o = args.opts;
+  const utcOffset = o.utc ?? 0;
+  const includeJso = o.jso ?? true;
+  const time: TimeGuardSettings = { policy: o["time-policy"], windowMs: o["time-window"] };
+
+  switch (args.cmd) {
+    case "inspect":
+      return runInspect({ inFile: needArg(args.positionals.file, "<file>", "inspect") });
+
+    case "validate":
+      return runValidate({
+        inFile: needArg(args.positionals.file, "<file>", "validate"),
+        kind: o.kind,
+        maxPerCode: o.max,
+        time: { windowMs: o["time-window"] },
+      });
+
+    case "export":
+      return runExport({
+        inFile: needArg(args.positionals.input, "<input>", "export"),
+        outFile: needArg(o.out, "--out", "export"),
+        utcOffset,
+        kind: o.kind,
+        format: o.format,
+        csv: { fields: o.fields, fill: o.fill, rateHz: o.rate || undefined, from: o.from, to: o.to },
+        geo: { altitudeMode: o["altitude-mode"] },
+        telemetry: { fill: o.fill },
+        mapping: logFieldMap(o),
+        profile: fieldProfile(o),
+      });
+
+    case "merge":
+      return runMerge({
+        inputs: args.rest,
+        outFile: needArg(o.out, "--out", "merge"),
+        utcOffset,
+        includeJso,
+        dedupMs: o.dedup,
+      });
+
+    case "watch":
+      return runWatch({
+        inbox: needArg(args.positionals.inbox, "<inbox>", "watch"),
+        outDir: needArg(o.out, "--out", "watch"),
+        intervalMs: o.interval,
+        utcOffset,
+        includeJso,
+      });
+
+    case "repack": {
+      if (args.positionals.input && o.in) throw new UsageError(`repack: give the input either as argument or with --in`);
+      const input = needArg<string>(args.positionals.input ?? o.in, "input (argument or --in)", "repack");
+      if (fs.existsSync(input) && fs.statSync(input).isDirectory() || isMultiInputArchive(input)) {
+        if (o.segment) throw new UsageError("repack: --segment applies to file input only");
+        return runBatchRepack({
+          inDir: input,
+          outDir: o.out,
+          outTemplate: o.template ?? DEFAULT_OUT_TEMPLATE,
+          include: o.include,
+          exclude: o.exclude,
+          concurrency: o.concurrency,
+          force: !!o.force,
+          utcOffset,
+          includeJso,
+          kind: o.kind,
+          time,
+          filter: repackFilter(o),
+          encoding: encodingPolicy(o),
+          recover: !!o.recover,
+          mapping: logFieldMap(o),
+          profile: fieldProfile(o),
+          summary: o.summary,
+        });
+      }
+      for (const k of ["template", "include", "exclude", "concurrency", "force", "summary"]) {
+        if (o[k] !== undefined) throw new UsageError(`repack: --${k} applies to directory input only`);
+      }
+      return runRepack({
+        inFile: input, outFile: needArg(o.out, "--out", "repack"), utcOffset, includeJso, kind: o.kind, time,
+        segment: segmentOptions(o),
+        filter: repackFilter(o),
+        encoding: encodingPolicy(o),
+        recover: !!o.recover,
+        mapping: logFieldMap(o),
+        profile: fieldProfile(o),
+      });
+    }
+  }
+  throw new UsageError(`unknown command "${args.cmd}"`);
+}
+
+async function main() {
+  let args: ParsedArgs | undefined;
+  let json = false;
+  try {
+    args = parseArgs(process.argv.slice(2), COMMANDS, GLOBALS, "repack");
+    json = !!args.opts.json;
+    if ([args.opts.quiet, args.opts.verbose, args.opts.json].filter(Boolean).length > 1) {
+      throw new UsageError("--quiet, --verbose and --json are mutually exclusive");
+    }
+    setLogMode(json ? "json" : args.opts.quiet ? "quiet" : args.opts.verbose ? "verbose" : "normal");
+
+    // no arguments is a usage error; the default command only gets its own help when named
+    const named = process.argv[2] === args.cmd;
+    if (args.cmd === "help" || args.help || process.argv.length <= 2) {
+      const topic = args.cmd === "help" ? args.positionals.command : named ? args.cmd : undefined;
+      if (topic && !COMMANDS.some(c => c.name === topic)) throw new UsageError(`unknown command "${topic}"`);
+      process.stdout.write(formatHelp(PROG, COMMANDS, GLOBALS, topic));
+      if (process.argv.length <= 2) process.exitCode = ExitCode.usage;
+      return;
+    }
+
+    const result = await dispatch(args);
+    if (json) process.stdout.write(JSON.stringify({ ok: true, command: args.cmd, result: result ?? null }, null, 2) + "\n");
+  } catch (e: any) {
+    const code = exitCodeOf(e);
+    const msg = e?.message ?? String(e);
+    if (json) {
+      const result = e instanceof PartialFailureError || e instanceof ValidationError ? e.result ?? null : undefined;
+      process.stdout.write(JSON.stringify({ ok: false, command: args?.cmd, exitCode: code, error: msg, result }, null, 2) + "\n");
+    } else {
+      log.error(`❌ ${args?.cmd ?? PROG} error:`, msg);
+      if (code === ExitCode.usage) log.error(`Run "${PROG} help${args && args.cmd !== "help" ? ` ${args.cmd}` : ""}" for usage.`);
+      else if (code === ExitCode.failure && e?.stack) log.debug(e.stack);
+    }
+    process.exitCode = code;
+  }
+}
+
+// worker threads of the batch pool re-enter this script
+if (isBatchWorker()) batchWorkerMain();
+else main();
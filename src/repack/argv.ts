@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import { UsageError } from "./errors";
+
+/**
+ * Declarative argv parser for the CLI: subcommands with typed options.
+ * Accepts `--name value`, `--name=value`, short aliases (`-j 4`) and
+ * `--no-<name>` for negatable booleans. Every problem is a UsageError.
+ */
+
+export type OptType = "string" | "number" | "int" | "boolean" | "list" | "enum";
+
+export type OptSpec = {
+  name: string;               // long name without dashes, also the key in ParsedArgs.opts
+  alias?: string;             // single letter
+  type: OptType;
+  values?: readonly string[]; // enum only
+  min?: number;               // number/int only
+  max?: number;
+  repeat?: boolean;           // collect every occurrence into an array
+  negatable?: boolean;        // boolean only: accept --no-<name>
+  aliases?: string[];         // extra long names mapping to the same option
+  arg?: string;               // placeholder in help, e.g. <ms>
+  describe: string;
+};
+
+/** `variadic` (last positional only) takes every remaining argument, see ParsedArgs.rest */
+export type PositionalSpec = { name: string; required?: boolean; variadic?: boolean; describe: string };
+
+export type CommandSpec = {
+  name: string;
+  summary: string;
+  positionals?: PositionalSpec[];
+  options: OptSpec[];
+  examples?: string[];
+};
+
+export type ParsedArgs = {
+  cmd: string;
+  positionals: Record<string, string | undefined>;
+  rest: string[];             // values of the variadic positional
+  opts: Record<string, any>;
+  help: boolean;
+};
+
+function convert(spec: OptSpec, raw: string, flag: string): any {
+  switch (spec.type) {
+    case "string":
+      return raw;
+    case "number":
+    case "int": {
+      const n = raw.trim() === "" ? NaN : Number(raw);
+      if (!Number.isFinite(n)) throw new UsageError(`${flag}: expected a number, got "${raw}"`);
+      if (spec.type === "int" && !Number.isInteger(n)) throw new UsageError(`${flag}: expected an integer, got "${raw}"`);
+      if (spec.min !== undefined && n < spec.min) throw new UsageError(`${flag}: must be >= ${spec.min}, got ${n}`);
+      if (spec.max !== undefined && n > spec.max) throw new UsageError(`${flag}: must be <= ${spec.max}, got ${n}`);
+      return n;
+    }
+    case "list":
+      return raw.split(",").map(s => s.trim()).filter(Boolean);
+    case "enum":
+      if (!spec.values!.includes(raw)) throw new UsageError(`${flag}: expected one of ${spec.values!.join("|")}, got "${raw}"`);
+      return raw;
+    case "boolean":
+      if (/^(1|true|yes|on)$/i.test(raw)) return true;
+      if (/^(0|false|no|off)$/i.test(raw)) return false;
+      throw new UsageError(`${flag}: expected true|false, got "${raw}"`);
+  }
+}
+
+/**
+ * Parse argv (without node and script) against the command table.
+ * The first word selects the command when it names one, otherwise
+ * `defaultCmd` is used (keeps `apx-repack --in a --out b` and
+ * `apx-repack a.telemetry --out b` working).
+ */
+export function parseArgs(argv: string[], commands: CommandSpec[], globals: OptSpec[], defaultCmd: string): ParsedArgs {
+  const a = argv.slice();
+  let cmdSpec = commands.find(c => c.name === a[0]);
+  if (cmdSpec) a.shift();
+  // a bare word that looks like a path or names an existing one (`flights/`
+  // typed as `flights`) is the default command's argument
+  else if (a[0] !== undefined && !a[0].startsWith("-") && !/[./\\]/.test(a[0]) && !fs.existsSync(a[0])) throw new UsageError(`unknown command "${a[0]}"`);
+  else cmdSpec = commands.find(c => c.name === defaultCmd)!;
+
+  const specs = [...cmdSpec.options, ...globals];
+  const byName = new Map<string, OptSpec>();
+  for (const s of specs) {
+    byName.set(s.name, s);
+    for (const al of s.aliases ?? []) byName.set(al, s);
+  }
+  const byAlias = new Map(specs.filter(s => s.alias).map(s => [s.alias!, s]));
+
+  const res: ParsedArgs = { cmd: cmdSpec.name, positionals: {}, rest: [], opts: {}, help: false };
+  const pos: string[] = [];
+
+  const set = (spec: OptSpec, v: any) => {
+    if (spec.repeat) (res.opts[spec.name] ??= []).push(...(Array.isArray(v) ? v : [v]));
+    else res.opts[spec.name] = v;
+  };
+
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    if (x === "--") { pos.push(...a.slice(i + 1)); break; }
+    if (x === "-h" || x === "--help") { res.help = true; continue; }
+
+    if (!x.startsWith("-") || x === "-") { pos.push(x); continue; }
+
+    let name: string;
+    let inline: string | undefined;
+    let spec: OptSpec | undefined;
+    if (x.startsWith("--")) {
+      const eq = x.indexOf("=");
+      name = eq >= 0 ? x.slice(2, eq) : x.slice(2);
+      inline = eq >= 0 ? x.slice(eq + 1) : undefined;
+      spec = byName.get(name);
+      if (!spec && name.startsWith("no-")) {
+        const neg = byName.get(name.slice(3));
+        if (neg?.type === "boolean" && neg.negatable) {
+          if (inline !== undefined) throw new UsageError(`--${name} takes no value`);
+          set(neg, false);
+          continue;
+        }
+      }
+    } else {
+      name = x.slice(1);
+      spec = byAlias.get(name);
+    }
+    if (!spec) throw new UsageError(`unknown option ${x} for "${cmdSpec.name}"`);
+
+    const flag = x.startsWith("--") ? `--${name}` : x;
+    if (spec.type === "boolean") {
+      set(spec, inline === undefined ? true : convert(spec, inline, flag));
+      continue;
+    }
+    let raw = inline;
+    if (raw === undefined) {
+      raw = a[++i];
+      if (raw === undefined || (raw.startsWith("--") && raw.length > 2)) throw new UsageError(`${flag}: missing value`);
+    }
+    set(spec, convert(spec, raw, flag));
+  }
+
+  const posSpecs = cmdSpec.positionals ?? [];
+  const variadic = posSpecs[posSpecs.length - 1]?.variadic;
+  if (!variadic && pos.length > posSpecs.length) throw new UsageError(`unexpected argument "${pos[posSpecs.length]}" for "${cmdSpec.name}"`);
+  posSpecs.forEach((p, i) => { res.positionals[p.name] = pos[i]; });
+  if (variadic) res.rest = pos.slice(posSpecs.length - 1);
+  return res;
+}
+
+function optLabel(s: OptSpec): string {
+  const arg = s.type === "boolean" ? "" :
+    ` ${s.arg ?? (s.type === "enum" ? s.values!.join("|") : s.type === "list" ? "<a,b,..>" : `<${s.type === "int" ? "n" : s.type}>`)}`;
+  const names = [s.alias ? `-${s.alias}, ` : "", `--${s.name}`, s.negatable ? ` / --no-${s.name}` : ""].join("");
+  return names + arg;
+}
+
+function optLines(specs: OptSpec[]): string[] {
+  const labels = specs.map(optLabel);
+  const w = Math.min(40, Math.max(...labels.map(l => l.length)));
+  return specs.map((s, i) => `  ${labels[i].padEnd(w)}  ${s.describe}`);
+}
+
+export function formatHelp(prog: string, commands: CommandSpec[], globals: OptSpec[], cmd?: string): string {
+  const out: string[] = [];
+  const spec = cmd ? commands.find(c => c.name === cmd) : undefined;
+  if (!spec) {
+    out.push(`Usage: ${prog} <command> [options]`, ``, `Commands:`);
+    const w = Math.max(...commands.map(c => c.name.length));
+    for (const c of commands) out.push(`  ${c.name.padEnd(w)}  ${c.summary}`);
+    out.push(``, `Global options:`, ...optLines(globals));
+    out.push(``, `Run "${prog} help <command>" for the options of a command.`);
+    return out.join("\n") + "\n";
+  }
+  const posLabel = (spec.positionals ?? [])
+    .map(p => { const n = p.variadic ? `${p.name}...` : p.name; return p.required ? `<${n}>` : `[${n}]`; })
+    .join(" ");
+  out.push(`Usage: ${prog} ${spec.name}${posLabel ? ` ${posLabel}` : ""} [options]`, ``, spec.summary);
+  if (spec.positionals?.length) {
+    out.push(``, `Arguments:`);
+    const w = Math.max(...spec.positionals.map(p => p.name.length));
+    for (const p of spec.positionals) out.push(`  ${p.name.padEnd(w)}  ${p.describe}`);
+  }
+  if (spec.options.length) out.push(``, `Options:`, ...optLines(spec.options));
+  out.push(``, `Global options:`, ...optLines(globals));
+  if (spec.examples?.length) out.push(``, `Examples:`, ...spec.examples.map(e => `  ${e}`));
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,315 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createHash } from "crypto";
+import { Worker, parentPort, workerData } from "worker_threads";
+import { sniffKind, FileKind } from "./sniff.service";
+import { createRepackRunner } from "./factory";
+import { md5File } from "./services/info.util";
+import { matchAny } from "./services/glob.util";
+import { TimeGuardSettings } from "./services/time-guard";
+import { RepackFilter } from "./services/filter";
+import { EncodingPolicy } from "./services/value-encoding";
+import { LogFieldMap } from "./services/log-mapping";
+import { FieldProfile } from "./services/field-profile";
+import { ZipEntry, fileCompression, openZipEntry, stripCompressionExt, zipXmlEntries } from "./services/compressed";
+import { log } from "./log";
+
+// .gz/.zst files match by the name underneath
+export const DEFAULT_BATCH_INCLUDE = ["*.telemetry", "*.datalink", "*.datalink.xml", "*.tlog", "*.bin", "*.zip"];
+export const DEFAULT_OUT_TEMPLATE = "{dir}/{name}.apxtlm";
+const MANIFEST_NAME = ".apx-repack-manifest.json";
+
+export type BatchOptions = {
+  inDir: string;              // or a zip archive: its entries are the inputs
+  outDir?: string;            // default: inDir (the archive's directory)
+  outTemplate?: string;       // tokens: {dir} {name} {base} {ext} {kind}
+  include?: string[];         // globs; patterns without '/' match the base name
+  exclude?: string[];
+  concurrency?: number;       // worker threads, default: cpu count
+  force?: boolean;            // repack even when the manifest says up to date
+  utcOffset?: number;
+  includeJso?: boolean;
+  kind?: FileKind;            // skip sniffing, every matched file is this kind
+  time?: TimeGuardSettings;   // timestamp anomaly policy
+  filter?: RepackFilter;      // time range and field/event subset of every file
+  encoding?: EncodingPolicy;  // value types/precision of every output
+  recover?: boolean;          // keep what parses from damaged XML
+  mapping?: LogFieldMap;      // field mapping of every tlog/DataFlash input
+  profile?: FieldProfile;     // field profile of every output
+  workerScript?: string;      // entry that dispatches to batchWorkerMain (the CLI itself by default)
+};
+
+export type BatchItemResult = {
+  input: string;
+  output: string;
+  kind?: FileKind;
+  status: "ok" | "skipped" | "failed";
+  error?: string;
+  md5?: string;
+  inSize: number;
+  outSize?: number;
+  durationMs: number;
+};
+
+export type BatchSummary = {
+  inDir: string;
+  outDir: string;
+  startedAt: string;
+  durationMs: number;
+  total: number;
+  ok: number;
+  skipped: number;
+  failed: number;
+  items: BatchItemResult[];
+};
+
+/** what shapes an output besides the input bytes */
+type BatchJobOptions = {
+  kind: FileKind; utcOffset: number; includeJso: boolean; time?: TimeGuardSettings; filter?: RepackFilter;
+  encoding?: EncodingPolicy; recover?: boolean; mapping?: LogFieldMap; profile?: FieldProfile;
+};
+type BatchJob = BatchJobOptions & { id: number; inFile: string; entry?: ZipEntry; outFile: string };
+type BatchJobDone = { id: number; ok: boolean; error?: string };
+/** per input: its md5, the output and the md5 of the job options it was written with */
+type Manifest = Record<string, { md5: string; output: string; options?: string }>;
+
+function walk(dir: string, out: string[] = []): string[] {
+  for (const e of fs.readdirSync(dir, { withFileTypes: true })) {
+    const p = path.join(dir, e.name);
+    if (e.isDirectory()) walk(p, out);
+    else if (e.isFile()) out.push(p);
+  }
+  return out;
+}
+
+/** expand {dir} {name} {base} {ext} {kind} for an input relative to inDir */
+export function expandOutTemplate(template: string, rel: string, kind: string): string {
+  const p = path.parse(rel);
+  const vars: Record<string, string> = { dir: p.dir || ".", name: p.name, base: p.base, ext: p.ext.replace(/^\./, ""), kind };
+  return path.normalize(template.replace(/\{(\w+)\}/g, (m, k) => vars[k] ?? m));
+}
+
+/**
+ * `out`, or when an earlier input of the run expanded to it too (x.telemetry
+ * and x.datalink → x.apxtlm), the name with the source's extensions added:
+ * x.datalink.apxtlm, then numbered. Inputs come sorted, so reruns agree.
+ */
+function claimOutput(out: string, input: string, taken: Set<string>): string {
+  let o = out;
+  if (taken.has(o)) {
+    const p = path.parse(out);
+    const exts = path.basename(input).replace(/^[^.]*\.?/, "");
+    const stem = exts ? `${p.name}.${exts}` : p.name;
+    o = path.join(p.dir, `${stem}${p.ext}`);
+    for (let n = 2; taken.has(o); n++) o = path.join(p.dir, `${stem}.${n}${p.ext}`);
+  }
+  taken.add(o);
+  return o;
+}
+
+function optionsHash(o: BatchJobOptions): string {
+  return createHash("md5").update(JSON.stringify(o)).digest("hex");
+}
+
+function readManifest(file: string): Manifest {
+  try { return JSON.parse(fs.readFileSync(file, "utf8")); } catch { return {}; }
+}
+
+function fileSize(p: string): number | undefined {
+  try { return fs.statSync(p).size; } catch { return undefined; }
+}
+
+/** Fixed-size worker_threads pool; one repack job per worker at a time. */
+function runPool(
+  jobs: BatchJob[],
+  concurrency: number,
+  script: string,
+  onStart: (job: BatchJob) => void,
+  onDone: (d: BatchJobDone) => void
+): Promise<void> {
+  return new Promise<void>((resolve) => {
+    let next = 0;
+    let active = 0;
+
+    const spawn = () => {
+      if (next >= jobs.length) {
+        if (active === 0) resolve();
+        return;
+      }
+      const job = jobs[next++];
+      active++;
+      onStart(job);
+      const w = new Worker(script, { workerData: { apxRepackWorker: true, job } });
+      let settled = false;
+      const finish = (d: BatchJobDone) => {
+        if (settled) return;
+        settled = true;
+        active--;
+        onDone(d);
+        void w.terminate();
+        spawn();
+      };
+      w.once("message", (d: BatchJobDone) => finish(d));
+      w.once("error", (e) => finish({ id: job.id, ok: false, error: e?.message ?? String(e) }));
+      w.once("exit", (code) => finish({ id: job.id, ok: false, error: `worker exited with code ${code}` }));
+    };
+
+    if (!jobs.length) return resolve();
+    for (let i = 0; i < Math.max(1, concurrency); i++) spawn();
+  });
+}
+
+/** inputs under `inDir`; zip archives stand for their telemetry/datalink entries */
+type BatchInput = { abs: string; rel: string; entry?: ZipEntry; error?: string };
+
+function expandArchive(abs: string, rel: string): BatchInput[] {
+  let entries: ZipEntry[];
+  try { entries = zipXmlEntries(abs); } catch (e: any) { return [{ abs, rel, error: e?.message ?? String(e) }]; }
+  // entries go to a directory named after the archive: flights.zip/a.telemetry → flights/a.apxtlm
+  const dir = rel.replace(/\.zip$/i, "");
+  return entries.map((entry) => ({ abs, rel: `${dir}/${entry.name}`, entry }));
+}
+
+export async function runBatch(opts: BatchOptions): Promise<BatchSummary> {
+  const t0 = Date.now();
+  const inDir = path.resolve(opts.inDir);
+  const archive = fs.statSync(inDir).isFile();
+  const root = archive ? path.dirname(inDir) : inDir;
+  const outDir = path.resolve(opts.outDir ?? root);
+  const template = opts.outTemplate ?? DEFAULT_OUT_TEMPLATE;
+  const include = opts.include?.length ? opts.include : DEFAULT_BATCH_INCLUDE;
+  const exclude = opts.exclude ?? [];
+  const manifestFile = path.join(outDir, MANIFEST_NAME);
+  const manifest = readManifest(manifestFile);
+
+  const items: BatchItemResult[] = [];
+  const jobs: BatchJob[] = [];
+  const started = new Map<number, number>();
+  const outputs = new Set<string>();
+  const optionHashes = new Map<number, string>();   // job id → optionsHash
+
+  const inputs: BatchInput[] = [];
+  for (const abs of (archive ? [inDir] : walk(inDir)).sort()) {
+    const rel = path.relative(root, abs).split(path.sep).join("/");
+    const plain = stripCompressionExt(rel);
+    const taken = archive || (matchAny(rel, include) || matchAny(plain, include)) && !matchAny(rel, exclude) && !matchAny(plain, exclude);
+    if (!taken) continue;
+    if (fileCompression(abs) === "zip") inputs.push(...expandArchive(abs, rel).filter((i) => !i.entry || !matchAny(i.rel, exclude)));
+    else inputs.push({ abs, rel: plain });
+  }
+
+  for (const { abs, rel, entry, error } of inputs) {
+    const input = entry ? path.join(abs, entry.name) : abs;
+    const item: BatchItemResult = { input, output: "", status: "failed", inSize: entry?.size ?? fileSize(abs) ?? 0, durationMs: 0 };
+    items.push(item);
+    if (error) {
+      item.error = error;
+      continue;
+    }
+
+    const kind = opts.kind ?? sniffKind(abs, entry);
+    if (!kind) {
+      item.error = "cannot detect file type (telemetry/datalink/tlog/dataflash)";
+      continue;
+    }
+    item.kind = kind;
+    const expanded = path.resolve(outDir, expandOutTemplate(template, rel, kind));
+    item.output = claimOutput(expanded, input, outputs);
+    if (item.output !== expanded) log.warn(`[batch] ${input}: ${expanded} is taken by another input, writing ${item.output}`);
+    item.md5 = await md5File(abs);
+    const options: BatchJobOptions = {
+      kind,
+      utcOffset: opts.utcOffset ?? 0,
+      includeJso: opts.includeJso ?? true,
+      time: opts.time,
+      filter: opts.filter,
+      encoding: opts.encoding,
+      recover: opts.recover,
+      mapping: opts.mapping,
+      profile: opts.profile,
+    };
+    const hash = optionsHash(options);
+
+    const key = path.relative(root, input).split(path.sep).join("/");
+    const prev = manifest[key];
+    if (!opts.force && prev && prev.md5 === item.md5 && prev.output === item.output && prev.options === hash && fs.existsSync(item.output)) {
+      item.status = "skipped";
+      item.outSize = fileSize(item.output);
+      continue;
+    }
+    const id = items.length - 1;
+    optionHashes.set(id, hash);
+    jobs.push({ id, inFile: abs, entry, outFile: item.output, ...options });
+  }
+
+  const script = opts.workerScript ?? process.argv[1];
+  const concurrency = opts.concurrency ?? os.cpus().length;
+
+  await runPool(jobs, concurrency, script, (j) => started.set(j.id, Date.now()), (d) => {
+    const item = items[d.id];
+    item.durationMs = Date.now() - (started.get(d.id) ?? Date.now());
+    if (d.ok) {
+      item.status = "ok";
+      item.outSize = fileSize(item.output);
+      const key = path.relative(root, item.input).split(path.sep).join("/");
+      manifest[key] = { md5: item.md5!, output: item.output, options: optionHashes.get(d.id) };
+    } else {
+      item.error = d.error;
+    }
+    log.info(`[batch] ${item.status === "ok" ? "ok    " : "FAILED"} ${item.input}${d.error ? `: ${d.error}` : ""}`);
+  });
+
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(manifestFile, JSON.stringify(manifest, null, 2));
+
+  return {
+    inDir,
+    outDir,
+    startedAt: new Date(t0).toISOString(),
+    durationMs: Date.now() - t0,
+    total: items.length,
+    ok: items.filter(i => i.status === "ok").length,
+    skipped: items.filter(i => i.status === "skipped").length,
+    failed: items.filter(i => i.status === "failed").length,
+    items,
+  };
+}
+
+export function formatBatchSummaryMarkdown(s: BatchSummary): string {
+  const out: string[] = [];
+  out.push(`# apx-repack batch summary`);
+  out.push(``);
+  out.push(`- input: \`${s.inDir}\``);
+  out.push(`- output: \`${s.outDir}\``);
+  out.push(`- started: ${s.startedAt}, took ${(s.durationMs / 1000).toFixed(1)} s`);
+  out.push(`- total ${s.total}: ok ${s.ok}, skipped ${s.skipped}, failed ${s.failed}`);
+  out.push(``);
+  out.push(`| input | kind | status | in bytes | out bytes | ms | error |`);
+  out.push(`|---|---|---|---:|---:|---:|---|`);
+  for (const i of s.items) {
+    const rel = path.relative(s.inDir, i.input);
+    const err = (i.error ?? "").replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+    out.push(`| ${rel} | ${i.kind ?? "-"} | ${i.status} | ${i.inSize} | ${i.outSize ?? "-"} | ${i.durationMs} | ${err} |`);
+  }
+  return out.join("\n") + "\n";
+}
+
+/** Worker-thread side of runBatch: repack one job and report back. */
+export function batchWorkerMain() {
+  const job = (workerData as { job: BatchJob }).job;
+  const run = createRepackRunner(job.kind);
+  const e = job.entry;
+  Promise.resolve()
+    .then(() => run(e ? openZipEntry(job.inFile, e) : job.inFile, job.outFile, {
+      name: e && path.join(job.inFile, e.name), mtimeMs: e?.mtimeMs,
+      utcOffset: job.utcOffset, includeJso: job.includeJso, time: job.time, filter: job.filter, encoding: job.encoding, recover: job.recover,
+      mapping: job.mapping, profile: job.profile,
+    }))
+    .then(() => parentPort!.postMessage({ id: job.id, ok: true } as BatchJobDone))
+    .catch((err: any) => parentPort!.postMessage({ id: job.id, ok: false, error: err?.message ?? String(err) } as BatchJobDone));
+}
+
+export function isBatchWorker(): boolean {
+  return !!(workerData as any)?.apxRepackWorker;
+}
@@ -1,28 +1,241 @@
 import * as fs from "fs";
 import * as path from "path";
-import { sniffXmlKind, FileKind } from "./sniff.service";
-import { createRepackRunner } from "./factory";
+import { sniffKind, isApxTlmFile, isXmlKind, FileKind, XmlKind } from "./sniff.service";
+import { createExportRunner } from "./factory";
+import { createCsvSink, CsvExportOptions } from "./services/csv-export.service";
+import { createArrowSink, ArrowExportOptions } from "./services/arrow-export.service";
+import { createGeoSink, GeoExportOptions } from "./services/geo-export.service";
+import { createTelemetryXmlSink, TelemetryXmlOptions } from "./services/telemetry-xml-export.service";
+import { inspectApxTlm, formatInspectReport, ApxTlmInspectReport } from "./services/apxtlm-inspect.service";
+import { ApxTlmFormatError } from "./services/apxtlm-reader.service";
+import { runBatch, formatBatchSummaryMarkdown, BatchOptions, BatchSummary } from "./batch.service";
+import { watchInbox, WatchOptions } from "./watch.service";
+import { mergeInputs, MergeOptions, MergeResult } from "./merge.service";
+import { repack, RepackResult } from "./repacker.service";
+import { TimeGuardSettings, formatTimeAnomalies } from "./services/time-guard";
+import { SegmentOptions } from "./services/segment-sink";
+import { RepackFilter } from "./services/filter";
+import { EncodingPolicy } from "./services/value-encoding";
+import { formatRecovery } from "./services/recovery";
+import { fileCompression, zipXmlEntries } from "./services/compressed";
+import { validateXml, formatValidateReport, ValidateReport } from "./services/xml-validate.service";
+import { LogFieldMap } from "./services/log-mapping";
+import { FieldProfile } from "./services/field-profile";
+import {
+  InputError, FormatError, ParseError, PartialFailureError, OutputError, UsageError, ValidationError, classifyRunError,
+} from "./errors";
+import { log } from "./log";
+
+export type ExportFormat = "csv" | "arrow" | "geojson" | "kml" | "telemetry";
+
+export type ExportResult = { kind: FileKind | "apxtlm"; format: ExportFormat; input: string; output: string };
+
+function exportFormatFromPath(p: string): ExportFormat {
+  if (/\.(arrow|feather|ipc)$/i.test(p)) return "arrow";
+  if (/\.(geojson|json)$/i.test(p)) return "geojson";
+  if (/\.kml$/i.test(p)) return "kml";
+  if (/\.telemetry$/i.test(p)) return "telemetry";
+  return "csv";
+}
+
+function requireFile(file: string) {
+  if (!fs.existsSync(file)) throw new InputError(`No such file: ${file}`);
+  if (!fs.statSync(file).isFile()) throw new InputError(`Not a file: ${file}`);
+}
+
+function requireDir(dir: string) {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) throw new InputError(`No such directory: ${dir}`);
+}
+
+/** A zip archive holding several telemetry/datalink files: repacked like a directory. */
+export function isMultiInputArchive(file: string): boolean {
+  if (!fs.existsSync(file) || !fs.statSync(file).isFile() || fileCompression(file) !== "zip") return false;
+  try { return zipXmlEntries(file).length > 1; } catch { return false; }
+}
 
 export async function runRepack(params: {
   inFile: string;
   outFile: string;
   utcOffset?: number;
   includeJso?: boolean;
-}) {
-  const { inFile, outFile, utcOffset = 0, includeJso = false } = params;
+  kind?: FileKind;            // skip sniffing
+  time?: TimeGuardSettings;
+  segment?: SegmentOptions;
+  filter?: RepackFilter;
+  encoding?: EncodingPolicy;
+  recover?: boolean;
+  mapping?: LogFieldMap;      // binary logs: message fields → mandala names, over the defaults
+  profile?: FieldProfile;
+}): Promise<RepackResult> {
+  const { inFile, outFile, utcOffset = 0, includeJso = true, time, segment, filter, encoding, recover, mapping, profile } = params;
+
+  requireFile(inFile);
+
+  const absIn = path.resolve(inFile);
+  const absOut = path.resolve(outFile);
+
+  const kind = params.kind ?? sniffKind(absIn);
+  if (!kind) throw new FormatError(`Cannot detect file type (telemetry/datalink/tlog/dataflash) from: ${absIn}`);
 
-  if (!fs.existsSync(inFile)) {
-    throw new Error(`No such file: ${inFile}`);
+  let res: RepackResult;
+  try {
+    res = await repack(absIn, absOut, {
+      kind, utcOffset, includeJso, time, segment, filter, encoding, recover, mapping, profile,
+      onProgress: (p) => log.debug(`[repack] ${p.bytesRead}/${p.totalBytes} bytes, downlink=${p.downlink} uplink=${p.uplink}`),
+    });
+  } catch (e) {
+    throw classifyRunError(e, absIn, absOut);
   }
 
+  for (const line of formatTimeAnomalies(res.timeAnomalies)) log.warn(`[repack][time] ${line}`);
+  if (res.recovered) for (const line of formatRecovery(res.recovered)) log.warn(`[repack][recover] ${line}`);
+  if (res.segments) log.info(`[repack] ${res.segments.length} segment(s): ${res.segments.map((s) => s.output).join(", ")}`);
+  log.info(`✅ Repacked [${kind}] ${absIn} → ${res.output} (${res.fields.length} fields, downlink=${res.downlink} uplink=${res.uplink}, ${res.bytesOut} bytes)`);
+  return res;
+}
+
+export async function runInspect(params: { inFile: string }): Promise<ApxTlmInspectReport> {
+  const { inFile } = params;
+
+  requireFile(inFile);
+
+  let rep: ApxTlmInspectReport;
+  try {
+    rep = await inspectApxTlm(path.resolve(inFile));
+  } catch (e: any) {
+    if (e instanceof ApxTlmFormatError) throw new ParseError(e.message, e);
+    throw new InputError(e?.message ?? String(e), e);
+  }
+  for (const line of formatInspectReport(rep)) log.info(line);
+  return rep;
+}
+
+/** Throws ValidationError (carrying the report) when the input has errors; warnings alone pass. */
+export async function runValidate(params: { inFile: string; kind?: XmlKind; maxPerCode?: number; time?: TimeGuardSettings }): Promise<ValidateReport> {
+  const { inFile } = params;
+
+  requireFile(inFile);
+
+  const absIn = path.resolve(inFile);
+  const kind = params.kind ?? sniffKind(absIn);
+  if (!kind) throw new FormatError(`Cannot detect file type (telemetry/datalink) from: ${absIn}`);
+  if (!isXmlKind(kind)) throw new FormatError(`Only telemetry/datalink XML can be validated, not ${kind} logs: ${absIn}`);
+
+  let rep: ValidateReport;
+  try {
+    rep = await validateXml(absIn, kind, { maxPerCode: params.maxPerCode, time: params.time });
+  } catch (e: any) {
+    throw new InputError(e?.message ?? String(e), e);
+  }
+  for (const line of formatValidateReport(rep)) {
+    if (rep.errors) log.error(line);
+    else if (rep.warnings) log.warn(line);
+    else log.info(line);
+  }
+  if (rep.errors) throw new ValidationError(`${rep.errors} error(s) in ${absIn}`, rep);
+  return rep;
+}
+
+export async function runExport(params: {
+  inFile: string;
+  outFile: string;
+  utcOffset?: number;
+  format?: ExportFormat;
+  csv?: CsvExportOptions;
+  arrow?: ArrowExportOptions;
+  geo?: GeoExportOptions;
+  telemetry?: TelemetryXmlOptions;
+  kind?: FileKind;            // skip sniffing for non-APXTLM inputs
+  mapping?: LogFieldMap;
+  profile?: FieldProfile;     // also applies to .apxtlm inputs
+}): Promise<ExportResult> {
+  const { inFile, outFile, utcOffset = 0, csv = {}, arrow = {}, geo = {}, telemetry = {}, mapping, profile } = params;
+  const format = params.format ?? exportFormatFromPath(outFile);
+
+  requireFile(inFile);
+
   const absIn = path.resolve(inFile);
   const absOut = path.resolve(outFile);
 
-  const kind = sniffXmlKind(absIn);
-  if (!kind) throw new Error(`Cannot detect file type (telemetry/datalink) from: ${absIn}`);
+  const kind = isApxTlmFile(absIn) ? "apxtlm" : params.kind ?? sniffKind(absIn);
+  if (!kind) throw new FormatError(`Cannot detect file type (telemetry/datalink/tlog/dataflash/apxtlm) from: ${absIn}`);
+
+  const run = createExportRunner(kind);
+  const sink =
+    format === "arrow" ? createArrowSink(arrow) :
+    format === "geojson" || format === "kml" ? createGeoSink({ ...geo, format }) :
+    format === "telemetry" ? createTelemetryXmlSink(telemetry) :
+    createCsvSink(csv);
+  // objects are only needed for the map exports and the XML round trip
+  const includeJso = format === "geojson" || format === "kml" || format === "telemetry";
+  try {
+    await run(absIn, absOut, { utcOffset, includeJso, sink, mapping, profile });
+  } catch (e: any) {
+    if (e instanceof ApxTlmFormatError) throw new ParseError(e.message, e);
+    throw classifyRunError(e, absIn, absOut);
+  }
+
+  log.info(`✅ Exported [${kind}] ${absIn} → ${absOut} (${format})`);
+  return { kind, format, input: absIn, output: absOut };
+}
+
+/** Throws PartialFailureError (carrying the summary) when some files failed. */
+export async function runBatchRepack(params: BatchOptions & { summary?: string[] }): Promise<BatchSummary> {
+  const { summary = [], ...opts } = params;
+
+  if (!isMultiInputArchive(opts.inDir)) requireDir(opts.inDir);
+
+  const res = await runBatch(opts);
+
+  for (const file of summary) {
+    const abs = path.resolve(file);
+    try {
+      fs.mkdirSync(path.dirname(abs), { recursive: true });
+      if (/\.md$/i.test(abs)) fs.writeFileSync(abs, formatBatchSummaryMarkdown(res));
+      else fs.writeFileSync(abs, JSON.stringify(res, null, 2));
+    } catch (e: any) {
+      throw new OutputError(`Cannot write summary ${abs}: ${e?.message ?? e}`, e);
+    }
+  }
+
+  log.info(`✅ Batch ${res.inDir} → ${res.outDir}: total=${res.total} ok=${res.ok} skipped=${res.skipped} failed=${res.failed}`);
+  if (res.failed) throw new PartialFailureError(`${res.failed} of ${res.total} file(s) failed`, res);
+  return res;
+}
+
+export async function runMerge(params: Omit<MergeOptions, "log">): Promise<MergeResult> {
+  const inputs = params.inputs.map((f) => path.resolve(f));
+  const outFile = path.resolve(params.outFile);
+  for (const f of inputs) requireFile(f);
+  if (inputs.includes(outFile)) throw new UsageError(`merge: output ${outFile} is also an input`);
+
+  let res: MergeResult;
+  try {
+    res = await mergeInputs({ ...params, inputs, outFile, log: (m) => log.debug(m) });
+  } catch (e) {
+    if (e instanceof ApxTlmFormatError) throw new ParseError(e.message, e);
+    throw classifyRunError(e, inputs.join(", "), outFile);
+  }
+
+  const d = res.duplicates;
+  log.info(`✅ Merged ${inputs.length} inputs → ${outFile} (${res.fields.length} fields, downlink=${res.downlink} uplink=${res.uplink}, ` +
+    `duplicates: ${d.values} values, ${d.events} events, ${d.objects} objects)`);
+  return res;
+}
 
-  const run = createRepackRunner(kind as FileKind);
-  await run(absIn, absOut, { utcOffset, includeJso });
+/** Runs until SIGINT/SIGTERM. */
+export async function runWatch(params: WatchOptions) {
+  requireDir(params.inbox);
 
-  console.log(`✅ Repacked [${kind}] ${absIn} → ${absOut}`);
+  const handle = watchInbox({ log: (m) => log.info(m), ...params });
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      log.info("[watch] stopping…");
+      handle.close().then(resolve);
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
 }
@@ -0,0 +1,69 @@
+/** Process exit codes, one per failure category, so scripts can react to them. */
+export enum ExitCode {
+  ok = 0,
+  failure = 1,        // unexpected / uncategorized
+  usage = 2,          // bad command line
+  input = 3,          // input missing or unreadable
+  format = 4,         // input type not detected / not supported
+  parse = 5,          // input is malformed
+  output = 6,         // output cannot be written
+  partial = 7,        // batch finished with some failed files
+}
+
+export class RepackError extends Error {
+  constructor(message: string, public readonly exitCode: ExitCode = ExitCode.failure, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class UsageError extends RepackError {
+  constructor(message: string) { super(message, ExitCode.usage); }
+}
+
+export class InputError extends RepackError {
+  constructor(message: string, cause?: unknown) { super(message, ExitCode.input, cause); }
+}
+
+export class FormatError extends RepackError {
+  constructor(message: string) { super(message, ExitCode.format); }
+}
+
+export class ParseError extends RepackError {
+  constructor(message: string, cause?: unknown) { super(message, ExitCode.parse, cause); }
+}
+
+/** Input checked by `validate` has errors; `result` is the full report. */
+export class ValidationError extends RepackError {
+  constructor(message: string, public readonly result?: unknown) { super(message, ExitCode.parse); }
+}
+
+export class OutputError extends RepackError {
+  constructor(message: string, cause?: unknown) { super(message, ExitCode.output, cause); }
+}
+
+export class PartialFailureError extends RepackError {
+  /** `result` is what the run produced anyway (e.g. the batch summary) */
+  constructor(message: string, public readonly result?: unknown) { super(message, ExitCode.partial); }
+}
+
+/**
+ * Map an error thrown by a pipeline run to a category: I/O errors on the
+ * output path are output errors, on anything else input errors; the rest
+ * (sax, format decoders) are parse errors.
+ */
+export function classifyRunError(e: any, inFile: string, outFile: string): RepackError {
+  if (e instanceof RepackError) return e;
+  const msg = e?.message ?? String(e);
+  if (typeof e?.code === "string" && e?.syscall) {
+    if (e.path && String(e.path) === outFile) return new OutputError(msg, e);
+    if (e.syscall === "write" || e.code === "ENOSPC") return new OutputError(msg, e);
+    if (e.path && String(e.path) === inFile) return new InputError(msg, e);
+    return new OutputError(msg, e);
+  }
+  return new ParseError(msg, e);
+}
+
+export function exitCodeOf(e: unknown): ExitCode {
+  return e instanceof RepackError ? e.exitCode : ExitCode.failure;
+}
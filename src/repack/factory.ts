@@ -1,14 +1,28 @@
-import { repackDatalinkToApx_stream } from "./services/datalink-repack.service";
-import { repackTelemetryToApx_stream } from "./services/telemetry-repack.service";
+import { datalinkAdapter } from "./services/datalink-repack.service";
+import { telemetryAdapter } from "./services/telemetry-repack.service";
+import { tlogAdapter } from "./services/mavlink-repack.service";
+import { dataflashAdapter } from "./services/dataflash-repack.service";
+import { replayApxTlm_stream } from "./services/apxtlm-reader.service";
+import { FormatAdapter, runAdapter } from "./services/stream-core";
+import { RepackSource, RepackRunOptions } from "./services/source";
 import { FileKind } from "./sniff.service";
 
+/** Input formats by kind; a new format only needs its adapter registered here. */
+const ADAPTERS: Record<FileKind, FormatAdapter> = {
+  telemetry: telemetryAdapter,
+  datalink: datalinkAdapter,
+  tlog: tlogAdapter,
+  dataflash: dataflashAdapter,
+};
+
 export function createRepackRunner(kind: FileKind) {
-  switch (kind) {
-    case "telemetry":
-      return repackTelemetryToApx_stream;
-    case "datalink":
-      return repackDatalinkToApx_stream;
-    default:
-      throw new Error(`Unsupported kind: ${kind as never}`);
-  }
+  const adapter = ADAPTERS[kind];
+  if (!adapter) throw new Error(`Unsupported kind: ${kind as never}`);
+  return (input: RepackSource, outFile: string, opts: RepackRunOptions = {}) => runAdapter(adapter, input, outFile, opts);
+}
+
+/** Same pipelines as createRepackRunner, plus replay of existing .apxtlm files. */
+export function createExportRunner(kind: FileKind | "apxtlm") {
+  if (kind === "apxtlm") return replayApxTlm_stream;
+  return createRepackRunner(kind);
 }
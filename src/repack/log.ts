@@ -0,0 +1,28 @@
+/**
+ * Console output shared by the CLI and the pipelines.
+ *  - normal:  progress and results
+ *  - quiet:   warnings and errors only
+ *  - verbose: plus debug details
+ *  - json:    nothing but the final JSON document on stdout; diagnostics go to stderr
+ */
+export type LogMode = "normal" | "quiet" | "verbose" | "json";
+
+let mode: LogMode = "normal";
+
+export function setLogMode(m: LogMode) { mode = m; }
+export function getLogMode(): LogMode { return mode; }
+
+export const log = {
+  info(...args: any[]) {
+    if (mode === "normal" || mode === "verbose") console.log(...args);
+  },
+  debug(...args: any[]) {
+    if (mode === "verbose") console.log(...args);
+  },
+  warn(...args: any[]) {
+    console.warn(...args);
+  },
+  error(...args: any[]) {
+    console.error(...args);
+  },
+};
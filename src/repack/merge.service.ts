@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createHash } from "crypto";
+import { isApxTlmFile, sniffKind, FileKind } from "./sniff.service";
+import { repack } from "./repacker.service";
+import { ApxTlmReader, ApxTlmRecord, ApxTlmHeader } from "./services/apxtlm-reader.service";
+import { createApxTlmSink } from "./services/apxtlm-writer.service";
+import { buildInfoForInput } from "./services/info.util";
+import { RepackStats, StatsSink, withStats } from "./services/stats-sink";
+import { TlmSink } from "./services/tlm-sink";
+import { withTimeGuard } from "./services/time-guard";
+import { FormatError } from "./errors";
+
+export type MergeOptions = {
+  inputs: string[];           // .telemetry / .datalink / .tlog / .bin / .apxtlm, any mix
+  outFile: string;
+  utcOffset?: number;
+  includeJso?: boolean;       // default true
+  dedupMs?: number;           // same field from another input within this window is a duplicate, default 50
+  log?: (msg: string) => void;
+};
+
+export type MergeInputSummary = {
+  input: string;
+  kind: FileKind | "apxtlm";
+  baseTs: number;
+  offsetMs: number;           // start relative to the merged header timestamp
+  values: number;             // samples read
+  duplicates: number;         // samples and events dropped as duplicates
+};
+
+export type MergeResult = RepackStats & {
+  output: string;
+  inputs: MergeInputSummary[];
+  duplicates: { values: number; events: number; objects: number };
+  bytesOut: number;
+};
+
+const DEFAULT_DEDUP_MS = 50;
+
+type Timed = Extract<ApxTlmRecord, { type: "value" | "evt" | "jso" }>;
+
+/** One input being read in time order; declarations are mapped into the merged registry as they come. */
+class Cursor {
+  head?: { abs: number; rec: Timed };
+  fieldMap: number[] = [];
+  evtMap: number[] = [];
+  private it: AsyncIterator<ApxTlmRecord>;
+  private done = false;
+
+  constructor(
+    readonly src: number,
+    readonly reader: ApxTlmReader,
+    readonly baseTs: number,
+    readonly summary: MergeInputSummary,
+    private declare: (c: Cursor, rec: ApxTlmRecord) => void
+  ) {
+    this.it = reader.records();
+  }
+
+  /** Load the next value/event/object into `head`; false at the end. */
+  async advance(): Promise<boolean> {
+    this.head = undefined;
+    while (!this.done) {
+      const r = await this.it.next();
+      if (r.done || r.value.type === "stop") { this.done = true; break; }
+      const rec = r.value;
+      switch (rec.type) {
+        case "field":
+        case "evtid":
+          this.declare(this, rec);
+          break;
+        case "value":
+        case "evt":
+        case "jso":
+          this.head = { abs: this.baseTs + rec.ts, rec };
+          return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Merge several recordings of one vehicle into a single APXTLM timeline.
+ * XML inputs are repacked to temporary files first; all inputs are then read
+ * side by side and interleaved by absolute time (header timestamp + ts).
+ * Fields and events are unified by name; a sample of a field that another
+ * input already wrote within `dedupMs` is dropped, as are events with the
+ * same values and objects with the same content.
+ */
+export async function mergeInputs(opts: MergeOptions): Promise<MergeResult> {
+  const { inputs, outFile, utcOffset = 0, includeJso = true } = opts;
+  const dedupMs = Math.max(0, opts.dedupMs ?? DEFAULT_DEDUP_MS);
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-merge-"));
+  const readers: ApxTlmReader[] = [];
+
+  try {
+    // 1) everything to APXTLM
+    const files: Array<{ input: string; file: string; kind: FileKind | "apxtlm" }> = [];
+    for (const [i, input] of inputs.entries()) {
+      if (isApxTlmFile(input)) {
+        files.push({ input, file: input, kind: "apxtlm" });
+        continue;
+      }
+      const kind = sniffKind(input);
+      if (!kind) throw new FormatError(`Cannot detect file type (telemetry/datalink/tlog/dataflash/apxtlm) from: ${input}`);
+      const file = path.join(tmpDir, `${i}.apxtlm`);
+      opts.log?.(`[merge] repacking ${input}`);
+      await repack(input, file, { kind, utcOffset, includeJso });
+      files.push({ input, file, kind });
+    }
+
+    // 2) headers decide the merged start
+    const headers: ApxTlmHeader[] = [];
+    for (const f of files) {
+      const r = new ApxTlmReader(f.file);
+      readers.push(r);
+      headers.push(await r.readHeader());
+    }
+    const baseTs = Math.min(...headers.map((h) => h.timestamp));
+
+    let stats: StatsSink | undefined;
+    const sink = withTimeGuard(withStats(createApxTlmSink, (s) => { stats = s; }), {});
+    const wr: TlmSink = sink(outFile, baseTs, utcOffset);
+    wr.writeHeaderPlaceholder();
+    const first = files[0];
+    wr.emitInfo({
+      ...buildInfoForInput(first.input, first.kind === "apxtlm" ? "telemetry" : first.kind, baseTs, {}, utcOffset),
+      title: path.parse(outFile).name,
+      merged: files.map((f) => path.basename(f.input)),
+    });
+
+    // 3) merged registries
+    const fieldIdx = new Map<string, number>();
+    const evtIdx = new Map<string, number>();   // name + keys
+    const evtKeys: string[][] = [];
+    const declare = (c: Cursor, rec: ApxTlmRecord) => {
+      if (rec.type === "field") {
+        let i = fieldIdx.get(rec.name);
+        if (i === undefined) {
+          fieldIdx.set(rec.name, i = fieldIdx.size);
+          wr.emitField(rec.name, rec.info);
+        }
+        c.fieldMap[rec.index] = i;
+      } else if (rec.type === "evtid") {
+        const key = `${rec.name}(${rec.keys.join(",")})`;
+        let i = evtIdx.get(key);
+        if (i === undefined) {
+          evtIdx.set(key, i = evtIdx.size);
+          evtKeys.push(rec.keys);
+          wr.emitEvtId(rec.name, rec.keys);
+        }
+        c.evtMap[rec.index] = i;
+      }
+    };
+
+    const cursors = files.map((f, i) => new Cursor(i, readers[i], headers[i].timestamp, {
+      input: f.input, kind: f.kind, baseTs: headers[i].timestamp, offsetMs: headers[i].timestamp - baseTs, values: 0, duplicates: 0,
+    }, declare));
+    const live: Cursor[] = [];
+    for (const c of cursors) if (await c.advance()) live.push(c);
+
+    // 4) interleave
+    const lastField = new Map<number, { abs: number; src: number }>();   // key: index*2 + uplink
+    const lastEvt = new Map<string, { abs: number; src: number }>();
+    const seenJso = new Set<string>();
+    const dup = { values: 0, events: 0, objects: 0 };
+    const isDup = (last: { abs: number; src: number } | undefined, abs: number, src: number) =>
+      !!last && last.src !== src && Math.abs(abs - last.abs) <= dedupMs;
+
+    let lastTs = -1;
+    while (live.length) {
+      let k = 0;
+      for (let i = 1; i < live.length; i++) if (live[i].head!.abs < live[k].head!.abs) k = i;
+      const c = live[k];
+      const { abs, rec } = c.head!;
+      const emitTs = () => {
+        const t = abs - baseTs;
+        if (t !== lastTs) { wr.emitTs(t); lastTs = t; }
+      };
+
+      if (rec.type === "value") {
+        c.summary.values++;
+        const idx = c.fieldMap[rec.index];
+        const key = idx * 2 + (rec.uplink ? 1 : 0);
+        if (idx === undefined) {
+          // value of an undeclared field: nothing to map it to
+        } else if (isDup(lastField.get(key), abs, c.src)) {
+          dup.values++;
+          c.summary.duplicates++;
+        } else {
+          lastField.set(key, { abs, src: c.src });
+          emitTs();
+          wr.emitNumber(idx, rec.value, rec.uplink);
+        }
+      } else if (rec.type === "evt") {
+        const idx = c.evtMap[rec.index];
+        const values = evtKeys[idx]?.map((key) => rec.values[key] ?? "") ?? [];
+        const key = `${idx}:${JSON.stringify(values)}`;
+        if (idx === undefined) {
+          // undeclared event
+        } else if (isDup(lastEvt.get(key), abs, c.src)) {
+          dup.events++;
+          c.summary.duplicates++;
+        } else {
+          lastEvt.set(key, { abs, src: c.src });
+          emitTs();
+          wr.emitEvt(idx, values);
+        }
+      } else if (rec.type === "jso" && rec.name !== "info" && includeJso) {
+        const h = createHash("sha1").update(rec.name).update(JSON.stringify(rec.value)).digest("hex");
+        if (seenJso.has(h)) {
+          dup.objects++;
+        } else {
+          seenJso.add(h);
+          emitTs();
+          wr.emitJso(rec.name, rec.value);
+        }
+      }
+
+      if (!(await c.advance())) live.splice(k, 1);
+    }
+
+    await wr.finalizeToFile();
+    return {
+      ...stats!.stats,
+      output: outFile,
+      inputs: cursors.map((c) => c.summary),
+      duplicates: dup,
+      bytesOut: fs.statSync(outFile).size,
+    };
+  } finally {
+    for (const r of readers) r.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
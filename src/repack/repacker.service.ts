@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as path from "path";
+import { EventEmitter } from "events";
+import { Readable, Writable } from "stream";
+import { FileKind, sniffKind, sniffKindFromHead } from "./sniff.service";
+import { createRepackRunner } from "./factory";
+import { ApxTlmWriter, apxTlmSink } from "./services/apxtlm-writer.service";
+import { RepackSource, sourceMtimeMs } from "./services/source";
+import { RepackStats, StatsSink, withStats } from "./services/stats-sink";
+import { SinkFactory } from "./services/tlm-sink";
+import { TimeAnomaly, TimeGuardSettings } from "./services/time-guard";
+import { SegmentOptions } from "./services/segment-sink";
+import { RepackFilter, resolveFilterTime } from "./services/filter";
+import { EncodingPolicy, validateEncodingPolicy } from "./services/value-encoding";
+import { RecoveryReport } from "./services/recovery";
+import { LogFieldMap, validateLogFieldMap } from "./services/log-mapping";
+import { FieldProfile, validateFieldProfile } from "./services/field-profile";
+import { decompressStream, fileCompression, openZipEntry, zipXmlEntries } from "./services/compressed";
+import { FormatError, UsageError } from "./errors";
+
+const SNIFF_BYTES = 64 * 1024;
+const PROGRESS_INTERVAL_MS = 200;
+
+export type RepackInput = RepackSource | Buffer;
+export type RepackOutput = string | Writable;
+
+export type RepackOptions = {
+  kind?: FileKind;          // skip sniffing
+  utcOffset?: number;       // seconds
+  includeJso?: boolean;     // default true
+  name?: string;            // source name for streams/buffers: info title and extension hints (default: the stream's .path, else "stream")
+  size?: number;            // total input bytes when known (e.g. Content-Length), for progress
+  mtimeMs?: number;         // start time when the content has none
+  time?: TimeGuardSettings;  // default clamp; split needs a file output
+  segment?: SegmentOptions;  // flight segments as <title>_segN next to the output path
+  filter?: RepackFilter;     // time range and field/event subset; the output starts at `from`
+  encoding?: EncodingPolicy; // per-field value types, precision and deadband
+  recover?: boolean;         // keep what parses from truncated/corrupted XML instead of failing
+  mapping?: LogFieldMap;     // tlog/DataFlash message fields → mandala names, over the defaults
+  profile?: FieldProfile;    // renamed/dropped/merged/derived output fields
+};
+
+export type RepackProgress = {
+  bytesRead: number;
+  totalBytes?: number;
+  downlink: number;
+  uplink: number;
+  ts?: number;              // last data timestamp, ms relative to baseTs
+};
+
+export type RepackResult = RepackStats & {
+  kind: FileKind;
+  name: string;
+  output?: string;          // path, when writing to a file (the first segment when split)
+  bytesIn: number;
+  bytesOut: number;
+  elapsedMs: number;
+  timeAnomalies: TimeAnomaly[];
+  segments?: Array<RepackStats & { output: string }>;  // when split: every output, first = top level
+  recovered?: RecoveryReport;  // recover mode, when the input was damaged
+};
+
+/**
+ * Repack one telemetry/datalink/tlog/DataFlash source into APXTLM and report what was written.
+ * Input: file path, Readable or Buffer; output: file path or Writable (ended when done).
+ *
+ *   const r = new Repacker({ name: "upload.telemetry" });
+ *   r.on("progress", (p) => ...);
+ *   const result = await r.run(req, res);
+ */
+export class Repacker extends EventEmitter {
+  constructor(private opts: RepackOptions = {}) {
+    super();
+  }
+
+  override on(event: "progress", listener: (p: RepackProgress) => void): this;
+  override on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  async run(input: RepackInput, output: RepackOutput): Promise<RepackResult> {
+    const t0 = Date.now();
+    const o = this.opts;
+    if (o.time?.policy === "split" && typeof output !== "string") {
+      throw new UsageError("time policy 'split' needs a file output");
+    }
+    const segmenting = !!o.segment?.rules?.length;
+    if (segmenting && typeof output !== "string") throw new UsageError("segmentation needs a file output");
+    for (const [k, v] of [["from", o.filter?.from], ["to", o.filter?.to]] as const) {
+      try { if (v !== undefined) resolveFilterTime(v, 0); } catch (e: any) { throw new UsageError(`filter ${k}: ${e.message}`); }
+    }
+    try { validateEncodingPolicy(o.encoding ?? {}); } catch (e: any) { throw new UsageError(`encoding ${e.message}`); }
+    try { validateLogFieldMap(o.mapping ?? {}); } catch (e: any) { throw new UsageError(`mapping ${e.message}`); }
+    try { validateFieldProfile(o.profile ?? {}); } catch (e: any) { throw new UsageError(`profile ${e.message}`); }
+    // never the output path: its extension would steer sniffing and it is not the source
+    const streamPath = (input as { path?: unknown }).path;
+    let name = o.name ?? (typeof input === "string" ? input : typeof streamPath === "string" ? streamPath : "stream");
+
+    let totalBytes = o.size;
+    let mtimeMs = o.mtimeMs;
+    let stream: Readable;
+    let kind = o.kind;
+    const compression = typeof input === "string" ? fileCompression(input) : undefined;
+    if (typeof input === "string" && compression === "zip") {
+      // one entry per run; archives with several go through batch
+      const entries = zipXmlEntries(input);
+      if (entries.length !== 1) throw new UsageError(`${input}: zip archive with ${entries.length} telemetry/datalink entries, repack it as a batch`);
+      const e = entries[0];
+      name = o.name ?? path.join(input, e.name);
+      totalBytes ??= e.size;
+      mtimeMs ??= e.mtimeMs;
+      kind ??= sniffKind(input, e) ?? undefined;
+      stream = openZipEntry(input, e);
+    } else if (typeof input === "string") {
+      const st = fs.statSync(input);
+      totalBytes ??= st.size;
+      mtimeMs ??= sourceMtimeMs(input);
+      kind ??= sniffKind(input) ?? undefined;
+      stream = fs.createReadStream(input, { highWaterMark: 100 * 1024 });
+    } else if (Buffer.isBuffer(input)) {
+      totalBytes ??= input.length;
+      kind ??= sniffKindFromHead(input.subarray(0, SNIFF_BYTES), name) ?? undefined;
+      stream = Readable.from([input]);
+    } else {
+      stream = input;
+    }
+
+    let stats: StatsSink | undefined;
+    const segments: Array<{ output: string; sink: StatsSink }> = [];
+    const timeAnomalies: TimeAnomaly[] = [];
+    let recovered: RecoveryReport | undefined;
+    let writer: ApxTlmWriter | undefined;
+    let bytesRead = 0;
+    let lastProgress = 0;
+    const progress = (force = false) => {
+      const now = Date.now();
+      if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+      lastProgress = now;
+      const s = stats?.stats;
+      this.emit("progress", {
+        bytesRead, totalBytes, downlink: s?.downlink ?? 0, uplink: s?.uplink ?? 0, ts: stats?.ts,
+      } as RepackProgress);
+    };
+
+    // count the bytes as read (compressed, for progress against the file size),
+    // then pull the decompressed head for sniffing and hand the parser head + rest
+    const content = decompressStream(Readable.from((async function* () {
+      for await (const chunk of stream) {
+        const b = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        bytesRead += b.length;
+        progress();
+        yield b;
+      }
+    })()));
+    const it = content[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+    const head: Buffer[] = [];
+    let headLen = 0;
+    let ended = false;
+    if (!kind) {
+      while (headLen < SNIFF_BYTES) {
+        const r = await it.next();
+        if (r.done) { ended = true; break; }
+        head.push(r.value);
+        headLen += r.value.length;
+      }
+      kind = sniffKindFromHead(Buffer.concat(head), name) ?? undefined;
+      if (!kind) {
+        if (!ended) content.destroy();
+        throw new FormatError(`Cannot detect file type (telemetry/datalink/tlog/dataflash) from: ${name}`);
+      }
+    }
+    const body = Readable.from((async function* () {
+      yield* head;
+      while (!ended) {
+        const r = await it.next();
+        if (r.done) return;
+        yield r.value;
+      }
+    })());
+
+    const base: SinkFactory = typeof output === "string"
+      ? apxTlmSink(o.encoding)
+      : (_out, baseTs, utcOffsetSec) => (writer = new ApxTlmWriter(1, utcOffsetSec, baseTs, undefined, output, o.encoding));
+    let segOut = "";
+    const sink = withStats((out, baseTs, utc) => base(segOut = out, baseTs, utc), (s) => {
+      stats ??= s;
+      segments.push({ output: segOut, sink: s });
+    });
+
+    const run = createRepackRunner(kind);
+    await run(body, typeof output === "string" ? output : name, {
+      utcOffset: o.utcOffset ?? 0,
+      includeJso: o.includeJso ?? true,
+      name,
+      mtimeMs,
+      sink,
+      time: { ...o.time, onAnomaly: (a) => timeAnomalies.push(a) },
+      segment: o.segment,
+      filter: o.filter,
+      recover: o.recover,
+      mapping: o.mapping,
+      profile: o.profile,
+      onRecovery: (r) => { recovered = r; },
+    });
+    progress(true);
+
+    const s = stats!.stats;
+    const outputs = segments.map((g) => g.output);
+    return {
+      kind,
+      name: path.basename(name),
+      ...(typeof output === "string" ? { output: outputs[0] ?? output } : {}),
+      ...s,
+      bytesIn: bytesRead,
+      bytesOut: typeof output === "string"
+        ? outputs.reduce((n, f) => n + fs.statSync(f).size, 0)
+        : writer?.getBytesWritten() ?? 0,
+      elapsedMs: Date.now() - t0,
+      timeAnomalies,
+      ...(segments.length > 1 || segmenting ? { segments: segments.map((g) => ({ output: g.output, ...g.sink.stats })) } : {}),
+      ...(recovered ? { recovered } : {}),
+    };
+  }
+}
+
+/** One-shot repack; `onProgress` receives the "progress" events. */
+export function repack(
+  input: RepackInput,
+  output: RepackOutput,
+  opts: RepackOptions & { onProgress?: (p: RepackProgress) => void } = {}
+): Promise<RepackResult> {
+  const { onProgress, ...rest } = opts;
+  const r = new Repacker(rest);
+  if (onProgress) r.on("progress", onProgress);
+  return r.run(input, output);
+}
+
+/** In-memory convenience: repack into a Buffer. */
+export async function repackToBuffer(
+  input: RepackInput,
+  opts: RepackOptions & { onProgress?: (p: RepackProgress) => void } = {}
+): Promise<{ data: Buffer; result: RepackResult }> {
+  const chunks: Buffer[] = [];
+  const sink = new Writable({
+    write(chunk: Buffer, _enc, cb) { chunks.push(chunk); cb(); },
+  });
+  const result = await repack(input, sink, opts);
+  return { data: Buffer.concat(chunks), result };
+}
@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import { ApxTlmReader, ApxTlmHeader } from "./apxtlm-reader.service";
+import { ApxTlmFileStats, HeaderFlag, crc32 } from "./apxtlm-writer.service";
+
+export type ApxTlmInspectReport = {
+  file: string;
+  size: number;
+  header: ApxTlmHeader;
+  fields: Array<{ index: number; name: string; info: string[]; downlink: number; uplink: number }>;
+  events: Array<{ index: number; name: string; keys: string[]; count: number }>;
+  objects: Array<{ name: string; ts: number; size: number; kind: "jso" | "raw" | "zip" }>;
+  records: number;
+  downlink: number;
+  uplink: number;
+  timeStart?: number;    // ms, relative to header timestamp
+  timeEnd?: number;
+  terminated: boolean;   // ExtId.stop seen
+  stats?: ApxTlmFileStats;   // as written by the producer (header or trailer)
+  problems: string[];    // stats that disagree with the content
+};
+
+/** Single pass over an .apxtlm collecting structure and per-field statistics. */
+export async function inspectApxTlm(filePath: string): Promise<ApxTlmInspectReport> {
+  const reader = new ApxTlmReader(filePath);
+  try {
+    const header = await reader.readHeader();
+    const rep: ApxTlmInspectReport = {
+      file: filePath,
+      size: fs.statSync(filePath).size,
+      header,
+      fields: [],
+      events: [],
+      objects: [],
+      records: 0,
+      downlink: 0,
+      uplink: 0,
+      terminated: false,
+      problems: [],
+    };
+
+    const seenTs = (ts: number) => {
+      if (rep.timeStart === undefined || ts < rep.timeStart) rep.timeStart = ts;
+      if (rep.timeEnd === undefined || ts > rep.timeEnd) rep.timeEnd = ts;
+    };
+
+    for await (const rec of reader) {
+      rep.records++;
+      switch (rec.type) {
+        case "ts":
+          seenTs(rec.ts);
+          break;
+        case "field":
+          rep.fields.push({ index: rec.index, name: rec.name, info: rec.info, downlink: 0, uplink: 0 });
+          break;
+        case "evtid":
+          rep.events.push({ index: rec.index, name: rec.name, keys: rec.keys, count: 0 });
+          break;
+        case "value": {
+          const f = rep.fields[rec.index];
+          if (rec.uplink) { rep.uplink++; if (f) f.uplink++; }
+          else { rep.downlink++; if (f) f.downlink++; }
+          break;
+        }
+        case "evt":
+          rep.events[rec.index].count++;
+          break;
+        case "jso":
+          rep.objects.push({ name: rec.name, ts: rec.ts, size: rec.size, kind: "jso" });
+          break;
+        case "raw":
+          rep.objects.push({ name: rec.name, ts: rec.ts, size: rec.data.length, kind: rec.zip ? "zip" : "raw" });
+          break;
+        case "stop":
+          rep.terminated = true;
+          break;
+      }
+    }
+
+    const st = reader.getFileStats();
+    if (st) {
+      rep.stats = st;
+      await checkFileStats(rep, st);
+    } else if (header.flags & HeaderFlag.trailer) {
+      rep.problems.push("stats trailer missing: truncated stream output?");
+    }
+    return rep;
+  } finally {
+    reader.close();
+  }
+}
+
+async function checkFileStats(rep: ApxTlmInspectReport, st: ApxTlmFileStats) {
+  const p = rep.problems;
+  const end = rep.header.headerSize + st.payloadSize;
+  if (rep.size < end) p.push(`file is ${rep.size} bytes, header says ${end}: truncated`);
+  if (rep.records !== st.records) p.push(`records: header ${st.records}, found ${rep.records}`);
+  if (rep.fields.length !== st.fields) p.push(`fields: header ${st.fields}, found ${rep.fields.length}`);
+  if (rep.events.length !== st.events) p.push(`events: header ${st.events}, found ${rep.events.length}`);
+  if ((rep.timeEnd ?? 0) !== st.durationMs) p.push(`duration: header ${st.durationMs} ms, found ${rep.timeEnd ?? 0} ms`);
+  if (rep.size < end || !st.payloadSize) return;
+
+  let crc = 0;
+  const rs = fs.createReadStream(rep.file, { start: rep.header.headerSize, end: end - 1 });
+  for await (const b of rs) crc = crc32(b as Buffer, crc);
+  if (crc !== st.crc32) p.push(`payload crc32: header ${hex32(st.crc32)}, computed ${hex32(crc)}`);
+}
+
+const hex32 = (n: number) => n.toString(16).padStart(8, "0");
+
+function fmtDuration(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  const hh = Math.floor(s / 3600), mm = Math.floor((s % 3600) / 60), ss = s % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}.${String(ms % 1000).padStart(3, "0")}`;
+}
+
+/** Human-readable dump of an inspect report, one line per entry. */
+export function formatInspectReport(rep: ApxTlmInspectReport): string[] {
+  const out: string[] = [];
+  const h = rep.header;
+  const start = new Date(h.timestamp);
+
+  out.push(`file:       ${rep.file} (${rep.size} bytes)`);
+  out.push(`version:    ${h.version} (header ${h.headerSize} bytes)`);
+  out.push(`timestamp:  ${h.timestamp} (${Number.isFinite(start.getTime()) ? start.toISOString() : "invalid"})`);
+  out.push(`utc offset: ${h.utcOffset} s`);
+  out.push(`records:    ${rep.records}${rep.terminated ? "" : " (no stop marker: truncated?)"}`);
+  if (rep.stats) {
+    const st = rep.stats;
+    const where = h.flags & HeaderFlag.stats ? "header" : "trailer";
+    out.push(`stats:      ${where}: ${st.records} records, ${st.fields} fields, ${st.events} events, ` +
+      `${fmtDuration(st.durationMs)}, payload ${st.payloadSize} bytes crc32=${hex32(st.crc32)}`);
+  } else {
+    out.push(`stats:      -`);
+  }
+  for (const msg of rep.problems) out.push(`  ! ${msg}`);
+
+  if (rep.timeStart !== undefined && rep.timeEnd !== undefined) {
+    out.push(`time span:  ${rep.timeStart}..${rep.timeEnd} ms (${fmtDuration(rep.timeEnd - rep.timeStart)})`);
+  } else {
+    out.push(`time span:  -`);
+  }
+
+  const ratio = rep.uplink ? (rep.downlink / rep.uplink).toFixed(2) : "-";
+  out.push(`values:     downlink=${rep.downlink} uplink=${rep.uplink} ratio=${ratio}`);
+
+  out.push(``);
+  out.push(`fields (${rep.fields.length}):`);
+  for (const f of rep.fields) {
+    const info = f.info.length ? ` [${f.info.join(" | ")}]` : "";
+    out.push(`  ${String(f.index).padStart(4)} ${f.name}${info} down=${f.downlink} up=${f.uplink}`);
+  }
+
+  out.push(``);
+  out.push(`events (${rep.events.length}):`);
+  for (const e of rep.events) out.push(`  ${String(e.index).padStart(4)} ${e.name}(${e.keys.join(",")}) x${e.count}`);
+
+  out.push(``);
+  out.push(`objects (${rep.objects.length}):`);
+  for (const o of rep.objects) out.push(`  ${o.kind} ${o.name} t=${o.ts} size=${o.size}`);
+
+  return out;
+}
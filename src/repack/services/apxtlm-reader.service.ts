@@ -0,0 +1,340 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { Readable } from "stream";
+import {
+  DSpec, ExtId, f16ToF32Approx, createApxTlmSink,
+  ApxTlmFileStats, HeaderFlag, APXTLM_HSIZE, APXTLM_TRAILER_MAGIC, APXTLM_TRAILER_SIZE, decodeFileStats,
+} from "./apxtlm-writer.service";
+import { SinkFactory } from "./tlm-sink";
+import { RepackSource } from "./source";
+import { FieldProfile, withFieldProfile } from "./field-profile";
+
+export const APXTLM_MAGIC = "APXTLM";
+export const APXTLM_HEADER_SIZE = 44;
+
+export type ApxTlmHeader = {
+  magic: string;
+  version: number;
+  headerSize: number;
+  timestamp: number;     // ms epoch
+  utcOffset: number;     // seconds
+  flags: number;         // HeaderFlag bits
+  stats?: ApxTlmFileStats; // backpatched stats block (HeaderFlag.stats)
+};
+
+export type ApxTlmRecord =
+  | { type: "ts"; ts: number }
+  | { type: "field"; index: number; name: string; info: string[] }
+  | { type: "evtid"; index: number; name: string; keys: string[] }
+  | { type: "value"; ts: number; index: number; name: string; dspec: DSpec; value: number; uplink: boolean }
+  | { type: "evt"; ts: number; index: number; name: string; values: Record<string, string> }
+  | { type: "jso"; ts: number; name: string; size: number; value: any }
+  | { type: "raw"; ts: number; name: string; zip: boolean; data: Buffer }
+  | { type: "stop" };
+
+export class ApxTlmFormatError extends Error {
+  constructor(message: string, public offset: number) {
+    super(`${message} @${offset}`);
+    this.name = "ApxTlmFormatError";
+  }
+}
+
+// ----- helpers -----
+const DSPEC_SIZE: Record<number, number> = {
+  [DSpec.u8]: 1, [DSpec.u16]: 2, [DSpec.u24]: 3, [DSpec.u32]: 4, [DSpec.u64]: 8,
+  [DSpec.f16]: 2, [DSpec.f32]: 4, [DSpec.f64]: 8, [DSpec.Null]: 0, [DSpec.a16]: 2, [DSpec.a32]: 4,
+};
+
+/** inverse of qCompress: [len_be(4)] + deflate(data) */
+export function qUncompress(q: Buffer): Buffer {
+  if (q.length < 4) return Buffer.alloc(0);
+  const len = q.readUInt32BE(0);
+  const out = zlib.inflateSync(q.subarray(4));
+  if (out.length !== len) throw new Error(`qUncompress: size mismatch ${out.length} != ${len}`);
+  return out;
+}
+
+function decodeValue(dspec: DSpec, b: Buffer): number {
+  switch (dspec) {
+    case DSpec.u8:   return b.readUInt8(0);
+    case DSpec.u16:  return b.readUInt16LE(0);
+    case DSpec.u24:  return b.readUIntLE(0, 3);
+    case DSpec.u32:  return b.readUInt32LE(0);
+    case DSpec.u64:  return Number(b.readBigUInt64LE(0));
+    case DSpec.f16:  return f16ToF32Approx(b.readUInt16LE(0));
+    case DSpec.f32:  return b.readFloatLE(0);
+    case DSpec.f64:  return b.readDoubleLE(0);
+    case DSpec.Null: return 0;
+    // angles packed as signed fractions of 180 deg
+    case DSpec.a16:  return (b.readInt16LE(0) * 180) / 0x8000;
+    case DSpec.a32:  return (b.readInt32LE(0) * 180) / 0x80000000;
+    default:         return NaN;
+  }
+}
+
+/** pull-based byte cursor over an async chunk iterator */
+class ByteSource {
+  private buf = Buffer.alloc(0);
+  private off = 0;
+  private done = false;
+  consumed = 0;
+
+  constructor(private it: AsyncIterator<Buffer>) {}
+
+  /** make sure at least n bytes are buffered; false on EOF */
+  async ensure(n: number): Promise<boolean> {
+    while (this.buf.length - this.off < n) {
+      if (this.done) return false;
+      const r = await this.it.next();
+      if (r.done) { this.done = true; continue; }
+      const chunk = Buffer.isBuffer(r.value) ? r.value : Buffer.from(r.value);
+      this.buf = Buffer.concat([this.buf.subarray(this.off), chunk]);
+      this.off = 0;
+    }
+    return true;
+  }
+
+  async take(n: number): Promise<Buffer> {
+    if (!(await this.ensure(n))) throw new ApxTlmFormatError(`unexpected EOF (need ${n} bytes)`, this.consumed);
+    const b = this.buf.subarray(this.off, this.off + n);
+    this.off += n;
+    this.consumed += n;
+    return b;
+  }
+
+  async u8(): Promise<number> { return (await this.take(1))[0]; }
+  async u16(): Promise<number> { return (await this.take(2)).readUInt16LE(0); }
+  async u32(): Promise<number> { return (await this.take(4)).readUInt32LE(0); }
+
+  async cstr(): Promise<string> {
+    for (let scanned = 0; ; ) {
+      const z = this.buf.indexOf(0x00, this.off + scanned);
+      if (z >= 0) {
+        const s = this.buf.toString("utf8", this.off, z);
+        this.consumed += z + 1 - this.off;
+        this.off = z + 1;
+        return s;
+      }
+      scanned = this.buf.length - this.off;
+      if (!(await this.ensure(scanned + 1))) throw new ApxTlmFormatError("unterminated string", this.consumed);
+    }
+  }
+
+  async eof(): Promise<boolean> { return !(await this.ensure(1)); }
+}
+
+// ----- reader -----
+export class ApxTlmReader implements AsyncIterable<ApxTlmRecord> {
+  private rs: Readable;
+  private src: ByteSource;
+  private header?: ApxTlmHeader;
+  private trailer?: ApxTlmFileStats;
+
+  private fields: string[] = [];
+  private events: Array<{ name: string; keys: string[] }> = [];
+  private lastWidx = -1;
+  private ts = 0;
+
+  constructor(inFilePath?: string, inStream?: Readable) {
+    if (inStream) {
+      this.rs = inStream;
+    } else if (inFilePath) {
+      this.rs = fs.createReadStream(inFilePath, { highWaterMark: 100 * 1024 });
+    } else {
+      throw new Error("ApxTlmReader: provide inFilePath or inStream");
+    }
+    this.src = new ByteSource(this.rs[Symbol.asyncIterator]());
+  }
+
+  /** Parse the 44-byte base header and the stats block when present (idempotent). */
+  async readHeader(): Promise<ApxTlmHeader> {
+    if (this.header) return this.header;
+    const b = await this.src.take(APXTLM_HEADER_SIZE);
+    const magic = b.toString("ascii", 0, 16).replace(/\0+$/, "");
+    if (magic !== APXTLM_MAGIC) throw new ApxTlmFormatError(`bad magic "${magic}"`, 0);
+    const headerSize = b.readUInt16LE(18);
+    const ext = headerSize > APXTLM_HEADER_SIZE ? await this.src.take(headerSize - APXTLM_HEADER_SIZE) : undefined;
+    const flags = b.readUInt32LE(20);
+    this.header = {
+      magic,
+      version: b.readUInt16LE(16),
+      headerSize,
+      timestamp: Number(b.readBigUInt64LE(32)),
+      utcOffset: b.readInt32LE(40),
+      flags,
+      ...(flags & HeaderFlag.stats && ext && headerSize >= APXTLM_HSIZE ? { stats: decodeFileStats(ext) } : {}),
+    };
+    return this.header;
+  }
+
+  /**
+   * Stats written by the producer: the backpatched header block, or the trailer
+   * of a streamed file (available once records() reached the stop marker).
+   */
+  getFileStats(): ApxTlmFileStats | undefined { return this.header?.stats ?? this.trailer; }
+
+  private async readTrailer() {
+    if (!(await this.src.ensure(APXTLM_TRAILER_SIZE))) return;   // cut short: no stats
+    const b = await this.src.take(APXTLM_TRAILER_SIZE);
+    if (b.toString("ascii", APXTLM_TRAILER_SIZE - 4) !== APXTLM_TRAILER_MAGIC) return;
+    this.header!.flags |= b.readUInt32LE(0);
+    this.trailer = decodeFileStats(b, 4);
+  }
+
+  getFields(): readonly string[] { return this.fields; }
+  getEvents(): ReadonlyArray<{ name: string; keys: string[] }> { return this.events; }
+
+  /** byte offset of the next unread record */
+  getOffset() { return this.src.consumed; }
+
+  [Symbol.asyncIterator](): AsyncIterator<ApxTlmRecord> { return this.records(); }
+
+  /** Walk the record stream until ExtId.stop (or EOF for unterminated files). */
+  async *records(): AsyncGenerator<ApxTlmRecord> {
+    await this.readHeader();
+    let uplink = false;
+
+    while (!(await this.src.eof())) {
+      const at = this.src.consumed;
+      const b0 = await this.src.u8();
+      const dspec = (b0 & 0x0F) as DSpec;
+
+      if (dspec !== DSpec.ext) {
+        let index: number;
+        if (b0 & 0x10) {
+          if (this.lastWidx < 0) throw new ApxTlmFormatError("opt8 index without a previous field", at);
+          index = this.lastWidx + 1 + ((b0 >> 5) & 0x07);
+        } else {
+          index = (((await this.src.u8()) & 0xFF) << 3) | ((b0 >> 5) & 0x07);
+        }
+        const size = DSPEC_SIZE[dspec];
+        if (size === undefined) throw new ApxTlmFormatError(`unknown dspec ${dspec}`, at);
+        const value = decodeValue(dspec, await this.src.take(size));
+        this.lastWidx = index;
+        yield { type: "value", ts: this.ts, index, name: this.fields[index] ?? `#${index}`, dspec, value, uplink };
+        uplink = false;
+        continue;
+      }
+
+      const id = (b0 >> 4) as ExtId;
+      switch (id) {
+        case ExtId.stop:
+          if (this.header!.flags & HeaderFlag.trailer) await this.readTrailer();
+          yield { type: "stop" };
+          return;
+
+        case ExtId.ts:
+          this.ts = await this.src.u32();
+          this.lastWidx = -1;
+          yield { type: "ts", ts: this.ts };
+          break;
+
+        case ExtId.dir:
+          uplink = true;
+          break;
+
+        case ExtId.field: {
+          const name = await this.src.cstr();
+          const n = await this.src.u8();
+          const info: string[] = [];
+          for (let i = 0; i < n; i++) info.push(await this.src.cstr());
+          this.fields.push(name);
+          yield { type: "field", index: this.fields.length - 1, name, info };
+          break;
+        }
+
+        case ExtId.evtid: {
+          const name = await this.src.cstr();
+          const n = await this.src.u8();
+          const keys: string[] = [];
+          for (let i = 0; i < n; i++) keys.push(await this.src.cstr());
+          this.events.push({ name, keys });
+          yield { type: "evtid", index: this.events.length - 1, name, keys };
+          break;
+        }
+
+        case ExtId.evt: {
+          const index = await this.src.u8();
+          const ev = this.events[index];
+          if (!ev) throw new ApxTlmFormatError(`event index ${index} not declared`, at);
+          const values: Record<string, string> = {};
+          for (const k of ev.keys) values[k] = await this.readLit();
+          yield { type: "evt", ts: this.ts, index, name: ev.name, values };
+          break;
+        }
+
+        case ExtId.jso: {
+          const name = await this.readLit();
+          const q = await this.src.take(await this.src.u32());
+          const payload = qUncompress(q);
+          yield { type: "jso", ts: this.ts, name, size: payload.length, value: JSON.parse(payload.toString("utf8")) };
+          break;
+        }
+
+        case ExtId.zip: {
+          const name = await this.readLit();
+          const q = await this.src.take(await this.src.u32());
+          yield { type: "raw", ts: this.ts, name, zip: true, data: qUncompress(q) };
+          break;
+        }
+
+        case ExtId.raw: {
+          const name = await this.readLit();
+          const data = Buffer.from(await this.src.take(await this.src.u16()));
+          yield { type: "raw", ts: this.ts, name, zip: false, data };
+          break;
+        }
+
+        default:
+          throw new ApxTlmFormatError(`unknown ext id ${id}`, at);
+      }
+    }
+  }
+
+  close() { this.rs.destroy(); }
+
+  /** string literal as written by ApxTlmWriter.cachedLit: 0xFF + cstr */
+  private async readLit(): Promise<string> {
+    const at = this.src.consumed;
+    const tag = await this.src.u8();
+    if (tag !== 0xFF) throw new ApxTlmFormatError(`cached string reference 0x${tag.toString(16)} not supported`, at);
+    return this.src.cstr();
+  }
+}
+
+/**
+ * Feed an existing .apxtlm back through a TlmSink, so exporters written for
+ * the XML pipelines work on repack outputs too. Raw/zip blobs are skipped;
+ * `profile` reshapes the fields on the way.
+ */
+export async function replayApxTlm_stream(
+  input: RepackSource,
+  outFile: string,
+  opts: { sink?: SinkFactory; profile?: FieldProfile } = {}
+): Promise<void> {
+  const { profile } = opts;
+  const sink = profile ? withFieldProfile(opts.sink ?? createApxTlmSink, profile) : opts.sink ?? createApxTlmSink;
+  const reader = typeof input === "string" ? new ApxTlmReader(input) : new ApxTlmReader(undefined, input);
+  try {
+    const h = await reader.readHeader();
+    const wr = sink(outFile, h.timestamp, h.utcOffset);
+    wr.writeHeaderPlaceholder();
+
+    for await (const rec of reader) {
+      switch (rec.type) {
+        case "ts":     wr.emitTs(rec.ts); break;
+        case "field":  wr.emitField(rec.name, rec.info); break;
+        case "evtid":  wr.emitEvtId(rec.name, rec.keys); break;
+        case "value":  wr.emitNumber(rec.index, rec.value, rec.uplink); break;
+        case "evt":    wr.emitEvt(rec.index, Object.values(rec.values)); break;
+        case "jso":
+          if (rec.name === "info") wr.emitInfo(rec.value);
+          else wr.emitJso(rec.name, rec.value);
+          break;
+      }
+    }
+    await wr.finalizeToFile();
+  } finally {
+    reader.close();
+  }
+}
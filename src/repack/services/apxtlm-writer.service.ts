@@ -1,10 +1,85 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as zlib from "zlib";
+import { Writable } from "stream";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+import { EncodingPolicy, ValueEncoder } from "./value-encoding";
+import { OutputError } from "../errors";
+
+export { f16ToF32Approx } from "./value-encoding";
 
 export enum DSpec { ext=0,u8=1,u16=2,u24=3,u32=4,u64=5,f16=6,f32=7,f64=8,Null=9,a16=10,a32=11 }
 export enum ExtId { stop=0, ts=1, dir=2, field=3, evtid=4, evt=8, jso=9, raw=10, zip=11 }
 
+/**
+ * Header: 44 base bytes (magic, version, hsize, reserved, timestamp, utc offset)
+ * followed by a 20-byte stats block, hsize = 64. Readers skip to hsize.
+ *  - @20 u32 flags (HeaderFlag)
+ *  - @44 u32 duration ms, u32 records, u16 fields, u16 events, u32 payload bytes, u32 payload crc32
+ * Payload = everything after the header up to and including the stop marker.
+ * Stats are backpatched when the output is a file; streams get a trailer after
+ * the stop marker instead: u32 flags + stats block + "TLMS".
+ */
+export const APXTLM_HSIZE = 64;
+export const APXTLM_STATS_OFFSET = 44;
+export const APXTLM_TRAILER_MAGIC = "TLMS";
+export const APXTLM_TRAILER_SIZE = 4 + 20 + 4;
+
+export enum HeaderFlag {
+  stats = 0x01,     // header stats block is valid (backpatched)
+  trailer = 0x02,   // non-seekable output: stats follow the stop marker
+  uplink = 0x04,    // file has uplink values
+  events = 0x08,    // file has events
+}
+
+export type ApxTlmFileStats = {
+  durationMs: number;   // last timestamp
+  records: number;
+  fields: number;
+  events: number;
+  payloadSize: number;
+  crc32: number;
+};
+
+export function encodeFileStats(st: ApxTlmFileStats): Buffer {
+  const b = Buffer.alloc(20);
+  b.writeUInt32LE(st.durationMs >>> 0, 0);
+  b.writeUInt32LE(st.records >>> 0, 4);
+  b.writeUInt16LE(Math.min(st.fields, 0xFFFF), 8);
+  b.writeUInt16LE(Math.min(st.events, 0xFFFF), 10);
+  b.writeUInt32LE(st.payloadSize >>> 0, 12);
+  b.writeUInt32LE(st.crc32 >>> 0, 16);
+  return b;
+}
+
+export function decodeFileStats(b: Buffer, off = 0): ApxTlmFileStats {
+  return {
+    durationMs: b.readUInt32LE(off),
+    records: b.readUInt32LE(off + 4),
+    fields: b.readUInt16LE(off + 8),
+    events: b.readUInt16LE(off + 10),
+    payloadSize: b.readUInt32LE(off + 12),
+    crc32: b.readUInt32LE(off + 16),
+  };
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+/** incremental CRC-32 (zlib polynomial): crc32(b, crc32(a)) === crc32(a+b) */
+export function crc32(buf: Buffer, prev = 0): number {
+  let c = (prev ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
 // ----- helpers -----
 function cstr(s: string): Buffer {
   return Buffer.concat([Buffer.from(s, "utf8"), Buffer.from([0x00])]);
@@ -19,104 +94,76 @@ function qCompress(payload: Buffer): Buffer {
   return out;
 }
 
-// half-float encode/decode helpers
-function f32ToF16Bits(val: number): number {
-  const f32 = new Float32Array(1);
-  const u32 = new Uint32Array(f32.buffer);
-  f32[0] = val;
-  const x = u32[0];
-
-  const sign = (x >>> 31) & 0x1;
-  const exp  = (x >>> 23) & 0xff;
-  const mant = x & 0x7fffff;
-
-  if (exp === 0xff) { // Inf/NaN
-    const isNaN = mant !== 0;
-    return (sign << 15) | (0x1f << 10) | (isNaN ? 0x200 : 0);
-  }
-
-  let exp16 = exp - 127 + 15;
-
-  if (exp <= 112) { // subnormal or zero
-    if (exp < 103) return (sign << 15);
-    const shift = 113 - exp;
-    let mant16 = (0x800000 | mant) >>> shift;
-    if ((mant16 & 0x1) && ((mant & ((1 << (shift - 1)) - 1)) !== 0)) mant16++;
-    return (sign << 15) | mant16;
-  } else if (exp16 >= 0x1f) {
-    return (sign << 15) | (0x1f << 10);
-  } else {
-    let mant16 = mant >>> 13;
-    const roundBit = (mant >>> 12) & 1;
-    if (roundBit && ((mant16 & 1) || (mant & 0xFFF))) mant16++;
-    if (mant16 === 0x400) {
-      mant16 = 0;
-      exp16++;
-      if (exp16 >= 0x1f) return (sign << 15) | (0x1f << 10);
-    }
-    return (sign << 15) | ((exp16 & 0x1f) << 10) | (mant16 & 0x3ff);
-  }
-}
-
-function f16ToF32Approx(bits: number): number {
-  const s = (bits & 0x8000) ? -1 : 1;
-  const e = (bits >>> 10) & 0x1f;
-  const f = bits & 0x3ff;
-  if (e === 0) return s * Math.pow(2, -14) * (f / 1024);
-  if (e === 31) return f ? NaN : s * Infinity;
-  return s * Math.pow(2, e - 15) * (1 + f / 1024);
-}
-
-/** choose f16 when exactly reversible (within strict equality), else f32 */
-function chooseFloatSpec(val: number): { dspec: DSpec; writer: (buf: Buffer, off: number)=>void; size: number } {
-  if (Number.isFinite(val)) {
-    const h = f32ToF16Bits(val);
-    const back = f16ToF32Approx(h);
-    if (Object.is(back, val)) {
-      return { dspec: DSpec.f16, writer: (b, off) => b.writeUInt16LE(h, off), size: 2 };
-    }
-  }
-  return { dspec: DSpec.f32, writer: (b, off) => b.writeFloatLE(val, off), size: 4 };
-}
-
 // ----- writer -----
-export class ApxTlmWriter {
+export class ApxTlmWriter implements TlmSink {
   private declaredFields = 0;
   private headerWritten = false;
-  private ws: fs.WriteStream;
+  private ws: Writable;
+  private outFilePath?: string;
+  private bytesWritten = 0;
+  private needDrain = false;
+  private failure?: OutputError;    // first error of the output stream
+
+  // payload stats for the header
+  private records = 0;
+  private events = 0;
+  private maxTs = 0;
+  private flags = 0;
+  private payloadSize = 0;
+  private payloadCrc = 0;
 
   private lastWidx: number = -1;
   private lastDown = new Map<number, number>();
   private lastUp = new Map<number, number>();
+  private encoder: ValueEncoder;
 
   constructor(
     private version: number = 1,                 // version 1 for repack
     private utcOffsetSeconds: number = 0,         // seconds
     private startTimestampMs64: number = 0,       // ms epoch
     outFilePath?: string,
-    outStream?: fs.WriteStream
+    outStream?: Writable,         // any writable; ended by finalizeToFile
+    encoding?: EncodingPolicy     // per-field value types and precision
   ) {
+    this.encoder = new ValueEncoder(encoding);
     if (outStream) {
       this.ws = outStream;
     } else if (outFilePath) {
       const dir = path.dirname(outFilePath);
       fs.mkdirSync(dir, { recursive: true });
       this.ws = fs.createWriteStream(outFilePath, { highWaterMark: 100 * 1024 });
+      this.outFilePath = outFilePath;
     } else {
       throw new Error("ApxTlmWriter: provide outFilePath or outStream");
     }
+    // the stream may fail long before finalizeToFile (EISDIR, EACCES, ENOSPC)
+    this.ws.on("error", (e) => { this.failure ??= new OutputError(e.message, e); });
+    this.ws.on("drain", () => { this.needDrain = false; });
   }
 
-  private write(buf: Buffer) { this.ws.write(buf); }
-  private pushExt(id: ExtId) { this.write(Buffer.from([(id << 4) | 0x00])); }
+  private write(buf: Buffer) {
+    if (!this.ws.write(buf)) this.needDrain = true;
+    this.bytesWritten += buf.length;
+    if (this.headerWritten) {
+      this.payloadSize += buf.length;
+      this.payloadCrc = crc32(buf, this.payloadCrc);
+    }
+  }
+  private pushExt(id: ExtId) {
+    if (id !== ExtId.dir) this.records++;   // dir only flags the next value
+    this.write(Buffer.from([(id << 4) | 0x00]));
+  }
 
-  /** Fixed-size header placeholder. */
+  /** Header with an empty stats block; filled in by finalizeToFile(). */
   writeHeaderPlaceholder() {
     if (this.headerWritten) return;
-    const b = Buffer.alloc(44, 0);
+    const b = Buffer.alloc(APXTLM_HSIZE, 0);
     b.write("APXTLM", 0, "ascii");
     b.writeUInt16LE(this.version & 0xFFFF, 16);
-    b.writeUInt16LE(44, 18);
+    b.writeUInt16LE(APXTLM_HSIZE, 18);
+    // streams cannot be patched: announce the trailer up front
+    if (!this.outFilePath) this.flags |= HeaderFlag.trailer;
+    b.writeUInt32LE(this.flags, 20);
     b.writeBigUInt64LE(BigInt(this.startTimestampMs64), 32);
     b.writeInt32LE(this.utcOffsetSeconds | 0, 40);
     this.write(b);
@@ -144,10 +191,12 @@ export class ApxTlmWriter {
     const parts: Buffer[] = [ cstr(name), Buffer.from([info.length & 0xFF]) ];
     for (const s of info) parts.push(cstr(s));
     this.write(Buffer.concat(parts));
+    this.encoder.declare(name, info);
     this.declaredFields++;
   }
 
   emitEvtId(name: string, keys: string[]) {
+    this.events++;
     this.pushExt(ExtId.evtid);
     const parts: Buffer[] = [ cstr(name), Buffer.from([keys.length & 0xFF]) ];
     for (const k of keys) parts.push(cstr(k));
@@ -161,6 +210,7 @@ export class ApxTlmWriter {
     b.writeUInt32LE(ms >>> 0, 0);
     this.write(b);
     this.lastWidx = -1;
+    if ((ms >>> 0) > this.maxTs) this.maxTs = ms >>> 0;
   }
 
   // ----- values (optimized) -----
@@ -182,21 +232,25 @@ export class ApxTlmWriter {
     this.lastWidx = fieldIndex;
   }
 
-  /** write numeric value with change filtering and best packing */
+  /** write numeric value with change filtering and the field's encoding policy */
   emitNumber(fieldIndex: number, v: number, uplink = false) {
     if (!(fieldIndex >= 0 && fieldIndex < this.declaredFields)) return;
 
+    v = this.encoder.quantize(fieldIndex, v);
     const cache = uplink ? this.lastUp : this.lastDown;
-    const prev = cache.get(fieldIndex);
-    if (prev !== undefined && Object.is(prev, v)) return;
+    if (!this.encoder.changed(fieldIndex, cache.get(fieldIndex), v)) return;
     cache.set(fieldIndex, v);
 
-    if (uplink) this.pushExt(ExtId.dir);
+    if (uplink) {
+      this.pushExt(ExtId.dir);
+      this.flags |= HeaderFlag.uplink;
+    }
+    this.records++;
 
-    const { dspec, writer, size } = chooseFloatSpec(v);
+    const { dspec, write, size } = this.encoder.encode(fieldIndex, v);
     this.writeIndexAndSpec(dspec, fieldIndex);
     const b = Buffer.allocUnsafe(size);
-    writer(b, 0);
+    write(b, 0);
     this.write(b);
   }
 
@@ -210,6 +264,7 @@ export class ApxTlmWriter {
   }
 
   emitEvt(evIndex: number, values: string[]) {
+    this.flags |= HeaderFlag.events;
     this.pushExt(ExtId.evt);
     const parts: Buffer[] = [ Buffer.from([evIndex & 0xFF]) ];
     for (const v of values) parts.push(this.cachedLit(v ?? ""));
@@ -262,14 +317,70 @@ export class ApxTlmWriter {
     }
   }
 
-  finalizeToFile(): Promise<void> {
-    this.write(Buffer.from([0x00])); // ExtId.stop
+  getFileStats(): ApxTlmFileStats {
+    return {
+      durationMs: this.maxTs,
+      records: this.records,
+      fields: this.declaredFields,
+      events: this.events,
+      payloadSize: this.payloadSize,
+      crc32: this.payloadCrc,
+    };
+  }
+
+  drained(): Promise<void> | undefined {
+    if (this.failure) return Promise.reject(this.failure);
+    if (!this.needDrain) return undefined;
     return new Promise<void>((resolve, reject) => {
-      this.ws.once("error", reject);
+      const done = () => {
+        this.ws.off("drain", done);
+        this.ws.off("error", done);
+        if (this.failure) reject(this.failure);
+        else resolve();
+      };
+      this.ws.on("drain", done);
+      this.ws.on("error", done);
+    });
+  }
+
+  async finalizeToFile(): Promise<void> {
+    if (this.failure) throw this.failure;
+    this.pushExt(ExtId.stop);
+    const stats = encodeFileStats(this.getFileStats());
+
+    if (!this.outFilePath) {
+      const flags = Buffer.alloc(4);
+      flags.writeUInt32LE(this.flags, 0);
+      this.ws.write(Buffer.concat([flags, stats, Buffer.from(APXTLM_TRAILER_MAGIC, "ascii")]));
+      this.bytesWritten += APXTLM_TRAILER_SIZE;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.ws.once("error", () => reject(this.failure));
       this.ws.once("finish", resolve);
       this.ws.end();
     });
+    if (!this.outFilePath || !this.headerWritten) return;
+
+    // backpatch flags and the stats block
+    const fh = await fs.promises.open(this.outFilePath, "r+");
+    try {
+      const flags = Buffer.alloc(4);
+      flags.writeUInt32LE(this.flags | HeaderFlag.stats, 0);
+      await fh.write(flags, 0, 4, 20);
+      await fh.write(stats, 0, stats.length, APXTLM_STATS_OFFSET);
+    } finally {
+      await fh.close();
+    }
   }
 
   getDeclaredFieldCount() { return this.declaredFields; }
+  getBytesWritten() { return this.bytesWritten; }
+}
+
+/** SinkFactory for .apxtlm files with a value encoding policy */
+export function apxTlmSink(encoding?: EncodingPolicy): SinkFactory {
+  return (outFile, baseTs, utcOffsetSec) => new ApxTlmWriter(1, utcOffsetSec, baseTs, outFile, undefined, encoding);
 }
+
+/** default SinkFactory: repack into an .apxtlm file */
+export const createApxTlmSink: SinkFactory = apxTlmSink();
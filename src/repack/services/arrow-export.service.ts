@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Table, Vector, DataType, tableToIPC, vectorFromArray,
+  Float32, Float64, Int8, Int16, Int32, Int64, Uint8, Uint16, Uint32, Utf8, Dictionary, TimestampMillisecond,
+} from "apache-arrow";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+
+export type ArrowExportOptions = {
+  uplink?: boolean;   // write <name>.uplink.arrow (default true)
+  events?: boolean;   // write <name>.events.arrow (default true)
+};
+
+/** <dir>/<name>.arrow → <dir>/<name>.<suffix>.arrow */
+function siblingPath(outFile: string, suffix: string): string {
+  const p = path.parse(outFile);
+  return path.join(p.dir, `${p.name}.${suffix}${p.ext || ".arrow"}`);
+}
+
+/** integer column types by declared field type, with their range */
+const INT_COLUMNS: Array<[RegExp, () => DataType, number, number]> = [
+  [/^(bit|bool|option|enum|byte|u8|uint8)$/i, () => new Uint8(), 0, 0xFF],
+  [/^(u16|uint16)$/i, () => new Uint16(), 0, 0xFFFF],
+  [/^(u24|u32|uint|uint32)$/i, () => new Uint32(), 0, 0xFFFFFFFF],
+  [/^(i8|int8)$/i, () => new Int8(), -0x80, 0x7F],
+  [/^(i16|int16)$/i, () => new Int16(), -0x8000, 0x7FFF],
+  [/^(i32|int|int32)$/i, () => new Int32(), -0x80000000, 0x7FFFFFFF],
+];
+
+/**
+ * Column of one field from its info ([title, units, type, descr, opts]):
+ * options with labels as dictionary strings, integer types at their width
+ * (Float64 when a value does not fit), float as Float32, the rest Float64.
+ */
+function fieldVector(values: Array<number | null>, info: string[]): Vector {
+  const type = info[2] ?? "";
+  const labels = info[4] ? info[4].split(",") : [];
+  if (/^(option|enum)$/i.test(type) && labels.length) {
+    const text = values.map(v => v === null ? null : labels[v] ?? String(v));
+    return vectorFromArray(text, new Dictionary(new Utf8(), new Int32()));
+  }
+  const int = INT_COLUMNS.find(([re]) => re.test(type));
+  if (int) {
+    const [, make, lo, hi] = int;
+    if (values.every(v => v === null || Number.isInteger(v) && v >= lo && v <= hi)) return vectorFromArray(values, make());
+  }
+  if (/^(float|f32|real)$/i.test(type)) return vectorFromArray(values, new Float32());
+  return vectorFromArray(values, new Float64());
+}
+
+/**
+ * Columnar export as Arrow IPC files:
+ *  - downlink: time, t (Int64 ms), one column per declared field typed after
+ *              its metadata, see fieldVector (null = no sample)
+ *  - uplink:   time, t, field, value
+ *  - events:   time, t, name, values (JSON object of event keys)
+ */
+export class ArrowSink implements TlmSink {
+  private names: string[] = [];
+  private infos: string[][] = [];
+  private columns: Array<Array<number | null>> = [];
+  private rowT: number[] = [];
+  private row = new Map<number, number>();
+  private curTs = 0;
+
+  private evtKeys: string[][] = [];
+  private evtNames: string[] = [];
+  private up = { t: [] as number[], field: [] as string[], value: [] as number[] };
+  private ev = { t: [] as number[], name: [] as string[], values: [] as string[] };
+
+  constructor(private outFile: string, private baseTs: number, private opts: ArrowExportOptions = {}) {}
+
+  writeHeaderPlaceholder() {}
+  emitInfo(_info: any) {}
+  emitJso(_name: string, _obj: any, _ts?: number) {}
+
+  emitField(name: string, info: string[] = []) {
+    this.names.push(name);
+    this.infos.push(info);
+    this.columns.push(new Array(this.rowT.length).fill(null));
+  }
+
+  emitEvtId(name: string, keys: string[]) {
+    this.evtNames.push(name);
+    this.evtKeys.push(keys);
+  }
+
+  emitTs(ms: number) {
+    this.commitRow();
+    this.curTs = ms;
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    if (!(fieldIndex >= 0 && fieldIndex < this.names.length)) return;
+    if (uplink) {
+      this.up.t.push(this.curTs);
+      this.up.field.push(this.names[fieldIndex]);
+      this.up.value.push(v);
+      return;
+    }
+    this.row.set(fieldIndex, v);
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    const keys = this.evtKeys[evIndex];
+    if (!keys) return;
+    const obj: Record<string, string> = {};
+    keys.forEach((k, i) => { obj[k] = values[i] ?? ""; });
+    this.ev.t.push(this.curTs);
+    this.ev.name.push(this.evtNames[evIndex]);
+    this.ev.values.push(JSON.stringify(obj));
+  }
+
+  private commitRow() {
+    if (!this.row.size) return;
+    this.rowT.push(this.curTs);
+    for (let i = 0; i < this.columns.length; i++) this.columns[i].push(this.row.get(i) ?? null);
+    this.row.clear();
+  }
+
+  private timeColumns(t: number[]): Record<string, Vector> {
+    return {
+      time: vectorFromArray(t.map(x => this.baseTs + x), new TimestampMillisecond()),
+      t: vectorFromArray(t.map(x => BigInt(Math.round(x))), new Int64()),
+    };
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.commitRow();
+    await fs.promises.mkdir(path.dirname(this.outFile), { recursive: true });
+
+    const down: Record<string, Vector> = this.timeColumns(this.rowT);
+    this.names.forEach((n, i) => {
+      const col = n in down ? `field_${n}` : n;
+      down[col] = fieldVector(this.columns[i], this.infos[i]);
+    });
+    await fs.promises.writeFile(this.outFile, tableToIPC(new Table(down), "file"));
+
+    if (this.opts.uplink !== false) {
+      const t = new Table({
+        ...this.timeColumns(this.up.t),
+        field: vectorFromArray(this.up.field, new Utf8()),
+        value: vectorFromArray(this.up.value, new Float64()),
+      });
+      await fs.promises.writeFile(siblingPath(this.outFile, "uplink"), tableToIPC(t, "file"));
+    }
+
+    if (this.opts.events !== false) {
+      const t = new Table({
+        ...this.timeColumns(this.ev.t),
+        name: vectorFromArray(this.ev.name, new Utf8()),
+        values: vectorFromArray(this.ev.values, new Utf8()),
+      });
+      await fs.promises.writeFile(siblingPath(this.outFile, "events"), tableToIPC(t, "file"));
+    }
+  }
+}
+
+export function createArrowSink(opts: ArrowExportOptions = {}): SinkFactory {
+  return (outFile, baseTs) => new ArrowSink(outFile, baseTs, opts);
+}
@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { Readable, Transform, pipeline } from "stream";
+import { Decompress as ZstdDecompress } from "fzstd";
+
+/** Container/compression of an input, detected by magic bytes. */
+export type Compression = "gzip" | "zstd" | "zip";
+
+const MAGIC_LEN = 4;
+const COMPRESSED_EXT = /\.(gz|gzip|zst|zstd)$/i;
+const XML_ENTRY = /\.(telemetry|datalink|datalink\.xml)$/i;
+
+// zip record signatures
+const ZIP_LOCAL = 0x04034b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_EOCD = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EOCD = 0x06064b50;
+const ZIP_EOCD_MAX = 22 + 0xFFFF;   // record + longest comment
+
+export function compressionOf(head: Buffer): Compression | undefined {
+  if (head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b) return "gzip";
+  if (head.length < MAGIC_LEN) return undefined;
+  const m = head.readUInt32LE(0);
+  if (m === 0xFD2FB528) return "zstd";
+  if (m === ZIP_LOCAL || m === ZIP_EOCD) return "zip";
+  return undefined;
+}
+
+export function fileCompression(file: string): Compression | undefined {
+  const fd = fs.openSync(file, "r");
+  try {
+    const buf = Buffer.alloc(MAGIC_LEN);
+    return compressionOf(buf.subarray(0, fs.readSync(fd, buf, 0, buf.length, 0)));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** `flight.telemetry.gz` → `flight.telemetry`, for extension hints and output names */
+export function stripCompressionExt(name: string): string {
+  return name.replace(COMPRESSED_EXT, "");
+}
+
+/** zstd in plain JS: zlib has it only from Node.js 22.15 on */
+function createZstdDecompress(): Transform {
+  let z: ZstdDecompress;
+  return new Transform({
+    construct(done) {
+      z = new ZstdDecompress((data) => { if (data.length) this.push(Buffer.from(data)); });
+      done();
+    },
+    transform(chunk: Buffer, _enc, done) {
+      try { z.push(chunk); done(); } catch (e: any) { done(new Error(`zstd: ${e.message}`)); }
+    },
+    flush(done) {
+      try { z.push(new Uint8Array(0), true); done(); } catch (e: any) { done(new Error(`zstd: ${e.message}`)); }
+    },
+  });
+}
+
+/** Whatever the start of a zstd stream decodes to (a cut-off frame is not an error). */
+function zstdHead(b: Buffer): Buffer {
+  const out: Buffer[] = [];
+  try { new ZstdDecompress((data) => { out.push(Buffer.from(data)); }).push(b); } catch { /* keep what decoded */ }
+  return Buffer.concat(out);
+}
+
+/** Streaming decompressor for gzip/zstd. */
+export function decompressor(c: "gzip" | "zstd"): Transform {
+  return c === "gzip" ? zlib.createGunzip() : createZstdDecompress();
+}
+
+/** Raw file bytes decompressed by `c`; errors of either stream end up on the result. */
+export function decompressFile(file: string, c: "gzip" | "zstd"): Readable {
+  return pipeline(fs.createReadStream(file, { highWaterMark: 100 * 1024 }), decompressor(c), () => { /* reported on the result */ });
+}
+
+/**
+ * Pass a byte stream through, decompressed when it starts with gzip/zstd
+ * magic. Zip archives need random access and are rejected here.
+ */
+export function decompressStream(src: Readable): Readable {
+  if (src.readableEncoding) return src;     // already text
+  const it = src[Symbol.asyncIterator]() as AsyncIterator<Buffer | string>;
+  return Readable.from((async function* () {
+    const head: Array<Buffer | string> = [];
+    let len = 0;
+    let ended = false;
+    async function* all() {
+      yield* head;
+      while (!ended) {
+        const r = await it.next();
+        if (r.done) return;
+        yield r.value;
+      }
+    }
+    try {
+      while (len < MAGIC_LEN) {
+        const r = await it.next();
+        if (r.done) { ended = true; break; }
+        head.push(r.value);
+        len += r.value.length;
+      }
+      const c = compressionOf(Buffer.concat(head.map((b) => Buffer.isBuffer(b) ? b : Buffer.from(b))));
+      if (c === "zip") throw new Error("zip archives need a file input");
+      if (!c) yield* all();
+      else yield* pipeline(Readable.from(all()), decompressor(c), () => { /* reported on the result */ });
+    } finally {
+      await it.return?.();
+    }
+  })());
+}
+
+/** A stored or deflated member of a zip archive. */
+export type ZipEntry = {
+  name: string;             // path inside the archive
+  method: number;           // 0 stored, 8 deflate
+  size: number;             // uncompressed
+  compressedSize: number;
+  offset: number;           // of the local header
+  mtimeMs: number;          // DOS time, local
+  encrypted: boolean;
+};
+
+function dosTimeMs(date: number, time: number): number {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 15) - 1, date & 31, time >> 11, (time >> 5) & 63, (time & 31) * 2).getTime();
+}
+
+function readAt(fd: number, pos: number, len: number): Buffer {
+  const b = Buffer.alloc(len);
+  return b.subarray(0, fs.readSync(fd, b, 0, len, pos));
+}
+
+/** Entries of a zip archive, from its central directory (zip64 included). */
+export function listZipEntries(file: string): ZipEntry[] {
+  const fd = fs.openSync(file, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const tailPos = Math.max(0, size - ZIP_EOCD_MAX);
+    const tail = readAt(fd, tailPos, size - tailPos);
+    let e = tail.length - 22;
+    while (e >= 0 && tail.readUInt32LE(e) !== ZIP_EOCD) e--;
+    if (e < 0) throw new Error(`${path.basename(file)}: not a complete zip archive (no end of central directory)`);
+
+    let count = tail.readUInt16LE(e + 10);
+    let cdSize = tail.readUInt32LE(e + 12);
+    let cdPos = tail.readUInt32LE(e + 16);
+    if (e >= 20 && tail.readUInt32LE(e - 20) === ZIP64_LOCATOR) {
+      const z = readAt(fd, Number(tail.readBigUInt64LE(e - 12)), 56);
+      if (z.length < 56 || z.readUInt32LE(0) !== ZIP64_EOCD) throw new Error(`${path.basename(file)}: broken zip64 directory`);
+      count = Number(z.readBigUInt64LE(32));
+      cdSize = Number(z.readBigUInt64LE(40));
+      cdPos = Number(z.readBigUInt64LE(48));
+    }
+
+    const cd = readAt(fd, cdPos, cdSize);
+    const out: ZipEntry[] = [];
+    for (let p = 0, i = 0; i < count; i++) {
+      if (p + 46 > cd.length || cd.readUInt32LE(p) !== ZIP_CENTRAL) throw new Error(`${path.basename(file)}: broken zip central directory`);
+      const flags = cd.readUInt16LE(p + 8);
+      const nameLen = cd.readUInt16LE(p + 28);
+      const extraLen = cd.readUInt16LE(p + 30);
+      const commentLen = cd.readUInt16LE(p + 32);
+      const name = cd.toString(flags & 0x800 ? "utf8" : "latin1", p + 46, p + 46 + nameLen);
+      const entry: ZipEntry = {
+        name,
+        method: cd.readUInt16LE(p + 10),
+        size: cd.readUInt32LE(p + 24),
+        compressedSize: cd.readUInt32LE(p + 20),
+        offset: cd.readUInt32LE(p + 42),
+        mtimeMs: dosTimeMs(cd.readUInt16LE(p + 14), cd.readUInt16LE(p + 12)),
+        encrypted: !!(flags & 1),
+      };
+      // zip64 extra field: 64-bit values for the fields saturated above, in this order
+      for (let x = p + 46 + nameLen, end = x + extraLen; x + 4 <= end;) {
+        const id = cd.readUInt16LE(x);
+        const len = cd.readUInt16LE(x + 2);
+        if (id === 0x0001) {
+          let q = x + 4;
+          for (const k of ["size", "compressedSize", "offset"] as const) {
+            if (entry[k] !== 0xFFFFFFFF) continue;
+            entry[k] = Number(cd.readBigUInt64LE(q));
+            q += 8;
+          }
+        }
+        x += 4 + len;
+      }
+      if (!name.endsWith("/")) out.push(entry);
+      p += 46 + nameLen + extraLen + commentLen;
+    }
+    return out;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Entries the repack pipelines can take (by extension). */
+export function zipXmlEntries(file: string): ZipEntry[] {
+  return listZipEntries(file).filter((e) => XML_ENTRY.test(e.name));
+}
+
+function zipDataStart(fd: number, file: string, e: ZipEntry): number {
+  const h = readAt(fd, e.offset, 30);
+  if (h.length < 30 || h.readUInt32LE(0) !== ZIP_LOCAL) throw new Error(`${path.basename(file)}: broken local header of ${e.name}`);
+  return e.offset + 30 + h.readUInt16LE(26) + h.readUInt16LE(28);
+}
+
+function checkMethod(file: string, e: ZipEntry) {
+  if (e.encrypted) throw new Error(`${path.basename(file)}: ${e.name} is encrypted`);
+  if (e.method !== 0 && e.method !== 8) {
+    throw new Error(`${path.basename(file)}: ${e.name} uses compression method ${e.method} (only stored and deflate are supported)`);
+  }
+}
+
+/** Decompressed content of one entry, streamed from the archive. */
+export function openZipEntry(file: string, e: ZipEntry): Readable {
+  checkMethod(file, e);
+  const fd = fs.openSync(file, "r");
+  let start: number;
+  try { start = zipDataStart(fd, file, e); } finally { fs.closeSync(fd); }
+  if (!e.compressedSize) return Readable.from([]);
+  const raw = fs.createReadStream(file, { start, end: start + e.compressedSize - 1, highWaterMark: 100 * 1024 });
+  return e.method === 8 ? pipeline(raw, zlib.createInflateRaw(), () => { /* reported on the result */ }) : raw;
+}
+
+/**
+ * Up to `max` bytes from the start of a file's content, decompressed (for
+ * sniffing; empty when it cannot be decoded). Zip archives: of `entry`, by
+ * default the first repackable one.
+ */
+export function readHeadSync(file: string, max: number, entry?: ZipEntry): Buffer {
+  const c = fileCompression(file);
+  const fd = fs.openSync(file, "r");
+  try {
+    if (!c) return readAt(fd, 0, max);
+    // what a cut-off stream inflates to: everything up to where it stops
+    const partial = { finishFlush: zlib.constants.Z_SYNC_FLUSH };
+    let out: Buffer | undefined;
+    if (c === "gzip") {
+      out = zlib.gunzipSync(readAt(fd, 0, max), partial);
+    } else if (c === "zstd") {
+      out = zstdHead(readAt(fd, 0, max));
+    } else {
+      const e = entry ?? zipXmlEntries(file)[0];
+      if (e) {
+        checkMethod(file, e);
+        const data = readAt(fd, zipDataStart(fd, file, e), Math.min(e.compressedSize, max));
+        out = e.method === 8 ? zlib.inflateRawSync(data, partial) : data;
+      }
+    }
+    return (out ?? Buffer.alloc(0)).subarray(0, max);
+  } catch {
+    return Buffer.alloc(0);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
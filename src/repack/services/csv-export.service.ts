@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+import { log } from "../log";
+
+export type CsvExportOptions = {
+  fields?: string[];    // column subset (in this order); default: every declared field
+  fill?: boolean;       // sample-and-hold: repeat last known value in empty cells
+  rateHz?: number;      // fixed-rate resampling (implies sample-and-hold)
+  from?: number;        // ms, relative to base timestamp (inclusive)
+  to?: number;          // ms, relative to base timestamp (inclusive)
+};
+
+function csvCell(s: string): string {
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** spooled rows with empty cells added up to `width` (rows carry numbers only: no quoted commas) */
+async function* padRows(file: string, width: number): AsyncGenerator<string> {
+  let rest = "";
+  for await (const chunk of fs.createReadStream(file, { encoding: "utf8", highWaterMark: 100 * 1024 })) {
+    const lines = (rest + chunk).split("\n");
+    rest = lines.pop()!;
+    if (lines.length) yield lines.map(l => l + ",".repeat(width - l.split(",").length)).join("\n") + "\n";
+  }
+}
+
+/**
+ * Wide CSV: one column per declared field, one row per emitted timestamp.
+ * Only downlink values are exported; events and objects are ignored. Fields
+ * may be declared at any point of the stream (merge, profiles), so rows are
+ * spooled next to the output and the header goes in at the end.
+ */
+export class CsvSink implements TlmSink {
+  private ws: fs.WriteStream;
+  private bodyFile: string;
+
+  private names: string[] = [];
+  private columns: string[];                  // header after t,time
+  private colOf: number[] = [];               // field index → column, -1 when not exported
+  private rows = 0;
+  private ragged = false;                     // columns added after rows were written
+  private held = new Map<number, number>();   // last known value per field
+  private row = new Map<number, number>();    // values seen at curTs
+
+  private curTs = 0;
+  private gridTs = -1;
+  private step = 0;
+
+  constructor(private outFile: string, private baseTs: number, private opts: CsvExportOptions = {}) {
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    this.columns = opts.fields?.length ? [...opts.fields] : [];
+    this.bodyFile = `${outFile}.rows.tmp`;
+    this.ws = fs.createWriteStream(this.bodyFile, { highWaterMark: 100 * 1024 });
+    if (opts.rateHz != null) {
+      if (!(opts.rateHz > 0)) throw new Error(`CsvSink: invalid rate ${opts.rateHz}`);
+      this.step = 1000 / opts.rateHz;
+    }
+  }
+
+  private inRange(t: number) {
+    const { from, to } = this.opts;
+    return !(from != null && t < from) && !(to != null && t > to);
+  }
+
+  private writeRow(t: number, values: Map<number, number>) {
+    const cells: string[] = new Array(this.columns.length).fill("");
+    for (const [i, v] of values) {
+      const c = this.colOf[i];
+      if (c >= 0) cells[c] = String(v);
+    }
+    this.ws.write(`${t},${new Date(this.baseTs + t).toISOString()},${cells.join(",")}\n`);
+    this.rows++;
+  }
+
+  /** close the row collected at curTs */
+  private commitRow() {
+    if (!this.row.size) return;
+    if (this.step) {
+      if (this.gridTs < 0) this.gridTs = Math.ceil(Math.max(this.curTs, this.opts.from ?? 0) / this.step) * this.step;
+    } else if (this.inRange(this.curTs)) {
+      this.writeRow(this.curTs, this.opts.fill ? this.held : this.row);
+    }
+    this.row.clear();
+  }
+
+  /** resampled rows for grid points before `until` (or up to it, when inclusive) */
+  private emitGrid(until: number, inclusive: boolean) {
+    if (!this.step || this.gridTs < 0) return;
+    while (inclusive ? this.gridTs <= until : this.gridTs < until) {
+      const t = Math.round(this.gridTs);
+      if (this.opts.to != null && t > this.opts.to) break;
+      if (this.inRange(t)) this.writeRow(t, this.held);
+      this.gridTs += this.step;
+    }
+  }
+
+  writeHeaderPlaceholder() {}
+  emitInfo(_info: any) {}
+  emitEvtId(_name: string, _keys: string[]) {}
+  emitEvt(_evIndex: number, _values: string[]) {}
+  emitJso(_name: string, _obj: any, _ts?: number) {}
+
+  emitField(name: string, _info: string[] = []) {
+    this.names.push(name);
+    if (this.opts.fields?.length) {
+      this.colOf.push(this.opts.fields.indexOf(name));
+      return;
+    }
+    if (this.rows) this.ragged = true;
+    this.colOf.push(this.columns.push(name) - 1);
+  }
+
+  emitTs(ms: number) {
+    this.commitRow();
+    this.emitGrid(ms, false);
+    this.curTs = ms;
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    if (uplink || !(fieldIndex >= 0 && fieldIndex < this.names.length)) return;
+    this.held.set(fieldIndex, v);
+    this.row.set(fieldIndex, v);
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.commitRow();
+    this.emitGrid(this.curTs, true);
+    await new Promise<void>((resolve, reject) => {
+      this.ws.once("error", reject);
+      this.ws.once("finish", resolve);
+      this.ws.end();
+    });
+    for (const n of this.opts.fields ?? []) if (!this.names.includes(n)) log.warn(`[export][warn] unknown field "${n}", column left empty`);
+
+    const head = ["t", "time", ...this.columns].map(csvCell).join(",") + "\n";
+    const body = this.bodyFile;
+    const width = this.columns.length + 2;
+    const ragged = this.ragged;
+    try {
+      await pipeline(
+        async function* () {
+          yield head;
+          yield* ragged ? padRows(body, width) : fs.createReadStream(body, { highWaterMark: 100 * 1024 });
+        },
+        fs.createWriteStream(this.outFile),
+      );
+    } finally {
+      await fs.promises.rm(body, { force: true });
+    }
+  }
+}
+
+export function createCsvSink(opts: CsvExportOptions = {}): SinkFactory {
+  return (outFile, baseTs) => new CsvSink(outFile, baseTs, opts);
+}
@@ -0,0 +1,160 @@
+import * as path from "path";
+import { log } from "../log";
+import { RepackSource, RepackRunOptions, scanSource } from "./source";
+import { FormatAdapter, TlmStreamCore } from "./stream-core";
+import { LogFieldMapper, DATAFLASH_FIELD_MAP } from "./log-mapping";
+
+/* ---------- ArduPilot DataFlash log (.bin): A3 95 <type> records, described by FMT records ---------- */
+
+const HEAD1 = 0xA3;
+const HEAD2 = 0x95;
+const FMT_TYPE = 0x80;
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+const WEEK_MS = 7 * 24 * 3600 * 1000;
+const LEAP_MS = 18000;              // GPS − UTC since 2017
+const MAX_PENDING = 100000;         // records held back while waiting for a GPS fix to date the log
+const INSTANCE_COLS = ["I", "Instance", "Inst"];
+
+type Col = { name: string; code: string; off: number; size: number };
+type Fmt = { name: string; len: number; cols: Col[]; time?: Col };
+
+const CODE_SIZES: Record<string, number> = {
+  b: 1, B: 1, M: 1, h: 2, H: 2, c: 2, C: 2, i: 4, I: 4, e: 4, E: 4, L: 4, f: 4, n: 4, d: 8, q: 8, Q: 8, N: 16, Z: 64, a: 64,
+};
+
+function makeFmt(name: string, len: number, format: string, columns: string): Fmt | undefined {
+  const names = columns.split(",");
+  const cols: Col[] = [];
+  let off = 3;
+  for (let i = 0; i < format.length; i++) {
+    const size = CODE_SIZES[format[i]];
+    if (size === undefined) return undefined;
+    cols.push({ name: names[i] ?? `c${i}`, code: format[i], off, size });
+    off += size;
+  }
+  if (off > len) return undefined;
+  return { name, len, cols, time: cols.find((c) => c.name === "TimeUS" || c.name === "TimeMS") };
+}
+
+/** FMT describes itself */
+const FMT_FMT = makeFmt("FMT", 89, "BBnNZ", "Type,Length,Name,Format,Columns")!;
+
+/** one column, with the format's multiplier applied (centi-units, 1e-7 degrees) */
+function readCol(b: Buffer, c: Col): number | string | undefined {
+  const o = c.off;
+  switch (c.code) {
+    case "b": return b.readInt8(o);
+    case "B": case "M": return b.readUInt8(o);
+    case "h": return b.readInt16LE(o);
+    case "H": return b.readUInt16LE(o);
+    case "i": return b.readInt32LE(o);
+    case "I": return b.readUInt32LE(o);
+    case "f": return b.readFloatLE(o);
+    case "d": return b.readDoubleLE(o);
+    case "q": return Number(b.readBigInt64LE(o));
+    case "Q": return Number(b.readBigUInt64LE(o));
+    case "c": return b.readInt16LE(o) * 0.01;
+    case "C": return b.readUInt16LE(o) * 0.01;
+    case "e": return b.readInt32LE(o) * 0.01;
+    case "E": return b.readUInt32LE(o) * 0.01;
+    case "L": return b.readInt32LE(o) * 1e-7;
+    case "n": case "N": case "Z": {
+      const s = b.subarray(o, o + c.size);
+      const end = s.indexOf(0);
+      return s.toString("utf8", 0, end < 0 ? s.length : end).trim();
+    }
+    default: return undefined;     // arrays
+  }
+}
+
+function timeMs(b: Buffer, c: Col): number {
+  return c.name === "TimeUS" ? Number(b.readBigUInt64LE(c.off)) / 1000 : b.readUInt32LE(c.off);
+}
+
+async function readDataflash(input: RepackSource, core: TlmStreamCore, opts: RepackRunOptions) {
+  const mapper = new LogFieldMapper(DATAFLASH_FIELD_MAP, opts.mapping);
+  core.fields = [...mapper.fields];
+  const formats = new Map<number, Fmt>([[FMT_TYPE, FMT_FMT]]);
+  let t0: number | undefined;         // ms since boot of the first timed record: output time 0
+  let now = 0;                        // ms since boot of the last timed record
+  let pending: Array<() => void> | undefined = [];
+  let skipped = 0;
+
+  // records wait until the log is dated: by the first GPS fix, else the fallback time
+  const open = (baseTs: number) => {
+    core.open(baseTs);
+    core.emitInfo();
+    const queued = pending ?? [];
+    pending = undefined;
+    for (const emit of queued) emit();
+  };
+  const emit = (f: () => void) => {
+    if (!pending) return f();
+    pending.push(f);
+    if (pending.length >= MAX_PENDING) open(core.fallbackTs());
+  };
+
+  const handle = (fmt: Fmt, rec: Buffer) => {
+    if (fmt.time) {
+      now = timeMs(rec, fmt.time);
+      t0 ??= now;
+    }
+    const name = fmt.name;
+    if (name !== "GPS" && name !== "MSG" && !mapper.has(name)) return;
+
+    const values: Record<string, number | string> = {};
+    for (const c of fmt.cols) {
+      const v = readCol(rec, c);
+      if (v !== undefined) values[c.name] = v;
+    }
+    // first instance only (GPS2, second battery, …)
+    if (INSTANCE_COLS.some((k) => typeof values[k] === "number" && values[k] !== 0)) return;
+
+    const ts = Math.round(now - (t0 ?? now));
+    if (name === "GPS" && pending && Number(values.Status) >= 3 && Number(values.GWk) > 0) {
+      const utc = GPS_EPOCH_MS + Number(values.GWk) * WEEK_MS + Number(values.GMS) - LEAP_MS;
+      open(Math.round(utc - now + (t0 ?? now)));
+    }
+    if (name === "MSG") {
+      const text = String(values.Message ?? "");
+      if (!core.source.version && /^(Ardu\w+|APM:\w+)\s+V?\d/.test(text)) core.source.version = text;
+      if (text) emit(() => core.emitEvent("msg", {}, text, ts));
+    }
+    const cells = mapper.row(name, values);
+    if (cells) emit(() => core.emitRow(ts, cells));
+  };
+
+  const left = await scanSource(input, (buf, end) => {
+    let p = 0;
+    while (p + 3 <= buf.length) {
+      const fmt = buf[p] === HEAD1 && buf[p + 1] === HEAD2 ? formats.get(buf[p + 2]) : undefined;
+      if (!fmt) {
+        p++; skipped++;
+        continue;
+      }
+      if (p + fmt.len + (end ? 0 : 2) > buf.length) break;
+      // the next record starts right after this one; anything else is a false header
+      if (p + fmt.len + 2 <= buf.length && (buf[p + fmt.len] !== HEAD1 || buf[p + fmt.len + 1] !== HEAD2)) {
+        p++; skipped++;
+        continue;
+      }
+      const rec = buf.subarray(p, p + fmt.len);
+      if (rec[2] === FMT_TYPE) {
+        const f = makeFmt(String(readCol(rec, FMT_FMT.cols[2])), rec[4], String(readCol(rec, FMT_FMT.cols[3])), String(readCol(rec, FMT_FMT.cols[4])));
+        if (f && rec[3] !== FMT_TYPE) formats.set(rec[3], f);
+      } else {
+        handle(fmt, rec);
+      }
+      p += fmt.len;
+    }
+    return p;
+  }, () => core.drained());
+  if (pending?.length) open(core.fallbackTs());
+
+  const name = path.basename(core.inputFile);
+  if (skipped) log.warn(`[repack][warn] ${name}: ${skipped} bytes skipped looking for DataFlash records`);
+  if (left) log.warn(`[repack][warn] ${name}: last record truncated (${left} bytes)`);
+  return undefined;
+}
+
+export const dataflashAdapter: FormatAdapter = { kind: "dataflash", read: readDataflash };
@@ -1,119 +1,32 @@
-import * as fs from "fs";
-import * as path from "path";
-import sax from "sax";
-import { XMLParser } from "fast-xml-parser";
-import { ApxTlmWriter } from "./apxtlm-writer.service";
-import { buildInfoForInput } from "./info.util";
-import { createHash } from "crypto";
-
-const MAX_FIELDS = 2048;
+import { RepackSource, RepackRunOptions } from "./source";
+import { FormatAdapter, TlmStreamCore } from "./stream-core";
+import { XmlReader, XmlObjectCapture } from "./xml-reader";
+
 const TELEMETRY_TAGS = new Set(["S", "D"]);
 const EVENT_TAGS = new Set(["event", "evt"]);
-const SKIP_TOP_LEVEL = new Set(["S", "D", "event", "evt", "#text", "@_"]);
+const SKIP_TOP_LEVEL = new Set(["S", "D", "U", "event", "evt", "#text", "@_"]);
 
 const EPOCH_2000_MS = Date.UTC(2000, 0, 1);
 
-function fileMtimeMs(p: string): number {
-  try { return Math.floor(fs.statSync(p).mtimeMs); } catch { return Date.now(); }
-}
-
 /** normalize potential seconds→ms; reject pre-2000 values (fallback to file mtime) */
-function normalizeEpochMs(n: number, inputFile: string): number {
-  if (!Number.isFinite(n)) return fileMtimeMs(inputFile);
+function normalizeEpochMs(n: number, fallbackTs: () => number): number {
+  if (!Number.isFinite(n)) return fallbackTs();
   let v = n;
   if (v < 1e12 && v >= 1e9) v = v * 1000; // seconds → ms
   v = Math.floor(v);
-  if (v < EPOCH_2000_MS) return fileMtimeMs(inputFile);
+  if (v < EPOCH_2000_MS) return fallbackTs();
   return v;
 }
 
-
-
-/** нормализация «сырого» узлового дампа в формат Ground */
-function tryNormalizeNodes(raw: any, baseTs: number) {
-  // поддерживаем два варианта обёртки:
-  // 1) весь объект с полями ident/node/...
-  // 2) объект сразу с node/ident (иногда попадает так)
-  const hasIdent = raw && typeof raw === "object" && (raw.ident || raw.identity);
-  const nodeObj  = raw?.node;
-  if (!hasIdent || !nodeObj) return null;
-
-  const ident = raw.ident || raw.identity || {};
-  const uid   = String(ident.uid ?? "").trim();
-  const name  = String(ident.callsign ?? ident.name ?? "NODE").trim();
-  const type  = String(ident.class ?? ident.type ?? "UAV").trim();
-
-  const ninfo = nodeObj.info || {};
-  const version  = ninfo.version;
-  const hardware = ninfo.hardware;
-
-  // собрать список полей
-  let fields = nodeObj.fields?.field;
-  if (!fields) return null;
-  if (!Array.isArray(fields)) fields = [fields];
-
-  const dictFields: Array<{name:string; title:string; type:string}> = [];
-  const values: Record<string, any> = {};
-
-  let autoIdx = 0;
-  for (const f of fields) {
-    // возможные места имени
-    const nameRaw = f?.name ?? f?.["@_name"] ?? f?.id ?? null;
-    const name = nameRaw ? String(nameRaw) : `f${autoIdx++}`;
-    const title = f?.title ?? name;
-
-    // тип в struct.type (или просто type)
-    const type = (f?.struct?.type ?? f?.type ?? "string").toString();
-
-    // значение — в .value (строка); конвертировать по типу
-    let v: any = f?.value;
-    if (v !== undefined && v !== null) {
-      const s = String(v).trim();
-      if (type === "int" || type === "i32" || type === "i16" || type === "u32" || type === "u16") {
-        const n = Number(s);
-        v = Number.isFinite(n) ? n : 0;
-      } else if (type === "float" || type === "f32" || type === "double" || type === "f64") {
-        const n = Number(s);
-        v = Number.isFinite(n) ? n : 0;
-      } else if (type === "bool" || type === "boolean") {
-        v = /^(1|true|yes|on)$/i.test(s);
-      } else {
-        v = s;
-      }
-      values[name] = v;
-    }
-
-    dictFields.push({ name, title: String(title), type: String(type) });
-  }
-
-  // cache как первые 8 hex от sha1(dictFields)
-  const h = createHash("sha1");
-  h.update(JSON.stringify(dictFields));
-  const cache = h.digest("hex").slice(0, 8).toUpperCase();
-
-  const node = {
-    info: {
-      uid, name, type,
-      time: baseTs >>> 0,
-      ...(version ? { version } : {}),
-      ...(hardware ? { hardware } : {}),
-    },
-    dict: { cache, fields: dictFields },
-    values,
-    time: baseTs >>> 0,
-  };
-
-  return { nodes: [node] };
-}
-
+/* ---------- datalink capture: root time, <mandala> field list, S/D rows, events, uplinks ---------- */
 
 type Ctx = {
-  writer?: ApxTlmWriter;
-  wroteHeader: boolean;
-  utcOffsetSec: number;
-  baseTs: number;           // ms
-  fields: string[];
-  fieldsDeclared: boolean;
+  rowTs: number;            // time of the last row; events without `t` and uplinks apply there
+
+  // rows without a time attribute are timed by the vehicle uptime column
+  uptimeIdx?: number;       // index of dl_timestamp, -1 when absent; set once the fields are declared
+  uptimeBase?: number;      // root time_ms: uptime when the capture started
+  uptime?: number;          // last dl_timestamp seen
 
   stack: string[];
   inCsv: boolean;
@@ -125,72 +38,43 @@ type Ctx = {
   evtName: string;
   evtAttrs: Record<string, string>;
   evtText: string;
-  evtIndex: Map<string, number>;
-
-  capJsoActive: boolean;
-  capJsoDepth: number;
-  capJsoName: string;
-  capXml: string[];
 
-  logFile?: fs.WriteStream;
+  inU: boolean;
+  uName: string;
+  uText: string;
 };
 
-function declareFieldsIfNeeded(ctx: Ctx, tokenCountHint?: number) {
-  if (ctx.fieldsDeclared) return;
-  if (!ctx.writer) return;
-
-  if (!ctx.fields.length) {
-    const n = Math.min(tokenCountHint ?? 0, MAX_FIELDS);
-    ctx.fields = Array.from({ length: n }, (_, i) => `#${i}`);
-  }
-
-  if (ctx.fields.length > MAX_FIELDS) ctx.fields.length = MAX_FIELDS;
-
-  for (const f of ctx.fields) ctx.writer.emitField(f, []);
-  ctx.fieldsDeclared = true;
+/** row values by position: empty cells (unchanged values) must keep their slot */
+function splitRowKeepEmpty(s: string): string[] {
+  return String(s).trim().split(",").map(x => x.trim());
 }
 
-function declareEventIfNeeded(ctx: Ctx, name: string, keys: string[]) {
-  if (!ctx.writer) return;
-  if (!ctx.evtIndex.has(name)) {
-    const idx = ctx.evtIndex.size;
-    ctx.evtIndex.set(name, idx);
-    ctx.writer.emitEvtId(name, keys);
+/** one <S>/<D> row: values in field order, timed by its attribute or the uptime column */
+function emitRow(ctx: Ctx, core: TlmStreamCore, text: string) {
+  const tsAttr = ctx.csvAttrs["t"] ?? ctx.csvAttrs["ts"] ?? ctx.csvAttrs["time_ms"] ?? ctx.csvAttrs["UTC"];
+  const parts = splitRowKeepEmpty(text);
+  core.declareFields(parts.length);
+  ctx.uptimeIdx ??= core.fields.indexOf("dl_timestamp");
+
+  let ts = tsAttr != null ? Number(tsAttr) : 0;
+  if (tsAttr == null && ctx.uptimeIdx >= 0) {
+    const up = parts[ctx.uptimeIdx] ? Number(parts[ctx.uptimeIdx]) : NaN;
+    if (Number.isFinite(up)) ctx.uptime = up;
+    if (ctx.uptime !== undefined) {
+      ctx.uptimeBase ??= ctx.uptime;
+      ts = ctx.uptime - ctx.uptimeBase;
+    }
   }
-}
-
-function splitTokensLoose(s: string): string[] {
-  return String(s).split(/[,\s;]+/).map(x => x.trim()).filter(x => x.length || x === "");
-}
 
-function openTagToString(name: string, attrs: Record<string, any>): string {
-  const a = Object.entries(attrs ?? {}).map(([k, v]) => `${k}="${String(v)}"`).join(" ");
-  return a.length ? `<${name} ${a}>` : `<${name}>`;
-}
-function closeTagToString(name: string): string { return `</${name}>`; }
-
-function logToFile(ctx: Ctx, message: string) {
-  if (!ctx.logFile) {
-    ctx.logFile = fs.createWriteStream(path.resolve(__dirname, "log.txt"), { flags: "a" });
-  }
-  ctx.logFile.write(`[${new Date().toISOString()}] ${message}\n`);
+  ts = ctx.rowTs = Number.isFinite(ts) ? ts : 0;
+  core.emitRow(ts, parts);
 }
 
-export async function repackDatalinkToApx_stream(
-  inputFile: string,
-  outFile: string,
-  opts: { utcOffset?: number; includeJso?: boolean } = {}
-): Promise<void> {
-  const { utcOffset = 0, includeJso = true } = opts;
-  const utcOffsetSec = utcOffset | 0;
+async function readDatalink(input: RepackSource, core: TlmStreamCore, opts: RepackRunOptions) {
+  const { includeJso = true } = opts;
 
   const ctx: Ctx = {
-    writer: undefined,
-    wroteHeader: false,
-    utcOffsetSec,
-    baseTs: 0,
-    fields: [],
-    fieldsDeclared: false,
+    rowTs: 0,
 
     stack: [],
     inCsv: false,
@@ -202,45 +86,54 @@ export async function repackDatalinkToApx_stream(
     evtName: "",
     evtAttrs: {},
     evtText: "",
-    evtIndex: new Map(),
 
-    capJsoActive: false,
-    capJsoDepth: 0,
-    capJsoName: "",
-    capXml: [],
-
-    logFile: undefined,
+    inU: false,
+    uName: "",
+    uText: "",
   };
 
-  const parser = sax.createStream(true, { trim: false, normalize: false });
+  const reader = new XmlReader(opts.recover);
+  const parser = reader.parser;
+  const capture = new XmlObjectCapture(reader, (name, value) => core.emitObject(name, value));
+  core.locate = () => reader.line;
 
   parser.on("opentag", (tag) => {
     const name = tag.name;
     const attrs = tag.attributes as Record<string, any>;
+    reader.tag();
 
     ctx.stack.push(name);
+    core.nodeFields.opentag(name, attrs);
 
     if (ctx.stack.length === 1) {
-      const tRaw = (attrs?.["time_ms"] ?? attrs?.["UTC"]);
-      if (tRaw != null) {
-        const n = Number(tRaw);
-        ctx.baseTs = normalizeEpochMs(n, inputFile);
+      const up = Number(attrs?.["time_ms"]);
+      if (Number.isFinite(up) && up < EPOCH_2000_MS) ctx.uptimeBase = up;
+
+      // UTC="2025-08-28T13:37:14Z" is the wall clock; time_ms is uptime unless it looks like an epoch
+      const utcRaw = attrs?.["UTC"] != null ? String(attrs["UTC"]).trim() : "";
+      const utc = /^\d+(\.\d+)?$/.test(utcRaw) ? normalizeEpochMs(Number(utcRaw), () => NaN) : Date.parse(utcRaw);
+      const tRaw = attrs?.["time_ms"];
+      let baseTs: number;
+      if (utc >= EPOCH_2000_MS) {
+        baseTs = utc;
+      } else if (tRaw != null) {
+        baseTs = normalizeEpochMs(Number(tRaw), () => core.fallbackTs());
       } else {
-        ctx.baseTs = fileMtimeMs(inputFile);
+        baseTs = core.fallbackTs();
       }
 
-      if (!ctx.writer) {
-        ctx.writer = new ApxTlmWriter(1, ctx.utcOffsetSec, ctx.baseTs, outFile);
-        ctx.writer.writeHeaderPlaceholder();
-        ctx.wroteHeader = true;
-
-        // info первым блоком
-        const info = buildInfoForInput(inputFile, "datalink", ctx.baseTs, {}, ctx.utcOffsetSec);
-        ctx.writer.emitInfo(info);
+      if (!core.opened) {
+        core.open(baseTs);
+        core.source.title = attrs?.["title"] != null ? String(attrs["title"]) : undefined;
+        core.source.timestamp = utc >= EPOCH_2000_MS ? utc : undefined;
       }
+    } else if (ctx.stack.length === 2 && name !== "mandala") {
+      // the info block goes first, held back until <mandala> has given the software version
+      core.emitInfo();
     }
 
     if (TELEMETRY_TAGS.has(name)) {
+      reader.begin();
       ctx.inCsv = true;
       ctx.csvTag = name;
       ctx.csvAttrs = Object.fromEntries(Object.entries(attrs || {}).map(([k, v]) => [k, String(v)]));
@@ -249,6 +142,7 @@ export async function repackDatalinkToApx_stream(
     }
 
     if (EVENT_TAGS.has(name)) {
+      reader.begin();
       ctx.inEvt = true;
       ctx.evtName = (attrs?.["name"] as string) ?? name;
       ctx.evtAttrs = Object.fromEntries(Object.entries(attrs || {}).map(([k, v]) => [k, String(v)]));
@@ -256,123 +150,80 @@ export async function repackDatalinkToApx_stream(
       return;
     }
 
-    if (includeJso && ctx.stack.length === 2 && !SKIP_TOP_LEVEL.has(name)) {
-      ctx.capJsoActive = true;
-      ctx.capJsoDepth = ctx.stack.length;
-      ctx.capJsoName = name;
-      ctx.capXml = [];
-      ctx.capXml.push(openTagToString(name, attrs));
+    // uplink value: <U f="field">v</U>, applies at the current timestamp
+    if (name === "U") {
+      reader.begin();
+      ctx.inU = true;
+      ctx.uName = String(attrs?.["f"] ?? attrs?.["name"] ?? "");
+      ctx.uText = "";
       return;
     }
 
-    if (ctx.capJsoActive) ctx.capXml.push(openTagToString(name, attrs));
+    if (includeJso && ctx.stack.length === 2 && !SKIP_TOP_LEVEL.has(name)) capture.start(name, ctx.stack.length);
+    capture.open(name, attrs);
   });
 
   parser.on("text", (txt) => {
+    core.nodeFields.onText(txt);
+
     if (ctx.stack.length >= 2 && ctx.stack[ctx.stack.length - 1] === "fields" && ctx.stack.includes("mandala")) {
       const raw = (txt ?? "").trim();
-      if (raw) ctx.fields = raw.split(/[,\s;]+/).map(s => s.trim()).filter(Boolean);
+      if (raw) core.fields = raw.split(/[,\s;]+/).map(s => s.trim()).filter(Boolean);
+    }
+
+    if (ctx.stack.length === 3 && ctx.stack[1] === "mandala") {
+      const top = ctx.stack[2];
+      const v = (txt ?? "").trim();
+      if (v && top === "version") core.source.version = v;
+      if (v && top === "hash") core.source.swHash = v;
     }
 
     if (ctx.inCsv) ctx.csvText += txt;
     if (ctx.inEvt) ctx.evtText += txt;
-    if (ctx.capJsoActive && txt) ctx.capXml.push(txt);
+    if (ctx.inU) ctx.uText += txt;
+    capture.text(txt);
   });
 
   parser.on("closetag", (name) => {
+    reader.tag();
+    core.nodeFields.closetag(name);
+    if (name === "mandala" && ctx.stack.length === 2) core.emitInfo();
     if (ctx.inCsv && name === ctx.csvTag) {
       ctx.inCsv = false;
-      const tsAttr = ctx.csvAttrs["t"] ?? ctx.csvAttrs["ts"] ?? ctx.csvAttrs["time_ms"] ?? ctx.csvAttrs["UTC"];
-      const ts = tsAttr != null ? Number(tsAttr) : 0;
-
-      const parts = splitTokensLoose(ctx.csvText);
-      declareFieldsIfNeeded(ctx, parts.length);
-
-      const wr = ctx.writer!;
-      wr.emitTs((Number.isFinite(ts) ? ts : 0) >>> 0);
-
-      const lim = Math.min(parts.length, ctx.fields.length || MAX_FIELDS);
-      for (let i = 0; i < lim; i++) {
-        const s = parts[i];
-        if (s === "") continue;
-        const n = Number(s);
-        if (Number.isFinite(n)) wr.emitNumber(i, n, false);
-      }
+      if (!reader.damaged) emitRow(ctx, core, ctx.csvText);
     }
 
     if (ctx.inEvt && EVENT_TAGS.has(name)) {
       ctx.inEvt = false;
-      const wr = ctx.writer!;
       const a = ctx.evtAttrs;
-      const evName = ctx.evtName;
-      const ts = a.t != null ? Number(a.t) : 0;
-
-      const keys = Object.keys(a).filter(k => k !== "name" && k !== "t");
-      if (ctx.evtText && ctx.evtText.trim().length) keys.push("text");
-      declareEventIfNeeded(ctx, evName, keys);
-
-      wr.emitTs(ts >>> 0);
-      const idx = ctx.evtIndex.get(evName)!;
-      const vals: string[] = [];
-      for (const k of keys) vals.push(k === "text" ? ctx.evtText.trim() : String(a[k] ?? ""));
-      wr.emitEvt(idx, vals);
+      if (!reader.damaged) core.emitEvent(ctx.evtName, a, ctx.evtText, a.t != null ? Number(a.t) : ctx.rowTs);
     }
 
-    if (ctx.capJsoActive) {
-      ctx.capXml.push(closeTagToString(name));
-      if (ctx.stack.length === ctx.capJsoDepth && name === ctx.capJsoName) {
-        try {
-          const xmlStr = ctx.capXml.join("");
-          const parser = new XMLParser({
-            ignoreAttributes: false,
-            ignoreDeclaration: true,
-            attributeNamePrefix: "@_",
-            textNodeName: "#text",
-            trimValues: true,
-            allowBooleanAttributes: true,
-            parseTagValue: false
-          });
-          const obj = parser.parse(xmlStr);
-          const val = (obj as any)[ctx.capJsoName] ?? obj;
-          const normalized = tryNormalizeNodes(val, ctx.baseTs);
-          if (normalized) {
-            ctx.writer!.emitJso("nodes", normalized); // без TS
-          } else {
-            ctx.writer!.emitJso(ctx.capJsoName, val); // обычный путь
-          }
-        } catch (e: any) {
-          logToFile(ctx, `[repack][warn] JSO parse failed <${ctx.capJsoName}>: ${e?.message ?? e}`);
-        }
-        ctx.capJsoActive = false;
-        ctx.capJsoDepth = 0;
-        ctx.capJsoName = "";
-        ctx.capXml = [];
-      }
+    if (ctx.inU && name === "U") {
+      ctx.inU = false;
+      if (!reader.damaged) core.emitUplink(ctx.uName, ctx.uText, ctx.rowTs);
     }
 
+    capture.close(name, ctx.stack.length);
+
     ctx.stack.pop();
   });
 
-  const stream = fs.createReadStream(inputFile, { encoding: "utf8", highWaterMark: 100 * 1024 });
-  await new Promise<void>((resolve, reject) => {
-    stream.on("error", reject);
-    parser.on("error", reject);
-    parser.on("end", resolve);
-    stream.pipe(parser);
+  // recovery: close what the end of the input cut off (runs before parsing resolves)
+  parser.on("end", () => {
+    if (!reader.recovery || !core.opened) return;
+    if (ctx.inCsv) {
+      // the last cell may be cut short: only the text after the last comma is lost
+      const keep = Math.max(0, ctx.csvText.lastIndexOf(","));
+      if (!reader.damaged) emitRow(ctx, core, ctx.csvText.slice(0, keep));
+      reader.cutTail(ctx.csvText.length - keep, `truncated <${ctx.csvTag}> row, last value dropped`);
+    } else if (ctx.inEvt || ctx.inU) {
+      reader.cutCapture(`truncated <${ctx.inU ? "U" : ctx.evtName}> dropped`);
+    }
+    capture.truncated();
   });
 
-  if (ctx.writer) {
-    await ctx.writer.finalizeToFile();
-  } else {
-    const baseTs = fileMtimeMs(inputFile);
-    const wr = new ApxTlmWriter(1, utcOffsetSec, baseTs, outFile);
-    wr.writeHeaderPlaceholder();
-    wr.emitInfo(buildInfoForInput(inputFile, "datalink", baseTs, {}, utcOffsetSec));
-    await wr.finalizeToFile();
-  }
-
-  try {
-    const sz = fs.statSync(outFile).size;
-    logToFile(ctx, `[repack] DONE → ${path.resolve(outFile)} size=${sz} bytes`);
-  } catch {}
+  return reader.parse(input, () => ctx.inCsv || ctx.inEvt || ctx.inU, () => core.drained());
 }
+
+export const datalinkAdapter: FormatAdapter = { kind: "datalink", read: readDatalink };
@@ -0,0 +1,257 @@
+/**
+ * Arithmetic over field values: numbers, field names, + - * / %, unary minus,
+ * parentheses and the functions of FUNCTIONS, e.g. `gps_hmsl - home_hmsl`,
+ * `hypot(gps_Vnorth, gps_Veast)` or `avg(Vp * Ip, 5000)`.
+ */
+export type Expr = {
+  readonly source: string;
+  readonly fields: string[];          // names the expression reads, in order of appearance
+  readonly timed: boolean;            // calls time functions: evaluate at every timestamp, not only when an input changes
+  /**
+   * value from the current field values at time `ts` (ms); undefined while an
+   * input has none. Time functions keep state: evaluate in time order, once per
+   * timestamp, and compile an expression per output.
+   */
+  eval(get: (name: string) => number | undefined, ts?: number): number | undefined;
+};
+
+type Node =
+  | { op: "num"; v: number }
+  | { op: "field"; name: string }
+  | { op: "neg"; a: Node }
+  | { op: "+" | "-" | "*" | "/" | "%"; a: Node; b: Node }
+  | { op: "call"; name: string; args: Node[]; at: number; state?: TimeState };
+
+// avg: win holds the samples since the window start, acc the sum of v·dt between them
+type TimeState = { t?: number; v?: number; acc: number; win: Array<{ t: number; v: number }> };
+
+const R_EARTH = 6371008.8;           // mean radius, m
+const RAD = Math.PI / 180;
+
+/** great-circle distance in metres between two lat/lon points in degrees */
+function distance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * RAD;
+  const dLon = (lon2 - lon1) * RAD;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.sin(dLon / 2) ** 2;
+  return 2 * R_EARTH * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** initial course from point 1 to point 2, degrees 0..360 */
+function bearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const [p1, p2, dl] = [lat1 * RAD, lat2 * RAD, (lon2 - lon1) * RAD];
+  const y = Math.sin(dl) * Math.cos(p2);
+  const x = Math.cos(p1) * Math.sin(p2) - Math.sin(p1) * Math.cos(p2) * Math.cos(dl);
+  return (Math.atan2(y, x) / RAD + 360) % 360;
+}
+
+/** plain functions by name: arity (-1: one or more) and implementation; angles in degrees */
+const FUNCTIONS: Record<string, [number, (...a: number[]) => number]> = {
+  abs: [1, Math.abs],
+  sqrt: [1, Math.sqrt],
+  exp: [1, Math.exp],
+  ln: [1, Math.log],
+  log10: [1, Math.log10],
+  pow: [2, Math.pow],
+  round: [1, Math.round],
+  floor: [1, Math.floor],
+  ceil: [1, Math.ceil],
+  min: [-1, Math.min],
+  max: [-1, Math.max],
+  clamp: [3, (x, lo, hi) => Math.min(Math.max(x, lo), hi)],
+  hypot: [-1, Math.hypot],
+  sin: [1, (x) => Math.sin(x * RAD)],
+  cos: [1, (x) => Math.cos(x * RAD)],
+  tan: [1, (x) => Math.tan(x * RAD)],
+  asin: [1, (x) => Math.asin(x) / RAD],
+  acos: [1, (x) => Math.acos(x) / RAD],
+  atan: [1, (x) => Math.atan(x) / RAD],
+  atan2: [2, (y, x) => Math.atan2(y, x) / RAD],
+  distance: [4, distance],
+  bearing: [4, bearing],
+};
+
+/**
+ * Functions of time, with state per call site:
+ *  - avg(x, ms):  time-weighted mean of x over the last `ms` (a number), each value held until the next
+ *  - deriv(x):    change of x per second since the previous evaluation
+ *  - integ(x):    integral of x over seconds (trapezoids), 0 at the first value
+ */
+const TIME_FUNCTIONS: Record<string, number> = { avg: 2, deriv: 1, integ: 1 };
+
+type Token = { t: "num" | "name" | "op"; s: string; at: number };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  const re = /(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/%(),])/iy;
+  let at = 0;
+  for (;;) {
+    while (/\s/.test(src[at] ?? "")) at++;
+    if (at >= src.length) return out;
+    re.lastIndex = at;
+    const m = re.exec(src);
+    if (!m) throw new Error(`unexpected "${src[at]}" at ${at + 1}`);
+    out.push(m[1] ? { t: "num", s: m[1], at } : m[2] ? { t: "name", s: m[2], at } : { t: "op", s: m[3], at });
+    at = re.lastIndex;
+  }
+}
+
+function parse(src: string): Node {
+  const toks = tokenize(src);
+  let p = 0;
+  const peek = () => toks[p];
+  const fail = (what: string): never => {
+    const tok = toks[p];
+    throw new Error(tok ? `unexpected "${tok.s}" at ${tok.at + 1}, expected ${what}` : `unexpected end, expected ${what}`);
+  };
+
+  const primary = (): Node => {
+    const tok = peek();
+    if (!tok) return fail("a value");
+    if (tok.t === "num") { p++; return { op: "num", v: Number(tok.s) }; }
+    if (tok.t === "name") {
+      p++;
+      if (peek()?.s !== "(") return { op: "field", name: tok.s };
+      p++;
+      const args: Node[] = [];
+      if (peek()?.s !== ")") {
+        args.push(sum());
+        while (peek()?.s === ",") { p++; args.push(sum()); }
+      }
+      if (peek()?.s !== ")") fail('"," or ")"');
+      p++;
+      return checkCall({ op: "call", name: tok.s, args, at: tok.at });
+    }
+    if (tok.s === "(") {
+      p++;
+      const e = sum();
+      if (peek()?.s !== ")") fail('")"');
+      p++;
+      return e;
+    }
+    if (tok.s === "-") { p++; return { op: "neg", a: primary() }; }
+    if (tok.s === "+") { p++; return primary(); }
+    return fail("a value");
+  };
+  const product = (): Node => {
+    let a = primary();
+    while (peek()?.t === "op" && "*/%".includes(peek().s)) {
+      const op = toks[p++].s as "*" | "/" | "%";
+      a = { op, a, b: primary() };
+    }
+    return a;
+  };
+  const sum = (): Node => {
+    let a = product();
+    while (peek()?.t === "op" && "+-".includes(peek().s)) {
+      const op = toks[p++].s as "+" | "-";
+      a = { op, a, b: product() };
+    }
+    return a;
+  };
+
+  const e = sum();
+  if (p < toks.length) fail("an operator");
+  return e;
+}
+
+function checkCall(n: Extract<Node, { op: "call" }>): Node {
+  const where = `${n.name}() at ${n.at + 1}`;
+  const arity = FUNCTIONS[n.name]?.[0] ?? TIME_FUNCTIONS[n.name];
+  if (arity === undefined) {
+    throw new Error(`unknown function ${where} (expected ${[...Object.keys(FUNCTIONS), ...Object.keys(TIME_FUNCTIONS)].join(", ")})`);
+  }
+  if (arity < 0 ? !n.args.length : n.args.length !== arity) {
+    throw new Error(`${where} takes ${arity < 0 ? "one or more" : arity} argument${arity === 1 ? "" : "s"}`);
+  }
+  if (n.name === "avg") {
+    const w = n.args[1];
+    if (w.op !== "num" || !(w.v > 0)) throw new Error(`${where}: the window must be a positive number of ms`);
+  }
+  if (n.name in TIME_FUNCTIONS) n.state = { acc: 0, win: [] };
+  return n;
+}
+
+function isTimed(n: Node): boolean {
+  if (n.op === "call") return !!n.state || n.args.some(isTimed);
+  if (n.op === "neg") return isTimed(n.a);
+  if (n.op === "num" || n.op === "field") return false;
+  return isTimed(n.a) || isTimed(n.b);
+}
+
+function fieldsOf(n: Node, out: string[]): string[] {
+  if (n.op === "field") { if (!out.includes(n.name)) out.push(n.name); }
+  else if (n.op === "neg") fieldsOf(n.a, out);
+  else if (n.op === "call") for (const a of n.args) fieldsOf(a, out);
+  else if (n.op !== "num") { fieldsOf(n.a, out); fieldsOf(n.b, out); }
+  return out;
+}
+
+function evalTime(name: string, s: TimeState, x: number, ts: number, args: Node[]): number | undefined {
+  const { t, v } = s;
+  s.t = ts;
+  s.v = x;
+  switch (name) {
+    case "avg": {
+      const ms = (args[1] as { v: number }).v;
+      const start = ts - ms;
+      const last = s.win[s.win.length - 1];
+      if (last) s.acc += last.v * (ts - last.t);
+      s.win.push({ t: ts, v: x });
+      while (s.win.length > 1 && s.win[1].t <= start) {
+        const old = s.win.shift()!;
+        s.acc -= old.v * (s.win[0].t - old.t);
+      }
+      const first = s.win[0];
+      const from = Math.max(first.t, start);
+      return ts > from ? (s.acc - first.v * (from - first.t)) / (ts - from) : x;
+    }
+    case "deriv":
+      return t === undefined || ts <= t ? undefined : (x - v!) / (ts - t) * 1000;
+    case "integ":
+      if (t !== undefined && ts > t) s.acc += (x + v!) / 2 * (ts - t) / 1000;
+      return s.acc;
+  }
+  return undefined;
+}
+
+function evalNode(n: Node, get: (name: string) => number | undefined, ts: number): number | undefined {
+  switch (n.op) {
+    case "num": return n.v;
+    case "field": return get(n.name);
+    case "neg": {
+      const a = evalNode(n.a, get, ts);
+      return a === undefined ? undefined : -a;
+    }
+    case "call": {
+      const args: number[] = [];
+      for (const a of n.args) {
+        const v = evalNode(a, get, ts);
+        if (v === undefined) return undefined;
+        args.push(v);
+      }
+      if (n.state) return evalTime(n.name, n.state, args[0], ts, n.args);
+      return FUNCTIONS[n.name][1](...args);
+    }
+  }
+  const a = evalNode(n.a, get, ts);
+  const b = a === undefined ? undefined : evalNode(n.b, get, ts);
+  if (a === undefined || b === undefined) return undefined;
+  switch (n.op) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "*": return a * b;
+    case "/": return a / b;
+    case "%": return a % b;
+  }
+}
+
+/** Throws on syntax errors, unknown functions and wrong argument counts; the message gives the 1-based column. */
+export function compileExpr(source: string): Expr {
+  const root = parse(source);
+  return {
+    source,
+    fields: fieldsOf(root, []),
+    timed: isTimed(root),
+    eval: (get, ts = 0) => evalNode(root, get, ts),
+  };
+}
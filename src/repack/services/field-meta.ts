@@ -0,0 +1,413 @@
+/**
+ * Field metadata for APXTLM field records.
+ *
+ * A field record carries `info` strings next to the name; we write them as
+ * [title, units, type, descr, opts] (trailing empty entries dropped), so the
+ * first two match what the ground software reads as title and units.
+ *
+ * The source files only list bare mandala names (<fields>roll,pitch,..).
+ * The node dictionaries describe node *configuration* parameters, a different
+ * namespace that only collides by accident (e.g. config "altitude" is the
+ * safe altitude). Metadata therefore comes from the built-in table for the
+ * classic mandala first, node dictionary entries only fill names it lacks.
+ */
+
+export type FieldMeta = {
+  title?: string;
+  units?: string;
+  type?: string;    // e.g. float, option, bit
+  descr?: string;
+  opts?: string;    // comma separated option labels, index = value
+};
+
+const ONOFF = "off,on";
+const OKERR = "ok,error";
+
+function f(title: string, units = "", descr = ""): FieldMeta {
+  return { title, ...(units ? { units } : {}), ...(descr ? { descr } : {}) };
+}
+function opt(title: string, descr: string, opts: string): FieldMeta {
+  return { title, type: "option", descr, opts };
+}
+function bit(title: string, descr: string, opts = ONOFF): FieldMeta {
+  return { title, type: "bit", descr, opts };
+}
+
+const CLASSIC: Record<string, FieldMeta> = {
+  roll: f("Roll", "deg", "Euler angle"),
+  pitch: f("Pitch", "deg", "Euler angle"),
+  yaw: f("Yaw", "deg", "Euler angle, heading"),
+  Ax: f("Ax", "m/s2", "Acceleration X"),
+  Ay: f("Ay", "m/s2", "Acceleration Y"),
+  Az: f("Az", "m/s2", "Acceleration Z"),
+  p: f("p", "deg/s", "Angular rate X"),
+  q: f("q", "deg/s", "Angular rate Y"),
+  r: f("r", "deg/s", "Angular rate Z"),
+  Hx: f("Hx", "a.u.", "Magnetic field X"),
+  Hy: f("Hy", "a.u.", "Magnetic field Y"),
+  Hz: f("Hz", "a.u.", "Magnetic field Z"),
+  altitude: f("Altitude", "m", "Altitude above home"),
+  airspeed: f("Airspeed", "m/s", "Indicated airspeed"),
+  vspeed: f("Vspeed", "m/s", "Vertical speed"),
+  course: f("Course", "deg", "Moving direction"),
+  rpm: f("RPM", "rpm", "Engine RPM"),
+  agl: f("AGL", "m", "Altitude above ground level"),
+  slip: f("Slip", "deg", "Slip angle"),
+  attack: f("Attack", "deg", "Angle of attack"),
+  venergy: f("Venergy", "m/s", "Compensated variometer"),
+  ldratio: f("L/D", "", "Glide ratio"),
+  buoyancy: f("Buoyancy", "", "Buoyancy"),
+
+  ctr_ailerons: f("Ailerons", "", "Control output -1..+1"),
+  ctr_elevator: f("Elevator", "", "Control output -1..+1"),
+  ctr_throttle: f("Throttle", "", "Control output 0..1"),
+  ctr_rudder: f("Rudder", "", "Control output -1..+1"),
+  ctr_collective: f("Collective", "", "Control output -1..+1"),
+  ctr_steering: f("Steering", "", "Control output -1..+1"),
+  ctr_airbrk: f("Airbrakes", "", "Control output 0..1"),
+  ctr_flaps: f("Flaps", "", "Control output 0..1"),
+  ctr_brake: f("Brake", "", "Control output 0..1"),
+  ctr_mixture: f("Mixture", "", "Control output 0..1"),
+  ctr_engine: f("Engine", "", "Engine tuning 0..1"),
+  ctr_sweep: f("Sweep", "", "Control output -1..+1"),
+  ctr_buoyancy: f("Buoyancy", "", "Control output -1..+1"),
+  ctrb_ers: bit("ERS", "Emergency recovery system"),
+  ctrb_rel: bit("Release", "Parachute release"),
+  ctrb_drp: bit("Drop", "Drop-off"),
+  ctrb_pump: bit("Pump", "Fuel pump"),
+  ctrb_starter: bit("Starter", "Engine starter"),
+  ctrb_horn: bit("Horn", "Horn"),
+  ctrb_rev: bit("Reverse", "Thrust reverse"),
+  ctrb_gear: bit("Gear", "Landing gear retract"),
+  ctr_brakeL: f("Brake L", "", "Left brake 0..1"),
+  ctr_brakeR: f("Brake R", "", "Right brake 0..1"),
+
+  cmd_roll: f("Cmd roll", "deg", "Commanded roll"),
+  cmd_pitch: f("Cmd pitch", "deg", "Commanded pitch"),
+  cmd_yaw: f("Cmd yaw", "deg", "Commanded yaw"),
+  cmd_north: f("Cmd north", "m", "Commanded north position"),
+  cmd_east: f("Cmd east", "m", "Commanded east position"),
+  cmd_course: f("Cmd course", "deg", "Commanded course"),
+  cmd_rpm: f("Cmd RPM", "rpm", "Commanded RPM"),
+  cmd_altitude: f("Cmd altitude", "m", "Commanded altitude"),
+  cmd_airspeed: f("Cmd airspeed", "m/s", "Commanded airspeed"),
+  cmd_vspeed: f("Cmd vspeed", "m/s", "Commanded vertical speed"),
+  cmd_slip: f("Cmd slip", "deg", "Commanded slip"),
+
+  gps_lat: f("Latitude", "deg", "GPS latitude"),
+  gps_lon: f("Longitude", "deg", "GPS longitude"),
+  gps_hmsl: f("HMSL", "m", "GPS altitude above mean sea level"),
+  gps_Vnorth: f("Vnorth", "m/s", "GPS velocity north"),
+  gps_Veast: f("Veast", "m/s", "GPS velocity east"),
+  gps_Vdown: f("Vdown", "m/s", "GPS velocity down"),
+  gps_time: f("GPS time", "s", "GPS UTC time, unix seconds"),
+  gps_SV: f("SV", "", "GPS satellites visible"),
+  gps_SU: f("SU", "", "GPS satellites used"),
+  gps_jcw: f("Jamming CW", "", "GPS CW jamming indicator"),
+  gps_jstate: f("Jamming state", "", "GPS jamming state"),
+
+  fuel: f("Fuel", "l", "Fuel remaining"),
+  frate: f("Fuel rate", "l/h", "Fuel consumption rate"),
+  RSS: f("RSS", "", "Modem signal strength 0..1"),
+  Ve: f("Ve", "V", "System voltage"),
+  Vs: f("Vs", "V", "Servo voltage"),
+  Vp: f("Vp", "V", "Payload voltage"),
+  Vm: f("Vm", "V", "Engine/ECU voltage"),
+  Ie: f("Ie", "A", "System current"),
+  Is: f("Is", "A", "Servo current"),
+  Ip: f("Ip", "A", "Payload current"),
+  Im: f("Im", "A", "Engine/ECU current"),
+  AT: f("AT", "C", "Ambient temperature"),
+  RT: f("RT", "C", "Room temperature"),
+  MT: f("MT", "C", "Modem temperature"),
+  ET: f("ET", "C", "Engine temperature"),
+  EGT: f("EGT", "C", "Exhaust gas temperature"),
+  OT: f("OT", "C", "Oil temperature"),
+  OP: f("OP", "bar", "Oil pressure"),
+
+  ilsb_armed: bit("ILS armed", "ILS armed"),
+  ilsb_approach: bit("ILS approach", "ILS approach"),
+  ilsb_offset: bit("ILS offset", "ILS offset valid"),
+  ilsb_platform: bit("ILS platform", "ILS platform valid"),
+  ils_IR: f("ILS IR", "", "ILS IR offset"),
+  ils_RF: f("ILS RF", "", "ILS RF offset"),
+  ils_HDG: f("ILS HDG", "deg", "ILS heading to runway"),
+  ils_DME: f("ILS DME", "m", "ILS distance to runway"),
+  ils_heading: f("ILS heading", "deg", "ILS heading correction"),
+  ils_altitude: f("ILS altitude", "m", "ILS altitude correction"),
+
+  platform_lat: f("Platform lat", "deg", "Platform latitude"),
+  platform_lon: f("Platform lon", "deg", "Platform longitude"),
+  platform_hmsl: f("Platform HMSL", "m", "Platform altitude above mean sea level"),
+  platform_Vnorth: f("Platform Vnorth", "m/s", "Platform velocity north"),
+  platform_Veast: f("Platform Veast", "m/s", "Platform velocity east"),
+  platform_Vdown: f("Platform Vdown", "m/s", "Platform velocity down"),
+  platform_hdg: f("Platform heading", "deg", "Platform heading"),
+  range: f("Range", "m", "Distance to GCU"),
+  radar_Vx: f("Radar Vx", "m/s", "Radar velocity X"),
+  radar_Vy: f("Radar Vy", "m/s", "Radar velocity Y"),
+  radar_Vz: f("Radar Vz", "m/s", "Radar velocity Z"),
+  radar_dx: f("Radar dx", "m", "Radar offset X"),
+  radar_dy: f("Radar dy", "m", "Radar offset Y"),
+  radar_dz: f("Radar dz", "m", "Radar offset Z"),
+
+  stage: f("Stage", "", "Flight mode stage"),
+  mode: opt("Mode", "Flight mode", "EMG,RPV,UAV,WPT,HOME,STBY,TAXI,TAKEOFF,LANDING"),
+  status_rc: bit("RC", "RC link", "no,yes"),
+  status_gps: bit("GPS", "GPS fix", "no,yes"),
+  status_home: bit("Home", "Home position set", "no,yes"),
+  status_agl: bit("AGL", "AGL sensor ready", "no,yes"),
+  status_modem: bit("Modem", "Modem link", "no,yes"),
+  status_landed: bit("Landed", "Landed", "no,yes"),
+  status_touch: bit("Touch", "Landing gear touchdown", "no,yes"),
+  error_power: bit("Power error", "Power supply error", OKERR),
+  error_cas: bit("CAS error", "Airspeed sensor error", OKERR),
+  error_pstatic: bit("Pstatic error", "Static pressure sensor error", OKERR),
+  error_gyro: bit("Gyro error", "Gyro error", OKERR),
+  error_rpm: bit("RPM error", "RPM sensor error", OKERR),
+  cmode_dlhd: bit("DL HD", "High precision downlink"),
+  cmode_thrcut: bit("Throttle cut", "Throttle cut"),
+  cmode_throvr: bit("Throttle override", "Throttle override"),
+  cmode_hover: bit("Hover", "Hover mode"),
+  cmode_hyaw: bit("Heading hold", "Yaw hold in hover"),
+  cmode_ahrs: bit("AHRS", "AHRS inertial only"),
+  cmode_nomag: bit("No mag", "Ignore magnetometer"),
+  power_ap: bit("Power AP", "Autopilot power"),
+  power_servo: bit("Power servo", "Servo power"),
+  power_ignition: bit("Power ignition", "Ignition power"),
+  power_payload: bit("Power payload", "Payload power"),
+  power_agl: bit("Power AGL", "AGL sensor power"),
+  power_xpdr: bit("Power XPDR", "Transponder power"),
+  sw_starter: bit("Starter", "Engine starter switch"),
+  sw_lights: bit("Lights", "Navigation lights"),
+  sw_taxi: bit("Taxi lights", "Taxi lights"),
+  sw_ice: bit("Anti-ice", "Anti-ice"),
+  sw_sw1: bit("SW1", "User switch 1"),
+  sw_sw2: bit("SW2", "User switch 2"),
+  sw_sw3: bit("SW3", "User switch 3"),
+  sw_sw4: bit("SW4", "User switch 4"),
+  sb_shutdown: bit("Shutdown", "System shutdown"),
+  sb_ers_err: bit("ERS error", "ERS error", OKERR),
+  sb_ers_disarm: bit("ERS disarm", "ERS disarmed"),
+  sb_eng_err: bit("Engine error", "Engine error", OKERR),
+  sb_bat_err: bit("Battery error", "Battery error", OKERR),
+  sb_gen_err: bit("Generator error", "Generator error", OKERR),
+
+  wpidx: f("WPT", "", "Current waypoint index"),
+  rwidx: f("RW", "", "Current runway index"),
+  twidx: f("TW", "", "Current taxiway index"),
+  piidx: f("PI", "", "Current point of interest index"),
+  midx: f("Mission idx", "", "Mission action index"),
+  tgHDG: f("Tangent heading", "deg", "Circle tangent heading"),
+  turnR: f("Turn radius", "m", "Current turn radius"),
+  delta: f("Delta", "m", "Current maneuver delta"),
+  loops: f("Loops", "", "Loops counter"),
+  ETA: f("ETA", "s", "Estimated time of arrival"),
+  mtype: f("Mission type", "", "Current mission leg type"),
+  windSpd: f("Wind speed", "m/s", "Estimated wind speed"),
+  windHdg: f("Wind heading", "deg", "Estimated wind direction"),
+  cas2tas: f("CAS2TAS", "", "Airspeed to true airspeed factor"),
+  rwAdj: f("Runway adjust", "m", "Runway displacement adjustment"),
+  home_lat: f("Home lat", "deg", "Home latitude"),
+  home_lon: f("Home lon", "deg", "Home longitude"),
+  home_hmsl: f("Home HMSL", "m", "Home altitude above mean sea level"),
+  altps_gnd: f("Ground altps", "m", "Barometric altitude at ground level"),
+  errcode: f("Error code", "", "Error code"),
+  stab: f("Stability", "", "Stability index"),
+
+  cam_roll: f("Cam roll", "deg", "Camera roll"),
+  cam_pitch: f("Cam pitch", "deg", "Camera pitch"),
+  cam_yaw: f("Cam yaw", "deg", "Camera yaw"),
+  turret_pitch: f("Turret pitch", "deg", "Turret pitch"),
+  turret_heading: f("Turret heading", "deg", "Turret heading"),
+  turret_armed: bit("Turret armed", "Turret armed"),
+  turret_shoot: bit("Turret shoot", "Turret shooting"),
+  turret_reload: bit("Turret reload", "Turret reloading"),
+  turret_sw1: bit("Turret SW1", "Turret switch 1"),
+  turret_sw2: bit("Turret SW2", "Turret switch 2"),
+  turret_sw3: bit("Turret SW3", "Turret switch 3"),
+  turret_sw4: bit("Turret SW4", "Turret switch 4"),
+
+  pos_north: f("North", "m", "Local position north"),
+  pos_east: f("East", "m", "Local position east"),
+  vel_north: f("Vnorth", "m/s", "Local velocity north"),
+  vel_east: f("Veast", "m/s", "Local velocity east"),
+  homeHDG: f("Home heading", "deg", "Heading to home"),
+  dHome: f("Home distance", "m", "Distance to home"),
+  dWPT: f("WPT distance", "m", "Distance to waypoint"),
+  Vx: f("Vx", "m/s", "Velocity along track"),
+  Vy: f("Vy", "m/s", "Velocity across track"),
+  dx: f("dx", "m", "Distance along track"),
+  dy: f("dy", "m", "Distance across track"),
+  gSpeed: f("Ground speed", "m/s", "Ground speed"),
+  wpHDG: f("WPT heading", "deg", "Heading to waypoint"),
+  rwDelta: f("Runway delta", "m", "Runway alignment offset"),
+  rwDV: f("Runway dV", "m/s", "Runway alignment speed"),
+  dl_period: f("DL period", "ms", "Downlink period"),
+  dl_timestamp: f("DL timestamp", "ms", "Downlink timestamp"),
+  altps: f("Altps", "m", "Barometric altitude"),
+  vario: f("Vario", "m/s", "Barometric variometer"),
+  vcas: f("Vcas", "m/s2", "Airspeed derivative"),
+  denergy: f("dEnergy", "m/s", "Energy derivative"),
+
+  rc_override: bit("RC override", "RC override"),
+  rc_roll: f("RC roll", "", "RC input -1..+1"),
+  rc_pitch: f("RC pitch", "", "RC input -1..+1"),
+  rc_throttle: f("RC throttle", "", "RC input 0..1"),
+  rc_yaw: f("RC yaw", "", "RC input -1..+1"),
+
+  cam_ch: f("Cam channel", "", "Camera channel"),
+  cam_mode: f("Cam mode", "", "Camera control mode"),
+  camcmd_roll: f("Cam cmd roll", "deg", "Commanded camera roll"),
+  camcmd_pitch: f("Cam cmd pitch", "deg", "Commanded camera pitch"),
+  camcmd_yaw: f("Cam cmd yaw", "deg", "Commanded camera yaw"),
+  cam_zoom: f("Cam zoom", "", "Camera zoom 0..1"),
+  cam_focus: f("Cam focus", "", "Camera focus 0..1"),
+  cambias_roll: f("Cam bias roll", "deg/s", "Camera stabilization bias"),
+  cambias_pitch: f("Cam bias pitch", "deg/s", "Camera stabilization bias"),
+  cambias_yaw: f("Cam bias yaw", "deg/s", "Camera stabilization bias"),
+  cam_opt_PF: bit("Cam PF", "Camera picture flip"),
+  cam_opt_NIR: bit("Cam NIR", "Camera near infrared"),
+  cam_opt_DSP: bit("Cam DSP", "Camera display information"),
+  cam_opt_FMI: bit("Cam FMI", "Camera focus mode infinity"),
+  cam_opt_FM: bit("Cam FM", "Camera focus mode manual"),
+  cam_opt_laser: bit("Cam laser", "Camera laser"),
+  cam_src: f("Cam source", "", "Camera video source"),
+  cam_lat: f("Cam lat", "deg", "Camera target latitude"),
+  cam_lon: f("Cam lon", "deg", "Camera target longitude"),
+  cam_hmsl: f("Cam HMSL", "m", "Camera target altitude"),
+  camctr_roll: f("Cam ctr roll", "", "Camera control output"),
+  camctr_pitch: f("Cam ctr pitch", "", "Camera control output"),
+  camctr_yaw: f("Cam ctr yaw", "", "Camera control output"),
+  cam_ctrb_shtr: bit("Cam shutter", "Camera shutter"),
+  cam_ctrb_arm: bit("Cam arm", "Camera armed"),
+  cam_ctrb_rec: bit("Cam rec", "Camera recording"),
+  cam_ctrb_zin: bit("Cam zoom in", "Camera zoom in"),
+  cam_ctrb_zout: bit("Cam zoom out", "Camera zoom out"),
+  cam_ctrb_aux: bit("Cam aux", "Camera auxiliary"),
+  cam_tperiod: f("Cam period", "ms", "Camera shot period"),
+  cam_timestamp: f("Cam timestamp", "ms", "Camera shot timestamp"),
+
+  turretcmd_pitch: f("Turret cmd pitch", "deg", "Commanded turret pitch"),
+  turretcmd_yaw: f("Turret cmd yaw", "deg", "Commanded turret yaw"),
+  turretctr_roll: f("Turret ctr roll", "", "Turret control output"),
+  turretctr_pitch: f("Turret ctr pitch", "", "Turret control output"),
+  turretctr_yaw: f("Turret ctr yaw", "", "Turret control output"),
+  turret_mode: f("Turret mode", "", "Turret control mode"),
+  turretenc_pitch: f("Turret enc pitch", "deg", "Turret encoder pitch"),
+  turretenc_yaw: f("Turret enc yaw", "deg", "Turret encoder yaw"),
+  atscmd_pitch: f("ATS cmd pitch", "deg", "Antenna tracker commanded pitch"),
+  atscmd_yaw: f("ATS cmd yaw", "deg", "Antenna tracker commanded yaw"),
+  atsctr_pitch: f("ATS ctr pitch", "", "Antenna tracker control output"),
+  atsctr_yaw: f("ATS ctr yaw", "", "Antenna tracker control output"),
+  atsenc_pitch: f("ATS enc pitch", "deg", "Antenna tracker encoder pitch"),
+  atsenc_yaw: f("ATS enc yaw", "deg", "Antenna tracker encoder yaw"),
+  ats_mode: f("ATS mode", "", "Antenna tracker mode"),
+  gcu_RSS: f("GCU RSS", "", "GCU modem signal strength 0..1"),
+  gcu_Ve: f("GCU Ve", "V", "GCU voltage"),
+  gcu_MT: f("GCU MT", "C", "GCU modem temperature"),
+};
+
+/** numbered families: userb_1..8, user1..6, VM1..32 */
+function classicNumbered(name: string): FieldMeta | undefined {
+  let m = /^userb_(\d+)$/.exec(name);
+  if (m) return bit(`User bit ${m[1]}`, `User bit ${m[1]}`);
+  m = /^user(\d+)$/.exec(name);
+  if (m) return f(`User ${m[1]}`, "", `User variable ${m[1]}`);
+  m = /^VM(\d+)$/.exec(name);
+  if (m) return f(`VM${m[1]}`, "", `Script variable ${m[1]}`);
+  return undefined;
+}
+
+/** info strings for ApxTlmWriter.emitField: [title, units, type, descr, opts] without trailing blanks */
+export function fieldMetaToInfo(m?: FieldMeta): string[] {
+  if (!m) return [];
+  const info = [m.title, m.units, m.type, m.descr, m.opts].map(s => (s ?? "").trim());
+  while (info.length && !info[info.length - 1]) info.pop();
+  return info;
+}
+
+export function fieldMetaFromInfo(info: string[]): FieldMeta {
+  const [title, units, type, descr, opts] = info;
+  const m: FieldMeta = {};
+  if (title) m.title = title;
+  if (units) m.units = units;
+  if (type) m.type = type;
+  if (descr) m.descr = descr;
+  if (opts) m.opts = opts;
+  return m;
+}
+
+/**
+ * Resolves metadata by field name: built-in classic mandala table, then
+ * whatever node dictionaries declared under the same name.
+ */
+export class FieldMetaResolver {
+  private nodes = new Map<string, FieldMeta>();
+
+  addNodeField(name: string, meta: FieldMeta) {
+    const n = name.trim();
+    if (!n || this.nodes.has(n)) return;
+    this.nodes.set(n, meta);
+  }
+
+  resolve(name: string): FieldMeta | undefined {
+    return CLASSIC[name] ?? classicNumbered(name) ?? this.nodes.get(name);
+  }
+
+  info(name: string): string[] {
+    return fieldMetaToInfo(this.resolve(name));
+  }
+}
+
+/**
+ * SAX-side collector for node dictionary fields, shared by both pipelines.
+ * Handles the telemetry form <field name><type/><title/><units/>..</field>
+ * and the datalink form <field name><struct><type/><descr/><opts/></struct></field>.
+ * Feed it every open/text/close event; it only reacts inside <nodes>.
+ */
+export class NodeFieldCollector {
+  private depth = 0;               // >0 inside <nodes>
+  private fields: Array<{ name: string; meta: FieldMeta; depth: number }> = [];
+  private prop = "";
+  private text = "";
+
+  constructor(private resolver: FieldMetaResolver) {}
+
+  opentag(name: string, attrs: Record<string, any>) {
+    if (!this.depth) {
+      if (name === "nodes") this.depth = 1;
+      return;
+    }
+    this.depth++;
+    if (name === "field" && attrs?.["name"] != null) {
+      this.fields.push({ name: String(attrs["name"]), meta: {}, depth: this.depth });
+      return;
+    }
+    if (this.fields.length && (name === "type" || name === "title" || name === "units" || name === "descr" || name === "opts")) {
+      this.prop = name;
+      this.text = "";
+    }
+  }
+
+  onText(txt: string) {
+    if (this.prop) this.text += txt;
+  }
+
+  closetag(name: string) {
+    if (!this.depth) return;
+    const cur = this.fields[this.fields.length - 1];
+    if (this.prop && name === this.prop && cur) {
+      const v = this.text.trim();
+      if (v) (cur.meta as any)[this.prop] = v;
+      this.prop = "";
+    } else if (name === "field" && cur && cur.depth === this.depth) {
+      this.fields.pop();
+      // datalink descr may be "Section:Description"
+      if (cur.meta.descr?.includes(":")) cur.meta.descr = cur.meta.descr.split(":").pop()!.trim();
+      if (cur.meta.type) cur.meta.type = cur.meta.type.toLowerCase();
+      this.resolver.addNodeField(cur.name, cur.meta);
+    }
+    this.depth--;
+  }
+}
@@ -0,0 +1,169 @@
+import { TlmSink, SinkFactory } from "./tlm-sink";
+import { globToRegExp } from "./glob.util";
+import { Expr, compileExpr } from "./expr";
+
+/**
+ * Field renaming profile, to line up outputs of different firmware
+ * generations. Names on the left are source fields:
+ *  - rename: source → output name
+ *  - merge:  output name ← sources, whichever writes last wins
+ *  - drop:   globs of sources not written (still usable in `derive`)
+ *  - derive: output field = expression over source fields (or derived fields
+ *            listed before it), see compileExpr; a derived name equal to a
+ *            source field replaces that source
+ */
+export type FieldProfile = {
+  rename?: Record<string, string>;
+  merge?: Record<string, string[]>;
+  drop?: string[];
+  derive?: Record<string, string>;
+};
+
+const NAME = /^[A-Za-z_]\w*$/;
+
+/** Throws on malformed entries, bad expressions and conflicting targets; the message names the entry. */
+export function validateFieldProfile(profile: FieldProfile) {
+  if (!profile || typeof profile !== "object" || Array.isArray(profile)) throw new Error("expected an object");
+  for (const k of Object.keys(profile)) {
+    if (!["rename", "merge", "drop", "derive"].includes(k)) throw new Error(`unknown section "${k}" (expected rename, merge, drop, derive)`);
+  }
+  const isMap = (v: unknown) => v === undefined || !!v && typeof v === "object" && !Array.isArray(v);
+  if (!isMap(profile.rename) || !isMap(profile.merge) || !isMap(profile.derive)) throw new Error("rename, merge and derive must be objects");
+  if (profile.drop !== undefined && !(Array.isArray(profile.drop) && profile.drop.every((g) => typeof g === "string"))) {
+    throw new Error("drop must be a list of globs");
+  }
+  for (const [src, out] of Object.entries(profile.rename ?? {})) {
+    if (typeof out !== "string" || !NAME.test(out)) throw new Error(`rename "${src}": expected a field name`);
+  }
+  const merged = new Map<string, string>();
+  for (const [out, srcs] of Object.entries(profile.merge ?? {})) {
+    if (!NAME.test(out)) throw new Error(`merge "${out}": not a field name`);
+    if (!Array.isArray(srcs) || !srcs.every((s) => typeof s === "string")) throw new Error(`merge "${out}": expected a list of fields`);
+    for (const s of srcs) {
+      const prev = merged.get(s) ?? profile.rename?.[s];
+      if (prev !== undefined && prev !== out) throw new Error(`merge "${out}": "${s}" already goes to "${prev}"`);
+      merged.set(s, out);
+    }
+  }
+  for (const [out, src] of Object.entries(profile.derive ?? {})) {
+    if (!NAME.test(out)) throw new Error(`derive "${out}": not a field name`);
+    if (typeof src !== "string") throw new Error(`derive "${out}": expected an expression`);
+    if (Object.values(profile.rename ?? {}).includes(out) || profile.merge?.[out]) throw new Error(`derive "${out}": also a rename/merge target`);
+    let expr: Expr;
+    try { expr = compileExpr(src); } catch (e: any) { throw new Error(`derive "${out}": ${e.message}`); }
+    if (!expr.fields.length) throw new Error(`derive "${out}": reads no field`);
+  }
+}
+
+type Derived = { name: string; expr: Expr; out: number; inputs: Set<string> };
+
+/**
+ * TlmSink decorator applying a FieldProfile: source fields are renumbered
+ * onto the kept/renamed/merged outputs, derived fields are declared once
+ * their inputs are and written at the end of every timestamp an input
+ * changed at; those calling time functions are evaluated at every timestamp
+ * and written when their value changes. Uplinked values are passed on but
+ * never read by derived fields.
+ */
+export class FieldProfileSink implements TlmSink {
+  private target = new Map<string, string>();   // source → output name
+  private drops: RegExp[];
+  private derived: Derived[];
+
+  private outIndex = new Map<string, number>();
+  private srcOut: number[] = [];                // source index → output index, -1 when not written
+  private srcName: string[] = [];
+  private values = new Map<string, number>();   // last downlink value of every source field
+  private derivedValues = new Map<string, number>();
+  private dirty = new Set<Derived>();
+  private timed: Derived[];
+  private ts = 0;
+
+  constructor(private inner: TlmSink, profile: FieldProfile, private info: (name: string) => string[] = () => []) {
+    for (const [src, out] of Object.entries(profile.rename ?? {})) this.target.set(src, out);
+    for (const [out, srcs] of Object.entries(profile.merge ?? {})) for (const s of srcs) this.target.set(s, out);
+    this.drops = (profile.drop ?? []).map(globToRegExp);
+    this.derived = Object.entries(profile.derive ?? {}).map(([name, src]) => {
+      const expr = compileExpr(src);
+      return { name, expr, out: -1, inputs: new Set(expr.fields) };
+    });
+    this.timed = this.derived.filter((d) => d.expr.timed);
+  }
+
+  writeHeaderPlaceholder() { this.inner.writeHeaderPlaceholder(); }
+  emitInfo(info: any) { this.inner.emitInfo(info); }
+  emitEvtId(name: string, keys: string[]) { this.inner.emitEvtId(name, keys); }
+  emitEvt(evIndex: number, values: string[]) { this.inner.emitEvt(evIndex, values); }
+  emitJso(name: string, obj: any, ts?: number) { this.inner.emitJso(name, obj, ts); }
+
+  private declare(name: string, info: string[]): number {
+    let o = this.outIndex.get(name);
+    if (o === undefined) {
+      o = this.outIndex.size;
+      this.outIndex.set(name, o);
+      this.inner.emitField(name, info);
+    }
+    return o;
+  }
+
+  emitField(name: string, info: string[] = []) {
+    const idx = this.srcName.push(name) - 1;
+    const out = this.target.get(name);
+    const replaced = out === undefined && this.derived.some((d) => d.name === name);
+    const dropped = out === undefined && this.drops.some((re) => re.test(name));
+    this.srcOut[idx] = replaced || dropped ? -1 : this.declare(out ?? name, info);
+
+    // derived fields go out with their last input
+    const known = new Set(this.srcName);
+    for (const d of this.derived) {
+      if (d.out < 0 && [...d.inputs].every((f) => known.has(f))) d.out = this.declare(d.name, this.info(d.name));
+      if (d.out >= 0) known.add(d.name);
+    }
+  }
+
+  emitTs(ms: number) {
+    this.flush();
+    this.ts = ms;
+    this.inner.emitTs(ms);
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    const name = this.srcName[fieldIndex];
+    if (name === undefined) return;
+    if (!uplink) {
+      this.values.set(name, v);
+      for (const d of this.derived) if (d.out >= 0 && d.inputs.has(name)) this.dirty.add(d);
+    }
+    const o = this.srcOut[fieldIndex];
+    if (o >= 0) this.inner.emitNumber(o, v, uplink);
+  }
+
+  /** derived values of the timestamp just ended, in profile order so later fields see earlier ones */
+  private flush() {
+    if (!this.dirty.size && !this.timed.length) return;
+    const get = (f: string) => this.values.get(f) ?? this.derivedValues.get(f);
+    for (const d of this.derived) {
+      const changed = this.dirty.has(d);
+      if (!changed && !(d.expr.timed && d.out >= 0)) continue;
+      const v = d.expr.eval(get, this.ts);
+      if (v === undefined || !Number.isFinite(v)) continue;
+      if (!changed && v === this.derivedValues.get(d.name)) continue;
+      this.derivedValues.set(d.name, v);
+      this.inner.emitNumber(d.out, v, false);
+      for (const e of this.derived) if (e.out >= 0 && e.inputs.has(d.name)) this.dirty.add(e);
+    }
+    this.dirty.clear();
+  }
+
+  finalizeToFile(): Promise<void> {
+    this.flush();
+    return this.inner.finalizeToFile();
+  }
+
+  drained() { return this.inner.drained?.(); }
+}
+
+/** Wrap a factory so every sink it creates writes through `profile`; `info` gives the metadata of derived fields. */
+export function withFieldProfile(factory: SinkFactory, profile: FieldProfile, info?: (name: string) => string[]): SinkFactory {
+  return (outFile, baseTs, utcOffsetSec) => new FieldProfileSink(factory(outFile, baseTs, utcOffsetSec), profile, info);
+}
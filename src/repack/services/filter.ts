@@ -0,0 +1,76 @@
+import { globToRegExp } from "./glob.util";
+
+const EPOCH_2000_MS = Date.UTC(2000, 0, 1);
+
+/**
+ * Part of a recording to repack. Times are ms from the start of the file, or
+ * absolute: an ISO date string or epoch ms. Name lists are globs (`gps_*`);
+ * a leading `!` excludes, and a list of excludes only keeps everything else.
+ */
+export type RepackFilter = {
+  from?: number | string;
+  to?: number | string;
+  fields?: string[];
+  events?: string[];
+};
+
+function compileNames(patterns?: string[]): (name: string) => boolean {
+  if (!patterns?.length) return () => true;
+  const inc = patterns.filter((p) => !p.startsWith("!")).map(globToRegExp);
+  const exc = patterns.filter((p) => p.startsWith("!")).map((p) => globToRegExp(p.slice(1)));
+  return (name) => (!inc.length || inc.some((r) => r.test(name))) && !exc.some((r) => r.test(name));
+}
+
+/** ms from `baseTs` for a --from/--to value */
+export function resolveFilterTime(v: number | string, baseTs: number): number {
+  const s = String(v).trim();
+  const n = /^-?\d+(\.\d+)?$/.test(s) ? Number(s) : Date.parse(s);
+  if (!Number.isFinite(n)) throw new Error(`invalid time "${v}" (ms from start or ISO date)`);
+  return n >= EPOCH_2000_MS ? n - baseTs : n;
+}
+
+/**
+ * Compiled RepackFilter as used by the SAX handlers. Output files start at
+ * `from`: the header timestamp moves by `shift` and times are taken relative
+ * to it. Values seen before `from` are held and written at the first row in
+ * range, so the excerpt starts with the full state.
+ */
+export class TlmFilter {
+  readonly field: (name: string) => boolean;
+  readonly event: (name: string) => boolean;
+  from = -Infinity;
+  to = Infinity;
+  shift = 0;
+
+  private held = new Map<number, number>();
+  private started = false;
+
+  constructor(private spec: RepackFilter = {}) {
+    this.field = compileNames(spec.fields);
+    this.event = compileNames(spec.events);
+    for (const v of [spec.from, spec.to]) if (v !== undefined) resolveFilterTime(v, 0);
+  }
+
+  /** Resolve the time range once the start time is known. */
+  bind(baseTs: number) {
+    if (this.spec.from !== undefined) this.from = resolveFilterTime(this.spec.from, baseTs);
+    if (this.spec.to !== undefined) this.to = resolveFilterTime(this.spec.to, baseTs);
+    this.shift = this.from > 0 ? this.from : 0;
+  }
+
+  time(ts: number): boolean { return ts >= this.from && ts <= this.to; }
+
+  /** remember the last value of an output field seen before the range */
+  hold(outIndex: number, v: number) {
+    if (!this.started) this.held.set(outIndex, v);
+  }
+
+  /** held values, once, at the first row in range */
+  takeHeld(): Array<[number, number]> {
+    if (this.started) return [];
+    this.started = true;
+    const out = [...this.held];
+    this.held.clear();
+    return out;
+  }
+}
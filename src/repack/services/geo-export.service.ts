@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+
+export type GeoExportOptions = {
+  format?: "geojson" | "kml";
+  altitudeMode?: "absolute" | "relativeToGround" | "clampToGround";  // KML only
+  latField?: string;    // default gps_lat
+  lonField?: string;    // default gps_lon
+  altField?: string;    // default gps_hmsl
+  homeAltField?: string; // default home_hmsl: elevation mission altitudes are relative to
+  events?: string[];    // event names to mark on the track (default: msg)
+};
+
+type GeoPoint = { lon: number; lat: number; alt: number };
+type MissionPoint = GeoPoint & { rel?: boolean };     // rel: alt is above home
+type Marker = MissionPoint & { kind: string; name: string; props: Record<string, any> };
+
+function asArray<T = any>(x: any): T[] {
+  if (x == null) return [];
+  return Array.isArray(x) ? x : [x];
+}
+
+function num(x: any): number {
+  const n = Number(typeof x === "object" && x ? x["#text"] : x);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/**
+ * lat/lon/alt from either mission flavour: `altitude` is above home, `hmsl`/`HMSL`
+ * above sea level (0 meaning not set: home elevation).
+ */
+function pointOf(o: any): MissionPoint | null {
+  const lat = num(o?.lat ?? o?.latitude);
+  const lon = num(o?.lon ?? o?.longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  const rel = num(o?.altitude);
+  if (Number.isFinite(rel)) return { lat, lon, alt: rel, rel: true };
+  const hmsl = num(o?.hmsl ?? o?.HMSL);
+  if (Number.isFinite(hmsl) && hmsl !== 0) return { lat, lon, alt: hmsl };
+  return { lat, lon, alt: 0, rel: true };
+}
+
+function xmlEsc(s: string): string {
+  return s.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[c]!));
+}
+
+/**
+ * Flight path export: GPS track from lat/lon/hmsl fields, mission objects
+ * (home, runways, waypoints, POIs) and event markers, as GeoJSON or KML.
+ */
+export class GeoSink implements TlmSink {
+  private names: string[] = [];
+  private idx = { lat: -1, lon: -1, alt: -1, home: -1 };
+  private homeHmsl?: number;           // mission home
+  private homeAlt?: number;            // last home altitude field value, when the mission has no home
+  private pos: Partial<GeoPoint> = {};
+  private dirty = false;
+  private curTs = 0;
+
+  private track: Array<GeoPoint & { t: number }> = [];
+  private markers: Marker[] = [];
+  private pending: Array<Omit<Marker, keyof GeoPoint>> = [];
+
+  private evtKeys: string[][] = [];
+  private evtNames: string[] = [];
+  private title: string;
+
+  constructor(private outFile: string, private baseTs: number, private opts: GeoExportOptions = {}) {
+    this.title = path.parse(outFile).name;
+  }
+
+  private get format() { return this.opts.format ?? "geojson"; }
+
+  writeHeaderPlaceholder() {}
+
+  emitInfo(info: any) {
+    if (info?.title) this.title = String(info.title);
+  }
+
+  emitField(name: string, _info: string[] = []) {
+    const i = this.names.length;
+    this.names.push(name);
+    if (name === (this.opts.latField ?? "gps_lat")) this.idx.lat = i;
+    if (name === (this.opts.lonField ?? "gps_lon")) this.idx.lon = i;
+    if (name === (this.opts.altField ?? "gps_hmsl")) this.idx.alt = i;
+    if (name === (this.opts.homeAltField ?? "home_hmsl")) this.idx.home = i;
+  }
+
+  emitEvtId(name: string, keys: string[]) {
+    this.evtNames.push(name);
+    this.evtKeys.push(keys);
+  }
+
+  emitTs(ms: number) {
+    this.commitPoint();
+    this.curTs = ms;
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    if (uplink) return;
+    if (fieldIndex === this.idx.home && v !== 0) this.homeAlt = v;
+    if (fieldIndex === this.idx.lat) this.pos.lat = v;
+    else if (fieldIndex === this.idx.lon) this.pos.lon = v;
+    else if (fieldIndex === this.idx.alt) this.pos.alt = v;
+    else return;
+    this.dirty = true;
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    const name = this.evtNames[evIndex];
+    if (!name || !(this.opts.events ?? ["msg"]).includes(name)) return;
+    const props: Record<string, any> = {};
+    (this.evtKeys[evIndex] ?? []).forEach((k, i) => { props[k] = values[i] ?? ""; });
+    this.addMarker("event", props.text || name, props);
+  }
+
+  emitJso(name: string, obj: any, _ts?: number) {
+    if (name === "mission") this.addMission(obj);
+    // datalink messages are plain <msg node_name="..">text</msg> objects
+    else if ((this.opts.events ?? ["msg"]).includes(name)) {
+      const text = typeof obj === "object" && obj ? String(obj["#text"] ?? "") : String(obj ?? "");
+      const props: Record<string, any> = { text };
+      for (const [k, v] of Object.entries(typeof obj === "object" && obj ? obj : {})) {
+        if (k.startsWith("@_")) props[k.slice(2)] = v;
+      }
+      this.addMarker("event", text || name, props);
+    }
+  }
+
+  private validFix(): boolean {
+    const { lat, lon } = this.pos;
+    return lat !== undefined && lon !== undefined && !(lat === 0 && lon === 0);
+  }
+
+  private commitPoint() {
+    if (!this.dirty || !this.validFix()) return;
+    this.dirty = false;
+    const p = { lat: this.pos.lat!, lon: this.pos.lon!, alt: this.pos.alt ?? 0, t: this.curTs };
+    this.track.push(p);
+    for (const m of this.pending.splice(0)) this.markers.push({ ...m, lat: p.lat, lon: p.lon, alt: p.alt });
+  }
+
+  private addMarker(kind: string, name: string, props: Record<string, any>) {
+    const m = { kind, name, props: { ...props, t: this.curTs, time: new Date(this.baseTs + this.curTs).toISOString() } };
+    if (this.validFix()) this.markers.push({ ...m, lat: this.pos.lat!, lon: this.pos.lon!, alt: this.pos.alt ?? 0 });
+    else this.pending.push(m);
+  }
+
+  private addMission(m: any) {
+    const title = m?.title ?? m?.["@_title"] ?? m?.info?.title;
+    const home = pointOf(m?.home);
+    if (home) this.markers.push({ ...home, kind: "home", name: "home", props: {} });
+    if (home && !home.rel) this.homeHmsl = home.alt;
+
+    const add = (kind: string, list: any[], label: string) => {
+      list.forEach((o, i) => {
+        const p = pointOf(o);
+        if (!p) return;
+        const id = o?.["@_id"] ?? o?.["@_idx"] ?? i;
+        const props: Record<string, any> = { mission: title, index: Number(id) };
+        if (o?.type != null) props.type = String(o.type);
+        this.markers.push({ ...p, kind, name: `${label}${id}`, props });
+      });
+    };
+    add("runway", asArray(m?.runways?.runway), "RW");
+    add("waypoint", asArray(m?.waypoints?.waypoint), "WPT");
+    add("poi", [...asArray(m?.points?.point), ...asArray(m?.pois?.poi)], "POI");
+    add("taxiway", asArray(m?.taxiways?.taxiway), "TW");
+  }
+
+  /**
+   * Mission points above home go out above sea level when the home elevation
+   * is known; otherwise they keep their relative altitude and are marked
+   * relativeToGround.
+   */
+  private resolvedMarkers(): Marker[] {
+    const home = this.homeHmsl ?? this.homeAlt;
+    return this.markers.map((m) => {
+      if (!m.rel) return m;
+      if (home === undefined) return { ...m, props: { ...m.props, altitudeMode: "relativeToGround" } };
+      return { ...m, alt: m.alt + home, rel: false, props: { ...m.props, altitude: m.alt } };
+    });
+  }
+
+  private toGeoJson(): any {
+    const features: any[] = [];
+    if (this.track.length) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: this.track.map(p => [p.lon, p.lat, p.alt]) },
+        properties: {
+          kind: "track",
+          name: this.title,
+          t: this.track.map(p => p.t),
+          coordTimes: this.track.map(p => new Date(this.baseTs + p.t).toISOString()),
+        },
+      });
+    }
+    for (const m of this.resolvedMarkers()) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [m.lon, m.lat, m.alt] },
+        properties: { kind: m.kind, name: m.name, ...m.props },
+      });
+    }
+    return { type: "FeatureCollection", name: this.title, features };
+  }
+
+  private toKml(): string {
+    const mode = this.opts.altitudeMode ?? "absolute";
+    const coord = (p: GeoPoint) => `${p.lon},${p.lat},${p.alt}`;
+    const out: string[] = [];
+    out.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+    out.push(`<kml xmlns="http://www.opengis.net/kml/2.2">`);
+    out.push(`<Document>`);
+    out.push(`<name>${xmlEsc(this.title)}</name>`);
+    if (this.track.length) {
+      out.push(`<Placemark>`);
+      out.push(`<name>${xmlEsc(this.title)}</name>`);
+      out.push(`<TimeSpan><begin>${new Date(this.baseTs + this.track[0].t).toISOString()}</begin>` +
+        `<end>${new Date(this.baseTs + this.track[this.track.length - 1].t).toISOString()}</end></TimeSpan>`);
+      out.push(`<LineString><altitudeMode>${mode}</altitudeMode><coordinates>`);
+      for (const p of this.track) out.push(coord(p));
+      out.push(`</coordinates></LineString>`);
+      out.push(`</Placemark>`);
+    }
+    const markers = this.resolvedMarkers();
+    const kinds = [...new Set(markers.map(m => m.kind))];
+    for (const kind of kinds) {
+      out.push(`<Folder><name>${xmlEsc(kind)}</name>`);
+      for (const m of markers.filter(x => x.kind === kind)) {
+        const descr = Object.entries(m.props).map(([k, v]) => `${k}: ${v}`).join("\n");
+        out.push(`<Placemark><name>${xmlEsc(m.name)}</name><description>${xmlEsc(descr)}</description>` +
+          (m.props.time ? `<TimeStamp><when>${m.props.time}</when></TimeStamp>` : "") +
+          `<Point><altitudeMode>${m.rel ? "relativeToGround" : mode}</altitudeMode><coordinates>${coord(m)}</coordinates></Point></Placemark>`);
+      }
+      out.push(`</Folder>`);
+    }
+    out.push(`</Document>`);
+    out.push(`</kml>`);
+    return out.join("\n") + "\n";
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.commitPoint();
+    await fs.promises.mkdir(path.dirname(this.outFile), { recursive: true });
+    const body = this.format === "kml" ? this.toKml() : JSON.stringify(this.toGeoJson(), null, 1);
+    await fs.promises.writeFile(this.outFile, body);
+  }
+}
+
+export function createGeoSink(opts: GeoExportOptions = {}): SinkFactory {
+  return (outFile, baseTs) => new GeoSink(outFile, baseTs, opts);
+}
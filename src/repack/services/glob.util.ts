@@ -0,0 +1,31 @@
+/**
+ * Minimal glob → RegExp: `**` any path, `*` any chars but '/', `?` one char,
+ * `{a,b}` alternatives. Patterns without '/' match the base name only.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let depth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        if (glob[i + 1] === "/") { i++; re += "(?:.*/)?"; }
+        else re += ".*";
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") re += "[^/]";
+    else if (c === "{") { depth++; re += "(?:"; }
+    else if (c === "}" && depth > 0) { depth--; re += ")"; }
+    else if (c === "," && depth > 0) re += "|";
+    else re += c.replace(/[.+^$(){}|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+/** true when relPath (posix separators) matches any of the patterns */
+export function matchAny(relPath: string, patterns: string[]): boolean {
+  const base = relPath.split("/").pop() ?? relPath;
+  return patterns.some(p => globToRegExp(p).test(p.includes("/") ? relPath : base));
+}
@@ -1,6 +1,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import { createHash } from "crypto";
+import { stripCompressionExt } from "./compressed";
+import { FileKind } from "../sniff.service";
 
 export type InfoObject = {
   conf?: string;
@@ -11,15 +13,40 @@ export type InfoObject = {
   import?: {
     name: string;
     title: string;
-    format: "telemetry" | "datalink";
+    format: FileKind;
     timestamp?: string | number;
     exported?: string | number;
+    stats?: Record<string, number | string>;   // as the source export counted them
   };
+  comment?: string;
   timestamp?: number;      // ms (epoch)
   utc_offset?: number;     // seconds (matches APXTLM header)
   hash?: string;
 };
 
+/**
+ * Header metadata of the source export, collected while streaming: the
+ * .telemetry header elements, the datalink root attributes and <mandala>.
+ */
+export type SourceMeta = {
+  title?: string;
+  timestamp?: number;      // ms (epoch)
+  exported?: number;       // ms (epoch)
+  version?: string;        // software that wrote the export
+  swHash?: string;
+  host?: { hostname?: string; uid?: string; username?: string };
+  callsign?: string;
+  comment?: string;
+  hash?: string;           // data hash from <stats>
+  stats?: Record<string, number | string>;
+};
+
+/** epoch ms of an export date (`01 Aug 2025 03:46:38 -0400`, ISO, or ms) */
+export function parseExportDate(s: string): number | undefined {
+  const t = /^\d+$/.test(s) ? Number(s) : Date.parse(s);
+  return Number.isFinite(t) ? t : undefined;
+}
+
 /** async md5 of a file */
 export function md5File(filePath: string): Promise<string> {
   return new Promise<string>((resolve, reject) => {
@@ -39,43 +66,53 @@ export function md5FileSync(filePath: string): string {
 }
 
 /**
- * Build minimal 'info' block used by ground for naming and meta.
+ * Build the 'info' block used by ground for naming and meta; `source` is
+ * what the input's own header says (callsign, machine, software version).
  * utcOffsetSeconds must be in seconds and matches APXTLM header.
  */
 export function buildInfoForInput(
   inputFile: string,
-  kind: "telemetry" | "datalink",
+  kind: FileKind,
   baseTsMs: number,
   {
     conf = undefined,
     unitName = undefined,
     unitType = "UAV",
     unitUid = undefined,
+    source = {},
   }: {
     conf?: string;
     unitName?: string;
     unitType?: string;
     unitUid?: string;
+    source?: SourceMeta;
   } = {},
   utcOffsetSeconds: number = 0
 ): InfoObject {
   const name = path.basename(inputFile);
-  const title = path.parse(inputFile).name;
+  const title = path.parse(stripCompressionExt(inputFile)).name;
+
+  unitName ??= source.callsign;
+  const host = source.host && Object.values(source.host).some(Boolean) ? source.host : undefined;
 
   const info: InfoObject = {
     conf,
-    sw: undefined,
-    host: undefined,
+    sw: source.version || source.swHash ? { version: source.version, hash: source.swHash } : undefined,
+    host,
     title,
     unit: (unitName || unitUid)
       ? { name: unitName, time: baseTsMs >>> 0, type: unitType, uid: unitUid }
       : undefined,
     import: {
       name,
-      title,
+      title: source.title || title,
       format: kind,
-      timestamp: baseTsMs,
+      timestamp: source.timestamp ?? baseTsMs,
+      exported: source.exported,
+      stats: source.stats,
     },
+    comment: source.comment,
+    hash: source.hash,
     timestamp: baseTsMs >>> 0,
     utc_offset: utcOffsetSeconds | 0,
   };
@@ -0,0 +1,141 @@
+/**
+ * Target of a log message field: an APX mandala field, written as
+ * `raw * scale + offset`; raw values equal to `skip` mean "not available".
+ */
+export type LogFieldTarget = { field: string; scale?: number; offset?: number; skip?: number };
+
+/**
+ * Mapping of binary log fields (`MESSAGE.field`) onto mandala names, by
+ * target name or full target. Entries of a user table replace the defaults
+ * of the same key; `null` drops a default.
+ */
+export type LogFieldMap = Record<string, string | LogFieldTarget | null>;
+
+const DEG = 180 / Math.PI;
+const RC = { scale: 0.002, offset: -3 };         // 1000..2000 µs → -1..1
+const RC_THR = { scale: 0.001, offset: -1 };     // 1000..2000 µs → 0..1
+
+/** MAVLink messages (SI units, scaled integers) */
+export const MAVLINK_FIELD_MAP: LogFieldMap = {
+  "ATTITUDE.roll": { field: "roll", scale: DEG },
+  "ATTITUDE.pitch": { field: "pitch", scale: DEG },
+  "ATTITUDE.yaw": { field: "yaw", scale: DEG },
+  "ATTITUDE.rollspeed": { field: "p", scale: DEG },
+  "ATTITUDE.pitchspeed": { field: "q", scale: DEG },
+  "ATTITUDE.yawspeed": { field: "r", scale: DEG },
+  "GLOBAL_POSITION_INT.lat": { field: "gps_lat", scale: 1e-7 },
+  "GLOBAL_POSITION_INT.lon": { field: "gps_lon", scale: 1e-7 },
+  "GLOBAL_POSITION_INT.alt": { field: "gps_hmsl", scale: 0.001 },
+  "GLOBAL_POSITION_INT.relative_alt": { field: "altitude", scale: 0.001 },
+  "GLOBAL_POSITION_INT.vx": { field: "gps_Vnorth", scale: 0.01 },
+  "GLOBAL_POSITION_INT.vy": { field: "gps_Veast", scale: 0.01 },
+  "GLOBAL_POSITION_INT.vz": { field: "gps_Vdown", scale: 0.01 },
+  "GPS_RAW_INT.satellites_visible": { field: "gps_SU", skip: 255 },
+  "VFR_HUD.airspeed": "airspeed",
+  "VFR_HUD.groundspeed": "gSpeed",
+  "VFR_HUD.climb": "vspeed",
+  "VFR_HUD.throttle": { field: "ctr_throttle", scale: 0.01 },
+  "SYS_STATUS.voltage_battery": { field: "Vp", scale: 0.001, skip: 0xFFFF },
+  "SYS_STATUS.current_battery": { field: "Ip", scale: 0.01, skip: -1 },
+  "RC_CHANNELS.chan1_raw": { field: "rc_roll", ...RC, skip: 0xFFFF },
+  "RC_CHANNELS.chan2_raw": { field: "rc_pitch", ...RC, skip: 0xFFFF },
+  "RC_CHANNELS.chan3_raw": { field: "rc_throttle", ...RC_THR, skip: 0xFFFF },
+  "RC_CHANNELS.chan4_raw": { field: "rc_yaw", ...RC, skip: 0xFFFF },
+  "RC_CHANNELS_RAW.chan1_raw": { field: "rc_roll", ...RC, skip: 0xFFFF },
+  "RC_CHANNELS_RAW.chan2_raw": { field: "rc_pitch", ...RC, skip: 0xFFFF },
+  "RC_CHANNELS_RAW.chan3_raw": { field: "rc_throttle", ...RC_THR, skip: 0xFFFF },
+  "RC_CHANNELS_RAW.chan4_raw": { field: "rc_yaw", ...RC, skip: 0xFFFF },
+};
+
+/** ArduPilot DataFlash messages (format multipliers applied: degrees, metres, m/s) */
+export const DATAFLASH_FIELD_MAP: LogFieldMap = {
+  "ATT.Roll": "roll",
+  "ATT.Pitch": "pitch",
+  "ATT.Yaw": "yaw",
+  "ATT.DesRoll": "cmd_roll",
+  "ATT.DesPitch": "cmd_pitch",
+  "ATT.DesYaw": "cmd_yaw",
+  "IMU.GyrX": { field: "p", scale: DEG },
+  "IMU.GyrY": { field: "q", scale: DEG },
+  "IMU.GyrZ": { field: "r", scale: DEG },
+  "IMU.AccX": "Ax",
+  "IMU.AccY": "Ay",
+  "IMU.AccZ": "Az",
+  "GPS.Lat": "gps_lat",
+  "GPS.Lng": "gps_lon",
+  "GPS.Alt": "gps_hmsl",
+  "GPS.Spd": "gSpeed",
+  "GPS.GCrs": "course",
+  "GPS.VZ": "gps_Vdown",
+  "GPS.NSats": "gps_SU",
+  "BARO.Alt": "altitude",
+  "ARSP.Airspeed": "airspeed",
+  "CTUN.ThO": "ctr_throttle",
+  "BAT.Volt": "Vp",
+  "BAT.Curr": "Ip",
+  "CURR.Volt": "Vp",
+  "CURR.Curr": "Ip",
+  "RCIN.C1": { field: "rc_roll", ...RC },
+  "RCIN.C2": { field: "rc_pitch", ...RC },
+  "RCIN.C3": { field: "rc_throttle", ...RC_THR },
+  "RCIN.C4": { field: "rc_yaw", ...RC },
+};
+
+/** Throws on malformed entries; the message names the entry. */
+export function validateLogFieldMap(map: LogFieldMap) {
+  if (!map || typeof map !== "object" || Array.isArray(map)) throw new Error("expected an object of MESSAGE.field keys");
+  for (const [key, t] of Object.entries(map)) {
+    if (!/^[^.\s]+\.[^.\s]+$/.test(key)) throw new Error(`"${key}": expected a MESSAGE.field key`);
+    if (t === null || typeof t === "string" && t.trim()) continue;
+    if (!t || typeof t !== "object" || typeof t.field !== "string" || !t.field.trim()) {
+      throw new Error(`"${key}": expected a field name, {"field": …} or null`);
+    }
+    for (const k of ["scale", "offset", "skip"] as const) {
+      if (t[k] !== undefined && !(typeof t[k] === "number" && Number.isFinite(t[k]))) throw new Error(`"${key}": ${k} must be a number`);
+    }
+  }
+}
+
+type Target = { src: string; idx: number; scale: number; offset: number; skip?: number };
+
+/**
+ * Compiled mapping of one log. Every target is an output field from the
+ * start, in table order: exports fix their columns at the first row.
+ */
+export class LogFieldMapper {
+  readonly fields: string[] = [];
+  private byMsg = new Map<string, Target[]>();
+
+  constructor(defaults: LogFieldMap, overrides: LogFieldMap = {}) {
+    for (const [key, t] of Object.entries({ ...defaults, ...overrides })) {
+      if (t === null) continue;
+      const { field, scale = 1, offset = 0, skip } = typeof t === "string" ? { field: t } as LogFieldTarget : t;
+      const name = field.trim();
+      let idx = this.fields.indexOf(name);
+      if (idx < 0) idx = this.fields.push(name) - 1;
+      const dot = key.indexOf(".");
+      const msg = key.slice(0, dot);
+      const list = this.byMsg.get(msg) ?? [];
+      list.push({ src: key.slice(dot + 1), idx, scale, offset, skip });
+      this.byMsg.set(msg, list);
+    }
+  }
+
+  /** true when some field of `msg` is mapped (worth decoding) */
+  has(msg: string): boolean {
+    return this.byMsg.has(msg);
+  }
+
+  /** row cells (by output field index) from the decoded message; undefined when nothing maps */
+  row(msg: string, values: Record<string, number | string>): Array<number | undefined> | undefined {
+    const targets = this.byMsg.get(msg);
+    if (!targets) return undefined;
+    let cells: Array<number | undefined> | undefined;
+    for (const t of targets) {
+      const v = values[t.src];
+      if (typeof v !== "number" || !Number.isFinite(v) || v === t.skip) continue;
+      (cells ??= [])[t.idx] = v * t.scale + t.offset;
+    }
+    return cells;
+  }
+}
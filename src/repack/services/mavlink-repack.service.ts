@@ -0,0 +1,179 @@
+import * as path from "path";
+import { log } from "../log";
+import { RepackSource, RepackRunOptions, scanSource } from "./source";
+import { FormatAdapter, TlmStreamCore } from "./stream-core";
+import { LogFieldMapper, MAVLINK_FIELD_MAP } from "./log-mapping";
+
+/* ---------- MAVLink telemetry log (.tlog): u64 BE µs timestamp + MAVLink v1/v2 packet ---------- */
+
+const V1 = 0xFE;
+const V2 = 0xFD;
+const GCS_SYSID = 255;
+const SIGNED = 0x01;          // v2 incompat flag: 13-byte signature after the checksum
+const TLOG_MIN_US = Date.UTC(2000, 0, 1) * 1000;
+const TLOG_MAX_US = Date.UTC(2100, 0, 1) * 1000;
+const SEVERITY = ["emergency", "alert", "critical", "error", "warning", "notice", "info", "debug"];
+
+type FieldType = "u8" | "i8" | "u16" | "i16" | "u32" | "i32" | "u64" | "f32" | "char";
+type MsgField = { name: string; type: FieldType; off: number; size: number };
+type MsgDef = { name: string; crcExtra: number; maxLen: number; fields: MsgField[] };
+
+const SIZES: Record<string, number> = { u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, u64: 8, f32: 4 };
+
+/** fields as `name:type` in wire order (largest types first), extension fields after the base payload */
+function def(name: string, crcExtra: number, base: string, ext = ""): MsgDef {
+  const fields: MsgField[] = [];
+  let off = 0;
+  const add = (spec: string) => {
+    for (const tok of spec.split(/\s+/).filter(Boolean)) {
+      const [n, t] = tok.split(":");
+      const chars = /^char\[(\d+)\]$/.exec(t);
+      const size = chars ? Number(chars[1]) : SIZES[t];
+      fields.push({ name: n, type: chars ? "char" : t as FieldType, off, size });
+      off += size;
+    }
+  };
+  add(base);
+  add(ext);
+  return { name, crcExtra, maxLen: off, fields };
+}
+
+const list = (fmt: (i: number) => string, n: number) => Array.from({ length: n }, (_, i) => fmt(i + 1)).join(" ");
+
+/** the messages the mapping tables can draw from, by message id */
+const MESSAGES = new Map<number, MsgDef>([
+  [0, def("HEARTBEAT", 50, "custom_mode:u32 type:u8 autopilot:u8 base_mode:u8 system_status:u8 mavlink_version:u8")],
+  [1, def("SYS_STATUS", 124,
+    "onboard_control_sensors_present:u32 onboard_control_sensors_enabled:u32 onboard_control_sensors_health:u32 load:u16 " +
+    "voltage_battery:u16 current_battery:i16 drop_rate_comm:u16 errors_comm:u16 " +
+    "errors_count1:u16 errors_count2:u16 errors_count3:u16 errors_count4:u16 battery_remaining:i8")],
+  [24, def("GPS_RAW_INT", 24,
+    "time_usec:u64 lat:i32 lon:i32 alt:i32 eph:u16 epv:u16 vel:u16 cog:u16 fix_type:u8 satellites_visible:u8",
+    "alt_ellipsoid:i32 h_acc:u32 v_acc:u32 vel_acc:u32 hdg_acc:u32 yaw:u16")],
+  [30, def("ATTITUDE", 39, "time_boot_ms:u32 roll:f32 pitch:f32 yaw:f32 rollspeed:f32 pitchspeed:f32 yawspeed:f32")],
+  [33, def("GLOBAL_POSITION_INT", 104, "time_boot_ms:u32 lat:i32 lon:i32 alt:i32 relative_alt:i32 vx:i16 vy:i16 vz:i16 hdg:u16")],
+  [35, def("RC_CHANNELS_RAW", 244, `time_boot_ms:u32 ${list((i) => `chan${i}_raw:u16`, 8)} port:u8 rssi:u8`)],
+  [36, def("SERVO_OUTPUT_RAW", 222, `time_usec:u32 ${list((i) => `servo${i}_raw:u16`, 8)} port:u8`,
+    list((i) => `servo${i + 8}_raw:u16`, 8))],
+  [65, def("RC_CHANNELS", 118, `time_boot_ms:u32 ${list((i) => `chan${i}_raw:u16`, 18)} chancount:u8 rssi:u8`)],
+  [74, def("VFR_HUD", 20, "airspeed:f32 groundspeed:f32 alt:f32 climb:f32 heading:i16 throttle:u16")],
+  [253, def("STATUSTEXT", 83, "severity:u8 text:char[50]", "id:u16 chunk_seq:u8")],
+]);
+
+/** MAVLink checksum (CRC-16/MCRF4XX) of `b`, then the message's CRC_EXTRA */
+function crc16(b: Buffer, extra: number): number {
+  let crc = 0xFFFF;
+  const acc = (x: number) => {
+    let t = (x ^ crc) & 0xFF;
+    t = (t ^ (t << 4)) & 0xFF;
+    crc = ((crc >> 8) ^ (t << 8) ^ (t << 3) ^ (t >> 4)) & 0xFFFF;
+  };
+  for (let i = 0; i < b.length; i++) acc(b[i]);
+  acc(extra);
+  return crc;
+}
+
+function decode(d: MsgDef, payload: Buffer, v2: boolean): Record<string, number | string> {
+  // v2 drops trailing zero bytes, extensions included
+  const p = v2 && payload.length < d.maxLen ? Buffer.concat([payload, Buffer.alloc(d.maxLen - payload.length)]) : payload;
+  const out: Record<string, number | string> = {};
+  for (const f of d.fields) {
+    if (f.off + f.size > p.length) break;     // v1: no extensions
+    switch (f.type) {
+      case "u8": out[f.name] = p.readUInt8(f.off); break;
+      case "i8": out[f.name] = p.readInt8(f.off); break;
+      case "u16": out[f.name] = p.readUInt16LE(f.off); break;
+      case "i16": out[f.name] = p.readInt16LE(f.off); break;
+      case "u32": out[f.name] = p.readUInt32LE(f.off); break;
+      case "i32": out[f.name] = p.readInt32LE(f.off); break;
+      case "u64": out[f.name] = Number(p.readBigUInt64LE(f.off)); break;
+      case "f32": out[f.name] = p.readFloatLE(f.off); break;
+      case "char": {
+        const s = p.subarray(f.off, f.off + f.size);
+        const end = s.indexOf(0);
+        out[f.name] = s.toString("utf8", 0, end < 0 ? s.length : end);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+async function readTlog(input: RepackSource, core: TlmStreamCore, opts: RepackRunOptions) {
+  const mapper = new LogFieldMapper(MAVLINK_FIELD_MAP, opts.mapping);
+  core.fields = [...mapper.fields];
+  let baseMs: number | undefined;
+  let vehicle: number | undefined;        // system id the log is about (first to send a mapped message)
+  const chunks = new Map<number, string>(); // long STATUSTEXT in pieces, by id
+  let skipped = 0;
+  let badCrc = 0;
+
+  const handle = (us: number, sysid: number, d: MsgDef, values: Record<string, number | string>) => {
+    if (d.name !== "STATUSTEXT" && !mapper.has(d.name)) return;
+    if (sysid === GCS_SYSID) return;
+    vehicle ??= sysid;
+    if (sysid !== vehicle) return;
+
+    const ts = Math.floor(us / 1000) - baseMs!;
+    if (d.name === "STATUSTEXT") {
+      const piece = String(values.text ?? "");
+      const id = Number(values.id ?? 0);
+      let text = piece;
+      if (id) {
+        text = (chunks.get(id) ?? "") + piece;
+        if (piece.length === 50) {          // no terminator: more chunks follow
+          chunks.set(id, text);
+          return;
+        }
+        chunks.delete(id);
+      }
+      const sev = Number(values.severity);
+      if (text.trim()) core.emitEvent("msg", { severity: SEVERITY[sev] ?? String(sev) }, text, ts);
+    }
+    const cells = mapper.row(d.name, values);
+    if (cells) core.emitRow(ts, cells);
+  };
+
+  const left = await scanSource(input, (buf) => {
+    let p = 0;
+    while (p + 10 <= buf.length) {
+      const magic = buf[p + 8];
+      const us = Number(buf.readBigUInt64BE(p));
+      if (magic !== V1 && magic !== V2 || us < TLOG_MIN_US || us >= TLOG_MAX_US) {
+        p++; skipped++;
+        continue;
+      }
+      const len = buf[p + 9];
+      const hdr = magic === V1 ? 6 : 10;
+      if (p + 8 + hdr > buf.length) break;
+      const total = hdr + len + 2 + (magic === V2 && buf[p + 10] & SIGNED ? 13 : 0);
+      if (p + 8 + total > buf.length) break;
+
+      const pkt = buf.subarray(p + 8, p + 8 + total);
+      const msgid = magic === V1 ? pkt[5] : pkt[7] | pkt[8] << 8 | pkt[9] << 16;
+      const d = MESSAGES.get(msgid);
+      if (d) {
+        if (crc16(pkt.subarray(1, hdr + len), d.crcExtra) !== pkt.readUInt16LE(hdr + len)) {
+          // a damaged packet or no packet at all: look for the next record byte by byte
+          p++; skipped++; badCrc++;
+          continue;
+        }
+        if (baseMs === undefined) {
+          baseMs = Math.floor(us / 1000);
+          core.open(baseMs);
+          core.emitInfo();
+        }
+        handle(us, magic === V1 ? pkt[3] : pkt[5], d, decode(d, pkt.subarray(hdr, hdr + len), magic === V2));
+      }
+      p += 8 + total;
+    }
+    return p;
+  }, () => core.drained());
+
+  const name = path.basename(core.inputFile);
+  if (skipped) log.warn(`[repack][warn] ${name}: ${skipped} bytes skipped looking for MAVLink records (${badCrc} bad checksums)`);
+  if (left) log.warn(`[repack][warn] ${name}: last record truncated (${left} bytes)`);
+  return undefined;
+}
+
+export const tlogAdapter: FormatAdapter = { kind: "tlog", read: readTlog };
@@ -0,0 +1,192 @@
+import { createHash } from "crypto";
+
+/** fields kept per node dictionary (and per field list of the pipelines) */
+export const MAX_FIELDS = 2048;
+
+/* ---------- НОРМАЛИЗАЦИЯ NODES (оба формата) ---------- */
+
+type DictField = { name: string; title: string; type: string };
+type DictBuild = { fields: DictField[]; values: Record<string, any> };
+
+function pushField(out: DictBuild, name: string, title: any, type: any, value: any) {
+  const fname = String(name || "").trim();
+  if (!fname) return;
+  const ftitle = String(title ?? fname);
+  const ftype  = normalizeType(type);
+
+  out.fields.push({ name: fname, title: ftitle, type: ftype });
+
+  if (value !== undefined && value !== null) {
+    const s = String(value).trim();
+    let v: any = s;
+    if (/^(i|u\d*|int)/i.test(ftype) || /^(f|double|float)/i.test(ftype)) {
+      const n = Number(s);
+      v = Number.isFinite(n) ? n : 0;
+    } else if (/^bool/i.test(ftype)) {
+      v = /^(1|true|yes|on)$/i.test(s);
+    }
+    out.values[fname] = v;
+  }
+}
+
+/** вариант А: datalink-style: node.fields.field[] */
+function buildDictFromFlatFields(nodeObj: any): DictBuild | null {
+  let fields = nodeObj?.fields?.field;
+  if (!fields) return null;
+  if (!Array.isArray(fields)) fields = [fields];
+
+  const out: DictBuild = { fields: [], values: {} };
+  let autoIdx = 0;
+
+  for (const f of fields) {
+    const name = f?.name ?? f?.["@_name"] ?? f?.id ?? `f${autoIdx++}`;
+    const title = f?.title ?? name;
+    const type  = normalizeType(f?.struct?.type ?? f?.type ?? "string");
+    const value = f?.value;
+
+    pushField(out, name, title, type, value);
+  }
+  if (!out.fields.length) return null;
+  return out;
+}
+function normalizeType(t: any): string {
+  const s = String(
+    (t?.struct?.type) ?? (t?.type) ?? t ?? "string"
+  ).toLowerCase();
+  // привести «Option»/«enum» к строковому типу, чтобы Ground не спотыкался
+  if (s === "option" || s === "enum") return "string";
+  return s;
+}
+
+/** вариант C: telemetry-style: node.field[] со свойствами {type,title,value,"@_name",...} */
+function buildDictFromNodeFieldArray(nodeObj: any): DictBuild | null {
+  let fields = nodeObj?.field;
+  if (!fields) return null;
+  if (!Array.isArray(fields)) fields = [fields];
+
+  const out: DictBuild = { fields: [], values: {} };
+
+  for (const f of fields) {
+    const name = f?.["@_name"] ?? f?.name ?? f?.id;
+    const title = f?.title ?? name;
+    const type  = normalizeType(f?.type ?? f?.struct?.type);
+    const value = f?.value ?? f?.["#text"];
+
+    if (!name) continue;
+
+    // записываем поле
+    out.fields.push({ name: String(name), title: String(title ?? name), type });
+
+    // и начальное значение, если оно есть
+    if (value !== undefined && value !== null) {
+      const s = String(value).trim();
+      let v: any = s;
+      if (/^(i|u\d*|int)/i.test(type) || /^(f|double|float)/i.test(type)) {
+        const n = Number(s);
+        v = Number.isFinite(n) ? n : 0;
+      } else if (/^bool/i.test(type)) {
+        v = /^(1|true|yes|on)$/i.test(s);
+      }
+      out.values[String(name)] = v;
+    }
+  }
+
+  if (!out.fields.length) return null;
+  return out;
+}
+
+
+/** рекурсивный обход «dictionary» (telemetry-style) */
+function buildDictFromDictionary(dict: any): DictBuild | null {
+  if (!dict || typeof dict !== "object") return null;
+
+  const out: DictBuild = { fields: [], values: {} };
+
+  function walk(node: any) {
+    if (!node || typeof node !== "object") return;
+
+    // частые контейнеры: fields/field, group, item, values, dictionary, …
+    const keys = Object.keys(node);
+    // если это конкретное поле
+    const hasName = node.name ?? node["@_name"];
+    const hasType = (node.struct?.type ?? node.type);
+    if (hasName && hasType) {
+      pushField(
+        out,
+        node.name ?? node["@_name"],
+        node.title ?? node["@_title"] ?? node.name ?? node["@_name"],
+        node.struct?.type ?? node.type,
+        // значение может быть и в node.value, и в #text
+        (node.value ?? node["#text"])
+      );
+      // продолжаем обход — на случай вложенных подсекций
+    }
+
+    for (const k of keys) {
+      const v = (node as any)[k];
+      if (v == null) continue;
+      if (Array.isArray(v)) {
+        for (const it of v) walk(it);
+      } else if (typeof v === "object") {
+        // пропустим явные сервисные/метаданные
+        if (k === "info" || k === "hardware" || k === "version") continue;
+        walk(v);
+      }
+    }
+  }
+
+  walk(dict);
+
+  if (!out.fields.length) return null;
+  return out;
+}
+
+/** универсальная нормализация raw → {nodes:[{info,dict,values,time}]} */
+export function tryNormalizeNodes(raw: any, baseTs: number) {
+  if (!raw || typeof raw !== "object") return null;
+  const nodeObj = raw?.node ?? raw; // иногда узел прямо в корне
+  const ident   = raw.ident || raw.identity || raw.vehicle || raw.identify || {};
+  const uid     = String(ident.uid ?? ident.UID ?? "").trim();
+  const name    = String(ident.callsign ?? ident.name ?? "LOCAL").trim();
+  const type    = String(ident.class ?? ident.type ?? "UAV").trim();
+
+  // version/hardware могут лежать в разных местах
+  const ninfo     = nodeObj?.info || {};
+  const version   = (ninfo.version ?? raw.version) as string | undefined;
+  const hardware1 = ninfo.hardware as string | undefined;
+  const hardware2 = nodeObj?.dictionary?.hardware as string | undefined;
+  const hardware  = hardware1 ?? hardware2;
+
+  // A: datalink-style flat fields
+  let built: DictBuild | null = buildDictFromFlatFields(nodeObj);
+
+  // C: telemetry-style node.field[] 
+  if (!built) built = buildDictFromNodeFieldArray(nodeObj);
+
+  // B: telemetry-style dictionary
+  if (!built) built = buildDictFromDictionary(nodeObj?.dictionary);
+
+  if (!built || built.fields.length === 0) return null;
+
+  // ограничим поля
+  if (built.fields.length > MAX_FIELDS) built.fields.length = MAX_FIELDS;
+
+  // cache по схемe полей
+  const h = createHash("sha1");
+  h.update(JSON.stringify(built.fields));
+  const cache = h.digest("hex").slice(0, 8).toUpperCase();
+
+  const node = {
+    info: {
+      uid, name, type,
+      time: baseTs >>> 0,
+      ...(version ? { version } : {}),
+      ...(hardware ? { hardware } : {}),
+    },
+    dict: { cache, fields: built.fields },
+    values: built.values,
+    time: baseTs >>> 0,
+  };
+
+  return { nodes: [node] };
+}
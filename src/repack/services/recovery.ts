@@ -0,0 +1,88 @@
+import { SAXParser } from "sax";
+
+/** Stretch of the source that did not make it into the output. */
+export type SkippedRange = {
+  from: number;         // offsets into the source text (bytes for ASCII XML)
+  to: number;
+  line: number;         // 1-based line where it starts
+  reason: string;
+};
+
+export type RecoveryReport = {
+  errors: number;       // parser errors resumed after
+  skipped: SkippedRange[];
+  moreSkipped: number;  // ranges beyond the listed ones
+  truncated: boolean;   // input ended inside an element
+};
+
+const MAX_RANGES = 1000;
+
+/**
+ * Bookkeeping for the XML pipelines' recovery mode: the SAX parser is resumed
+ * after every error, the stretch from the error (or from the start of the row
+ * it hit) up to the next well-formed tag counts as skipped, and rows that saw
+ * an error are dropped by the pipeline.
+ */
+export class XmlRecovery {
+  readonly skipped: SkippedRange[] = [];
+  errors = 0;
+  truncated = false;
+  private open?: SkippedRange;
+  private dropped = 0;
+
+  constructor(private p: SAXParser) {}
+
+  /** `from`: start of the capture the error hit, when inside one */
+  error(e: Error, from?: number) {
+    const reason = String(e?.message ?? e).split("\n")[0];
+    // end of input inside an element: the pipeline cuts what is open
+    if (/unclosed root tag|unexpected end/i.test(reason)) {
+      this.truncated = true;
+      return;
+    }
+    this.errors++;
+    if (this.open) return;
+    this.open = { from: from ?? this.p.position, to: this.p.position, line: this.p.line + 1, reason };
+  }
+
+  /** a tag parsed fine: closes the damaged stretch */
+  tag() {
+    if (!this.open) return;
+    this.open.to = this.p.position;
+    this.push(this.open);
+    this.open = undefined;
+  }
+
+  /** record a capture cut off at the end of the input */
+  cut(from: number, line: number, reason: string) {
+    this.truncated = true;
+    this.tag();
+    this.push({ from, to: this.p.position, line, reason });
+  }
+
+  /** at the end of the input; the report, or undefined when nothing went wrong */
+  finish(): RecoveryReport | undefined {
+    this.tag();
+    if (!this.errors && !this.skipped.length && !this.truncated) return undefined;
+    return { errors: this.errors, skipped: this.skipped, moreSkipped: this.dropped, truncated: this.truncated };
+  }
+
+  private push(r: SkippedRange) {
+    const last = this.skipped[this.skipped.length - 1];
+    if (last && r.from <= last.to) {
+      last.to = Math.max(last.to, r.to);
+    } else if (this.skipped.length < MAX_RANGES) {
+      this.skipped.push(r);
+    } else {
+      this.dropped++;
+    }
+  }
+}
+
+/** One log line per skipped stretch plus a summary. */
+export function formatRecovery(r: RecoveryReport): string[] {
+  const out = [`recovered from ${r.errors} parser error(s)${r.truncated ? ", input truncated" : ""}`];
+  for (const s of r.skipped) out.push(`  skipped ${s.from}..${s.to} (line ${s.line}): ${s.reason}`);
+  if (r.moreSkipped) out.push(`  ... ${r.moreSkipped} more`);
+  return out;
+}
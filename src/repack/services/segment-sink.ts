@@ -0,0 +1,212 @@
+import * as path from "path";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+
+/**
+ * Flight segment boundaries, checked while streaming:
+ *  - gap:    no rows for `gapMs`
+ *  - landed: `status_landed` goes 1 → 0 after the segment already flew (next takeoff)
+ *  - mode:   `mode` changes
+ *  - nodes:  a new `nodes` event/object (power cycle, reconfiguration)
+ */
+export type SegmentRule = "gap" | "landed" | "mode" | "nodes";
+
+export const SEGMENT_RULES: readonly SegmentRule[] = ["gap", "landed", "mode", "nodes"];
+
+/** why an output was started; reset/overflow come from the time guard */
+export type SegmentReason = "start" | SegmentRule | "reset" | "overflow";
+
+export type SegmentOptions = {
+  rules?: SegmentRule[];      // none: a single output (the time guard may still split)
+  gapMs?: number;             // default 30000
+};
+
+export type Segment = { output: string; baseTs: number; reason: SegmentReason };
+
+const DEFAULT_GAP_MS = 30000;
+
+/** Output of time-guard split `n` (1 = the requested path). */
+export function segmentPath(outFile: string, n: number): string {
+  if (n <= 1) return outFile;
+  const ext = path.extname(outFile);
+  return path.join(path.dirname(outFile), `${path.basename(outFile, ext)}_seg${n}${ext}`);
+}
+
+/**
+ * TlmSink that can close its output and continue in a fresh one: new header,
+ * info block, re-declared fields and events, and the last value of every
+ * downlink field so each file starts with the full state.
+ *
+ * With segment rules every output is named `<title>_segN` after the info title,
+ * next to the requested path; the first one is opened on the first record.
+ */
+export class SegmentedSink implements TlmSink {
+  readonly segments: Segment[] = [];
+
+  private inner?: TlmSink;
+  private rules: Set<SegmentRule>;
+  private gapMs: number;
+
+  private info: any;
+  private fields: Array<{ name: string; info?: string[] }> = [];
+  private evtids: Array<{ name: string; keys: string[] }> = [];
+  private state = new Map<number, number>();   // last downlink value per field
+  private closing: Array<Promise<void>> = [];
+
+  private offset = 0;         // incoming time of the current segment start
+  private lastTs = -1;        // last incoming time
+  private lastOut = -1;       // last time handed to the inner sink
+  private dirty = false;      // values written since the segment started
+  private pending?: SegmentReason;
+
+  private landedIdx = -1;
+  private modeIdx = -1;
+  private landed?: number;
+  private mode?: number;
+  private flown = false;
+
+  constructor(
+    private factory: SinkFactory,
+    private outFile: string,
+    private baseTs: number,
+    private utcOffsetSec: number,
+    opts: SegmentOptions = {}
+  ) {
+    this.rules = new Set(opts.rules ?? []);
+    this.gapMs = Math.max(0, opts.gapMs ?? DEFAULT_GAP_MS);
+  }
+
+  get outputs(): string[] { return this.segments.map((s) => s.output); }
+
+  writeHeaderPlaceholder() {
+    // headers are written when an output opens
+  }
+
+  emitInfo(info: any) {
+    this.info = info;
+    if (this.inner) this.inner.emitInfo(this.segmentInfo());
+    else this.open("start");
+  }
+
+  emitField(name: string, info?: string[]) {
+    const s = this.sink();    // opened first: a new output re-declares the fields listed so far
+    const i = this.fields.length;
+    this.fields.push({ name, info });
+    if (name === "status_landed") this.landedIdx = i;
+    if (name === "mode") this.modeIdx = i;
+    s.emitField(name, info);
+  }
+
+  emitEvtId(name: string, keys: string[]) {
+    const s = this.sink();
+    this.evtids.push({ name, keys });
+    s.emitEvtId(name, keys);
+  }
+
+  emitTs(ms: number) {
+    this.sink();
+    if (this.rules.has("gap") && this.lastTs >= 0 && ms - this.lastTs > this.gapMs) this.pending ??= "gap";
+    this.lastTs = ms;
+    if (this.pending && this.dirty) this.split(this.pending);
+    this.pending = undefined;
+    this.ts(ms - this.offset);
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    this.sink().emitNumber(fieldIndex, v, uplink);
+    this.dirty = true;
+    if (uplink) return;
+    this.state.set(fieldIndex, v);
+
+    if (fieldIndex === this.landedIdx) {
+      // a takeoff after this segment already flew starts the next flight (applied on the next row)
+      if (this.rules.has("landed") && this.landed === 1 && v === 0 && this.flown) this.pending ??= "landed";
+      if (v === 0) this.flown = true;
+      this.landed = v;
+    } else if (fieldIndex === this.modeIdx) {
+      if (this.rules.has("mode") && this.mode !== undefined && v !== this.mode) this.pending ??= "mode";
+      this.mode = v;
+    }
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    if (this.evtids[evIndex]?.name === "nodes") this.nodesSeen();
+    this.sink().emitEvt(evIndex, values);
+  }
+
+  emitJso(name: string, obj: any, ts?: number) {
+    if (typeof ts === "number") this.emitTs(ts);
+    if (name === "nodes") this.nodesSeen();
+    this.sink().emitJso(name, obj);
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.closing.push(this.sink().finalizeToFile());
+    await Promise.all(this.closing);
+  }
+
+  drained() { return this.inner?.drained?.(); }
+
+  /**
+   * Close the current output and start the next one. Later times are taken
+   * relative to `offset` (default: the current time) in a file stamped `baseTs`
+   * (default: the absolute time of that point).
+   */
+  split(reason: SegmentReason, baseTs?: number, offset?: number) {
+    const at = Math.max(this.lastTs, 0);
+    this.baseTs = baseTs ?? this.baseTs + at - this.offset;
+    this.offset = offset ?? at;
+    this.closing.push(this.sink().finalizeToFile());
+    this.open(reason);
+
+    this.ts(0);
+    for (const [i, v] of this.state) this.inner!.emitNumber(i, v, false);
+    this.dirty = false;
+    this.flown = this.landed === 0;
+    this.pending = undefined;
+  }
+
+  private nodesSeen() {
+    if (this.rules.has("nodes") && this.dirty) this.split("nodes");
+  }
+
+  private ts(t: number) {
+    if (t === this.lastOut) return;
+    this.sink().emitTs(t);
+    this.lastOut = t;
+  }
+
+  private sink(): TlmSink {
+    if (!this.inner) this.open("start");
+    return this.inner!;
+  }
+
+  private open(reason: SegmentReason) {
+    const n = this.segments.length + 1;
+    const output = this.outputName(n);
+    this.segments.push({ output, baseTs: this.baseTs, reason });
+    this.lastOut = -1;
+
+    const s = this.inner = this.factory(output, this.baseTs, this.utcOffsetSec);
+    s.writeHeaderPlaceholder();
+    if (this.info !== undefined) s.emitInfo(this.segmentInfo());
+    for (const f of this.fields) s.emitField(f.name, f.info);
+    for (const e of this.evtids) s.emitEvtId(e.name, e.keys);
+  }
+
+  private outputName(n: number): string {
+    if (!this.rules.size) return segmentPath(this.outFile, n);
+    const ext = path.extname(this.outFile);
+    const title = this.info?.title ? String(this.info.title) : path.basename(this.outFile, ext);
+    return path.join(path.dirname(this.outFile), `${title}_seg${n}${ext}`);
+  }
+
+  private segmentInfo() {
+    const n = this.segments.length;
+    if (n <= 1 && !this.rules.size) return this.info;
+    return {
+      ...this.info,
+      title: `${this.info?.title ?? "segment"}_seg${n}`,
+      timestamp: this.baseTs >>> 0,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+import sax from "sax";
+import { SinkFactory } from "./tlm-sink";
+import { TimeGuardOptions } from "./time-guard";
+import { SegmentOptions } from "./segment-sink";
+import { RepackFilter } from "./filter";
+import { EncodingPolicy } from "./value-encoding";
+import { RecoveryReport } from "./recovery";
+import { LogFieldMap } from "./log-mapping";
+import { FieldProfile } from "./field-profile";
+import { decompressFile, decompressStream, fileCompression, openZipEntry, zipXmlEntries } from "./compressed";
+
+/** Pipeline input: a file path or any readable byte stream (HTTP body, object storage, …). */
+export type RepackSource = string | Readable;
+
+/** Options shared by the repack pipelines. */
+export type RepackRunOptions = {
+  utcOffset?: number;
+  includeJso?: boolean;
+  sink?: SinkFactory;
+  name?: string;        // source name for streams (info title, extension hints)
+  mtimeMs?: number;     // start time when the content has none (default: file mtime / now)
+  time?: TimeGuardOptions;  // wrap/out-of-order/reset handling, default clamp
+  segment?: SegmentOptions; // split into <title>_segN outputs by flight segment
+  filter?: RepackFilter;    // time range and field/event subset
+  encoding?: EncodingPolicy; // value types/precision of the default sink
+  recover?: boolean;        // resume after XML errors, keep what parses (truncated/corrupted input)
+  onRecovery?: (r: RecoveryReport) => void;  // what recovery skipped; logged when not set
+  mapping?: LogFieldMap;    // binary logs: message fields onto mandala names, over the defaults
+  profile?: FieldProfile;   // renamed/dropped/merged/derived output fields
+};
+
+/**
+ * Content of the source; gzip/zstd are decompressed on the fly, a zip archive
+ * is read through its only telemetry/datalink entry. `bytes`: plain files as
+ * buffers (binary logs) instead of text.
+ */
+export function openSource(src: RepackSource, bytes = false): Readable {
+  if (typeof src !== "string") return decompressStream(src);
+  const c = fileCompression(src);
+  if (!c) return fs.createReadStream(src, { encoding: bytes ? undefined : "utf8", highWaterMark: 100 * 1024 });
+  if (c !== "zip") return decompressFile(src, c);
+  const entries = zipXmlEntries(src);
+  if (entries.length !== 1) throw new Error(`${src}: zip archive with ${entries.length} telemetry/datalink entries, repack it as a batch`);
+  return openZipEntry(src, entries[0]);
+}
+
+/**
+ * Feed the source into a SAX stream until it ends. Parser errors reject
+ * unless `onError` takes them; unlike pipe(), an error does not detach the
+ * source, so a parser resumed by `onError` sees the rest of the input.
+ * `drained`: output backpressure, the source is paused until it settles.
+ */
+export function parseSource(
+  src: RepackSource,
+  parser: sax.SAXStream,
+  onError?: (e: Error) => void,
+  drained?: () => Promise<void> | undefined,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const stream = openSource(src);
+    stream.on("error", reject);
+    parser.on("error", onError ?? ((e: Error) => { stream.destroy(); reject(e); }));
+    parser.on("end", resolve);
+    stream.on("data", (chunk) => {
+      parser.write(chunk);
+      const wait = drained?.();
+      if (!wait) return;
+      stream.pause();
+      wait.then(() => stream.resume(), (e) => { stream.destroy(); reject(e); });
+    });
+    stream.on("end", () => parser.end());
+  });
+}
+
+/**
+ * Feed the bytes of a binary source to `step` chunk by chunk, with what the
+ * previous call left unconsumed in front; `step` returns the bytes it used
+ * (`end`: no more data will come). Resolves with the bytes left over.
+ * `drained`: output backpressure, awaited between chunks.
+ */
+export async function scanSource(
+  src: RepackSource,
+  step: (buf: Buffer, end: boolean) => number,
+  drained?: () => Promise<void> | undefined,
+): Promise<number> {
+  let buf = Buffer.alloc(0);
+  for await (const chunk of openSource(src, true)) {
+    if (typeof chunk === "string") throw new Error("binary input needs a byte stream, got text");
+    buf = buf.length ? Buffer.concat([buf, chunk]) : chunk;
+    buf = buf.subarray(step(buf, false));
+    await drained?.();
+  }
+  return buf.length - step(buf, true);
+}
+
+/** Name used for the info block (title, import.name): the path, or `name` for streams. */
+export function sourceName(src: RepackSource, name?: string): string {
+  if (name) return name;
+  if (typeof src === "string") return src;
+  const p = (src as any).path;   // fs.ReadStream
+  return typeof p === "string" ? p : "stream";
+}
+
+/** Fallback start time when the content has none: file mtime, now for streams. */
+export function sourceMtimeMs(src: RepackSource): number {
+  if (typeof src !== "string") return Date.now();
+  try { return Math.floor(fs.statSync(src).mtimeMs); } catch { return Date.now(); }
+}
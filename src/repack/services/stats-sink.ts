@@ -0,0 +1,84 @@
+import { TlmSink, SinkFactory } from "./tlm-sink";
+
+/**
+ * What went through a sink, shaped like the inspect report of the output.
+ * Value counts are samples handed to the sink; the APXTLM writer drops
+ * repeats of unchanged values, so inspect may count fewer.
+ */
+export type RepackStats = {
+  baseTs: number;          // ms epoch, header timestamp
+  utcOffset: number;       // seconds
+  fields: Array<{ index: number; name: string; info: string[]; downlink: number; uplink: number }>;
+  events: Array<{ index: number; name: string; keys: string[]; count: number }>;
+  objects: string[];       // jso names (info, mission, nodes, ...)
+  downlink: number;
+  uplink: number;
+  timeStart?: number;      // ms, relative to baseTs
+  timeEnd?: number;
+};
+
+/** TlmSink decorator counting everything that passes to the wrapped sink. */
+export class StatsSink implements TlmSink {
+  readonly stats: RepackStats;
+
+  constructor(private inner: TlmSink, baseTs: number, utcOffset: number) {
+    this.stats = { baseTs, utcOffset, fields: [], events: [], objects: [], downlink: 0, uplink: 0 };
+  }
+
+  /** last timestamp seen, for progress reports */
+  get ts(): number | undefined { return this.stats.timeEnd; }
+
+  writeHeaderPlaceholder() { this.inner.writeHeaderPlaceholder(); }
+
+  emitInfo(info: any) {
+    this.stats.objects.push("info");
+    this.inner.emitInfo(info);
+  }
+
+  emitField(name: string, info: string[] = []) {
+    this.stats.fields.push({ index: this.stats.fields.length, name, info, downlink: 0, uplink: 0 });
+    this.inner.emitField(name, info);
+  }
+
+  emitEvtId(name: string, keys: string[]) {
+    this.stats.events.push({ index: this.stats.events.length, name, keys, count: 0 });
+    this.inner.emitEvtId(name, keys);
+  }
+
+  emitTs(ms: number) {
+    const s = this.stats;
+    if (s.timeStart === undefined || ms < s.timeStart) s.timeStart = ms;
+    if (s.timeEnd === undefined || ms > s.timeEnd) s.timeEnd = ms;
+    this.inner.emitTs(ms);
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    const f = this.stats.fields[fieldIndex];
+    if (uplink) { this.stats.uplink++; if (f) f.uplink++; }
+    else { this.stats.downlink++; if (f) f.downlink++; }
+    this.inner.emitNumber(fieldIndex, v, uplink);
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    const e = this.stats.events[evIndex];
+    if (e) e.count++;
+    this.inner.emitEvt(evIndex, values);
+  }
+
+  emitJso(name: string, obj: any, ts?: number) {
+    this.stats.objects.push(name);
+    this.inner.emitJso(name, obj, ts);
+  }
+
+  finalizeToFile(): Promise<void> { return this.inner.finalizeToFile(); }
+  drained() { return this.inner.drained?.(); }
+}
+
+/** Wrap a factory so every sink it creates is counted; `onCreate` receives the wrapper. */
+export function withStats(factory: SinkFactory, onCreate: (s: StatsSink) => void): SinkFactory {
+  return (outFile, baseTs, utcOffsetSec) => {
+    const s = new StatsSink(factory(outFile, baseTs, utcOffsetSec), baseTs, utcOffsetSec);
+    onCreate(s);
+    return s;
+  };
+}
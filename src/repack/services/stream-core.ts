@@ -0,0 +1,251 @@
+import * as fs from "fs";
+import * as path from "path";
+import { apxTlmSink } from "./apxtlm-writer.service";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+import { log } from "../log";
+import { FileKind } from "../sniff.service";
+import { SourceMeta, buildInfoForInput } from "./info.util";
+import { FieldMetaResolver, NodeFieldCollector } from "./field-meta";
+import { RepackSource, RepackRunOptions, sourceName, sourceMtimeMs } from "./source";
+import { TimeGuardSink, withTimeGuard } from "./time-guard";
+import { TlmFilter } from "./filter";
+import { RecoveryReport, formatRecovery } from "./recovery";
+import { MAX_FIELDS, tryNormalizeNodes } from "./nodes.util";
+import { withFieldProfile } from "./field-profile";
+
+/**
+ * Reader of one input format. It walks the source and hands what it decodes
+ * (start time, field list, rows, events, uplinks, objects) to the core, which
+ * owns filtering, field/event declaration, timing and the sink.
+ */
+export type FormatAdapter = {
+  kind: FileKind;
+  /** read the whole source; resolves with what recovery skipped, if it ran */
+  read(input: RepackSource, core: TlmStreamCore, opts: RepackRunOptions): Promise<RecoveryReport | undefined>;
+};
+
+/**
+ * Format-independent part of a repack: output fields and events declared on
+ * first use, the filter range and held state, source time deduplicated into
+ * ts records, objects (nodes normalized), the info block and the end of run
+ * (recovery report, empty output, time guard summary).
+ */
+export class TlmStreamCore {
+  readonly filter: TlmFilter;
+  readonly meta = new FieldMetaResolver();
+  readonly nodeFields = new NodeFieldCollector(this.meta);
+  readonly source: SourceMeta = {};   // header of the input, for the info block
+  readonly inputFile: string;
+  readonly utcOffsetSec: number;
+
+  fields: string[] = [];              // source field list, placeholder names when the input has none
+  baseTs = 0;                         // start time of the source
+  locate: () => number | undefined = () => undefined;   // source line, for time guard diagnostics
+
+  private sink: SinkFactory;
+  private guard?: TimeGuardSink;
+  private writer?: TlmSink;
+  private info?: any;
+  private infoTs = 0;
+
+  private fieldsDeclared = false;
+  private nameToIndex = new Map<string, number>();
+  private outIdx: number[] = [];      // source field index → output index, -1 when filtered out
+  private outCount = 0;
+  private evtIndex = new Map<string, number>();
+  private lastTs = -1;
+
+  constructor(private kind: FileKind, private input: RepackSource, private outFile: string, private opts: RepackRunOptions) {
+    this.inputFile = sourceName(input, opts.name);
+    this.utcOffsetSec = (opts.utcOffset ?? 0) | 0;
+    this.filter = new TlmFilter(opts.filter);
+    const out = opts.sink ?? apxTlmSink(opts.encoding);
+    this.sink = withTimeGuard(opts.profile ? withFieldProfile(out, opts.profile, (n) => this.meta.info(n)) : out, {
+      time: opts.time,
+      segment: opts.segment,
+      locate: () => this.locate(),
+    }, (g) => { this.guard = g; });
+  }
+
+  /** start time when the content has none */
+  fallbackTs(): number {
+    return this.opts.mtimeMs ?? sourceMtimeMs(this.input);
+  }
+
+  get opened(): boolean {
+    return !!this.writer;
+  }
+
+  /** start of the output at the source start time */
+  open(baseTs: number) {
+    if (this.writer) return;
+    this.baseTs = baseTs;
+    this.filter.bind(baseTs);
+    this.infoTs = baseTs + this.filter.shift;
+    this.writer = this.sink(this.outFile, this.infoTs, this.utcOffsetSec);
+    this.writer.writeHeaderPlaceholder();
+  }
+
+  /** the info block, once, from the source metadata collected so far */
+  emitInfo() {
+    if (!this.writer || this.info) return;
+    this.info = buildInfoForInput(this.inputFile, this.kind, this.infoTs, { source: this.source }, this.utcOffsetSec);
+    this.writer.emitInfo(this.info);
+  }
+
+  /** the field list goes out before the first value; placeholder names when the source has none */
+  declareFields(tokenCountHint?: number) {
+    if (this.fieldsDeclared || !this.writer) return;
+    if (!this.fields.length) {
+      const n = Math.min(tokenCountHint ?? 0, MAX_FIELDS);
+      this.fields = Array.from({ length: n }, (_, i) => `#${i}`);
+    }
+    if (this.fields.length > MAX_FIELDS) this.fields.length = MAX_FIELDS;
+
+    for (let i = 0; i < this.fields.length; i++) {
+      const f = this.fields[i];
+      this.outIdx[i] = this.declareOutField(f);
+      this.nameToIndex.set(f, i);
+    }
+    this.fieldsDeclared = true;
+  }
+
+  private declareOutField(name: string): number {
+    if (!this.filter.field(name)) return -1;
+    this.writer!.emitField(name, this.meta.info(name));
+    return this.outCount++;
+  }
+
+  /** output index of a field by name; `add` declares names the field list lacks */
+  private outIndex(name: string, add: boolean): number {
+    let idx = this.nameToIndex.get(name);
+    if (idx === undefined && add && this.fields.length < MAX_FIELDS) {
+      idx = this.fields.length;
+      this.fields.push(name);
+      this.outIdx[idx] = this.declareOutField(name);
+      this.nameToIndex.set(name, idx);
+    }
+    return idx === undefined ? -1 : this.outIdx[idx];
+  }
+
+  private declareEvent(name: string, keys: string[]): number {
+    let idx = this.evtIndex.get(name);
+    if (idx === undefined) {
+      idx = this.evtIndex.size;
+      this.evtIndex.set(name, idx);
+      this.writer!.emitEvtId(name, keys);
+    }
+    return idx;
+  }
+
+  /** source time as read; the time guard validates it */
+  private maybeEmitTs(ts: number) {
+    if (this.lastTs !== ts) {
+      this.writer!.emitTs(ts);
+      this.lastTs = ts;
+    }
+  }
+
+  /** time of a row inside the filter range; the first one also writes the state held from before it */
+  private emitRowTs(ts: number) {
+    this.maybeEmitTs(ts - this.filter.shift);
+    for (const [o, v] of this.filter.takeHeld()) this.writer!.emitNumber(o, v, false);
+  }
+
+  /** one row of values in field order at source time `ts`; empty cells are unchanged values */
+  emitRow(ts: number, cells: ReadonlyArray<string | number | undefined>) {
+    this.declareFields(cells.length);
+    if (!this.writer) return;
+
+    // before the range the row only updates the held state; after it, nothing
+    const f = this.filter;
+    const inRange = f.time(ts);
+    if (!inRange && ts > f.to) return;
+    if (inRange) this.emitRowTs(ts);
+    const lim = Math.min(cells.length, this.fields.length || MAX_FIELDS);
+    for (let i = 0; i < lim; i++) {
+      const s = cells[i];
+      const o = this.outIdx[i];
+      if (s === "" || s === undefined || o < 0) continue;
+      const n = Number(s);
+      if (!Number.isFinite(n)) continue;
+      if (inRange) this.writer.emitNumber(o, n, false);
+      else f.hold(o, n);
+    }
+  }
+
+  /** uplinked value of field `name` at `ts`; `add` declares fields the list lacks */
+  emitUplink(name: string, text: string, ts: number, add = false) {
+    if (!this.writer || !name || text.trim() === "") return;
+    if (this.fields.length) this.declareFields(this.fields.length);
+    const o = this.outIndex(name, add);
+    const v = Number(text);
+    if (o < 0 || !this.filter.time(ts) || !Number.isFinite(v)) return;
+    this.emitRowTs(ts);
+    this.writer.emitNumber(o, v, true);
+  }
+
+  /** event `name` at `ts`: its attributes (but name/t) and text as values */
+  emitEvent(name: string, attrs: Record<string, string>, text: string, ts: number) {
+    if (!this.writer || !this.filter.event(name) || !this.filter.time(ts)) return;
+    const keys = Object.keys(attrs).filter(k => k !== "name" && k !== "t");
+    if (text.trim().length) keys.push("text");
+    const idx = this.declareEvent(name, keys);
+
+    this.emitRowTs(ts);
+    this.writer.emitEvt(idx, keys.map(k => k === "text" ? text.trim() : String(attrs[k] ?? "")));
+  }
+
+  /** object of the source; node dumps go out normalized as `nodes` */
+  emitObject(name: string, value: any) {
+    if (!this.writer) return;
+    const normalized = tryNormalizeNodes(value, this.baseTs);
+    if (normalized) this.writer.emitJso("nodes", normalized);
+    else this.writer.emitJso(name, value);
+  }
+
+  /** backpressure of the output, for the readers to pause on between input chunks */
+  drained(): Promise<void> | undefined {
+    return this.writer?.drained?.();
+  }
+
+  /** end of the source: info, recovery report, output file, time guard summary */
+  async finish(recovered?: RecoveryReport) {
+    const name = path.basename(this.inputFile);
+    this.emitInfo();
+    if (recovered && this.writer) {
+      // the info block is repeated at the end with what was skipped
+      this.writer.emitInfo({ ...this.info, recovered });
+    }
+    if (recovered) {
+      this.opts.onRecovery?.(recovered);
+      if (!this.opts.onRecovery) for (const line of formatRecovery(recovered)) log.warn(`[repack][recover] ${name}: ${line}`);
+    }
+
+    if (this.writer) {
+      await this.writer.finalizeToFile();
+    } else {
+      const baseTs = this.fallbackTs();
+      const wr = this.sink(this.outFile, baseTs, this.utcOffsetSec);
+      wr.writeHeaderPlaceholder();
+      wr.emitInfo(buildInfoForInput(this.inputFile, this.kind, baseTs, {}, this.utcOffsetSec));
+      await wr.finalizeToFile();
+    }
+
+    if (this.guard && !this.opts.time?.onAnomaly) {
+      for (const line of this.guard.summary()) log.warn(`[repack][time] ${name}: ${line}`);
+    }
+
+    try {
+      const sz = fs.statSync(this.outFile).size;
+      log.debug(`[repack] DONE → ${path.resolve(this.outFile)} size=${sz} bytes`);
+    } catch {}
+  }
+}
+
+/** Repack `input` to `outFile` through `adapter`. */
+export async function runAdapter(adapter: FormatAdapter, input: RepackSource, outFile: string, opts: RepackRunOptions = {}): Promise<void> {
+  const core = new TlmStreamCore(adapter.kind, input, outFile, opts);
+  const recovered = await adapter.read(input, core, opts);
+  await core.finish(recovered);
+}
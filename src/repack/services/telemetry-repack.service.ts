@@ -1,208 +1,12 @@
-import * as fs from "fs";
-import * as path from "path";
-import sax from "sax";
-import { XMLParser } from "fast-xml-parser";
-import { ApxTlmWriter } from "./apxtlm-writer.service";
-import { buildInfoForInput } from "./info.util";
-import { createHash } from "crypto";
-
-const MAX_FIELDS = 2048;
-const EPOCH_2000_MS = Date.UTC(2000, 0, 1);
-
-function fileMtimeMs(p: string): number {
-  try { return Math.floor(fs.statSync(p).mtimeMs); } catch { return Date.now(); }
-}
-
-/* ---------- НОРМАЛИЗАЦИЯ NODES (оба формата) ---------- */
-
-type DictField = { name: string; title: string; type: string };
-type DictBuild = { fields: DictField[]; values: Record<string, any> };
-
-function pushField(out: DictBuild, name: string, title: any, type: any, value: any) {
-  const fname = String(name || "").trim();
-  if (!fname) return;
-  const ftitle = String(title ?? fname);
-  const ftype  = normalizeType(type);
-
-  out.fields.push({ name: fname, title: ftitle, type: ftype });
-
-  if (value !== undefined && value !== null) {
-    const s = String(value).trim();
-    let v: any = s;
-    if (/^(i|u\d*|int)/i.test(ftype) || /^(f|double|float)/i.test(ftype)) {
-      const n = Number(s);
-      v = Number.isFinite(n) ? n : 0;
-    } else if (/^bool/i.test(ftype)) {
-      v = /^(1|true|yes|on)$/i.test(s);
-    }
-    out.values[fname] = v;
-  }
-}
-
-/** вариант А: datalink-style: node.fields.field[] */
-function buildDictFromFlatFields(nodeObj: any): DictBuild | null {
-  let fields = nodeObj?.fields?.field;
-  if (!fields) return null;
-  if (!Array.isArray(fields)) fields = [fields];
-
-  const out: DictBuild = { fields: [], values: {} };
-  let autoIdx = 0;
-
-  for (const f of fields) {
-    const name = f?.name ?? f?.["@_name"] ?? f?.id ?? `f${autoIdx++}`;
-    const title = f?.title ?? name;
-    const type  = normalizeType(f?.struct?.type ?? f?.type ?? "string");
-    const value = f?.value;
-
-    pushField(out, name, title, type, value);
-  }
-  if (!out.fields.length) return null;
-  return out;
-}
-function normalizeType(t: any): string {
-  const s = String(
-    (t?.struct?.type) ?? (t?.type) ?? t ?? "string"
-  ).toLowerCase();
-  // привести «Option»/«enum» к строковому типу, чтобы Ground не спотыкался
-  if (s === "option" || s === "enum") return "string";
-  return s;
-}
-
-/** вариант C: telemetry-style: node.field[] со свойствами {type,title,value,"@_name",...} */
-function buildDictFromNodeFieldArray(nodeObj: any): DictBuild | null {
-  let fields = nodeObj?.field;
-  if (!fields) return null;
-  if (!Array.isArray(fields)) fields = [fields];
-
-  const out: DictBuild = { fields: [], values: {} };
-
-  for (const f of fields) {
-    const name = f?.["@_name"] ?? f?.name ?? f?.id;
-    const title = f?.title ?? name;
-    const type  = normalizeType(f?.type ?? f?.struct?.type);
-    const value = f?.value ?? f?.["#text"];
-
-    if (!name) continue;
-
-    // записываем поле
-    out.fields.push({ name: String(name), title: String(title ?? name), type });
+import { SourceMeta, parseExportDate } from "./info.util";
+import { RepackSource, RepackRunOptions } from "./source";
+import { FormatAdapter, TlmStreamCore } from "./stream-core";
+import { XmlReader, XmlObjectCapture } from "./xml-reader";
 
-    // и начальное значение, если оно есть
-    if (value !== undefined && value !== null) {
-      const s = String(value).trim();
-      let v: any = s;
-      if (/^(i|u\d*|int)/i.test(type) || /^(f|double|float)/i.test(type)) {
-        const n = Number(s);
-        v = Number.isFinite(n) ? n : 0;
-      } else if (/^bool/i.test(type)) {
-        v = /^(1|true|yes|on)$/i.test(s);
-      }
-      out.values[String(name)] = v;
-    }
-  }
-
-  if (!out.fields.length) return null;
-  return out;
-}
-
-
-/** рекурсивный обход «dictionary» (telemetry-style) */
-function buildDictFromDictionary(dict: any): DictBuild | null {
-  if (!dict || typeof dict !== "object") return null;
-
-  const out: DictBuild = { fields: [], values: {} };
-
-  function walk(node: any) {
-    if (!node || typeof node !== "object") return;
-
-    // частые контейнеры: fields/field, group, item, values, dictionary, …
-    const keys = Object.keys(node);
-    // если это конкретное поле
-    const hasName = node.name ?? node["@_name"];
-    const hasType = (node.struct?.type ?? node.type);
-    if (hasName && hasType) {
-      pushField(
-        out,
-        node.name ?? node["@_name"],
-        node.title ?? node["@_title"] ?? node.name ?? node["@_name"],
-        node.struct?.type ?? node.type,
-        // значение может быть и в node.value, и в #text
-        (node.value ?? node["#text"])
-      );
-      // продолжаем обход — на случай вложенных подсекций
-    }
-
-    for (const k of keys) {
-      const v = (node as any)[k];
-      if (v == null) continue;
-      if (Array.isArray(v)) {
-        for (const it of v) walk(it);
-      } else if (typeof v === "object") {
-        // пропустим явные сервисные/метаданные
-        if (k === "info" || k === "hardware" || k === "version") continue;
-        walk(v);
-      }
-    }
-  }
-
-  walk(dict);
-
-  if (!out.fields.length) return null;
-  return out;
-}
-
-/** универсальная нормализация raw → {nodes:[{info,dict,values,time}]} */
-function tryNormalizeNodes(raw: any, baseTs: number) {
-  if (!raw || typeof raw !== "object") return null;
-  console.log('qqqq');
-  const nodeObj = raw?.node ?? raw; // иногда узел прямо в корне
-  const ident   = raw.ident || raw.identity || raw.vehicle || raw.identify || {};
-  const uid     = String(ident.uid ?? ident.UID ?? "").trim();
-  const name    = String(ident.callsign ?? ident.name ?? "LOCAL").trim();
-  const type    = String(ident.class ?? ident.type ?? "UAV").trim();
-
-  // version/hardware могут лежать в разных местах
-  const ninfo     = nodeObj?.info || {};
-  const version   = (ninfo.version ?? raw.version) as string | undefined;
-  const hardware1 = ninfo.hardware as string | undefined;
-  const hardware2 = nodeObj?.dictionary?.hardware as string | undefined;
-  const hardware  = hardware1 ?? hardware2;
-
-  // A: datalink-style flat fields
-  let built: DictBuild | null = buildDictFromFlatFields(nodeObj);
-
-  // C: telemetry-style node.field[] 
-  if (!built) built = buildDictFromNodeFieldArray(nodeObj);
-
-  // B: telemetry-style dictionary
-  if (!built) built = buildDictFromDictionary(nodeObj?.dictionary);
-
-  if (!built || built.fields.length === 0) return null;
-
-  // ограничим поля
-  if (built.fields.length > MAX_FIELDS) built.fields.length = MAX_FIELDS;
-
-  // cache по схемe полей
-  const h = createHash("sha1");
-  h.update(JSON.stringify(built.fields));
-  const cache = h.digest("hex").slice(0, 8).toUpperCase();
-
-  const node = {
-    info: {
-      uid, name, type,
-      time: baseTs >>> 0,
-      ...(version ? { version } : {}),
-      ...(hardware ? { hardware } : {}),
-    },
-    dict: { cache, fields: built.fields },
-    values: built.values,
-    time: baseTs >>> 0,
-  };
-
-  return { nodes: [node] };
-}
+const EPOCH_2000_MS = Date.UTC(2000, 0, 1);
+const JSO_SKIP = new Set(["D", "E", "U"]);
 
-/* ---------- ОСНОВНОЙ ПАРСЕР (без изменений в логике D/E/U/TS) ---------- */
+/* ---------- ground station .telemetry: header, <fields>, <data> with D/E/U rows ---------- */
 
 type Ctx = {
   inTelemetry: boolean;
@@ -223,88 +27,55 @@ type Ctx = {
   uCurTs: number;
   uCurText: string;
 
-  fields: string[];
-  fieldsDeclared: boolean;
-  nameToIndex: Map<string, number>;
-
-  evtIndex: Map<string, number>;
-
-  writer?: ApxTlmWriter;
-  wroteHeader: boolean;
   baseTs: number;
-  utcOffsetSec: number;
+  baseFromInfo: boolean;    // <info><time> seen: exact, beats <timestamp>
 
   stack: string[];
-  inDataDepth: number;
-  capJsoActive: boolean;
-  capJsoDepth: number;
-  capJsoName: string;
-  capXml: string[];
-
-  lastTs: number;
 };
 
-function ensureWriter(ctx: Ctx) {
-  if (!ctx.writer) throw new Error("Writer not initialized yet");
-  return ctx.writer;
+/** text of a header element (path below <telemetry>) into the source metadata */
+function headerText(src: SourceMeta, at: string, txt: string) {
+  const s = txt.trim();
+  if (!s) return;
+  switch (at) {
+    case "title": src.title = s; break;
+    case "timestamp": src.timestamp = parseExportDate(s); break;
+    case "exported": src.exported = parseExportDate(s); break;
+    case "version": src.version = s; break;
+    case "sharedHash": src.swHash = s; break;
+    case "user/hostname": (src.host ??= {}).hostname = s; break;
+    case "user/username": (src.host ??= {}).username = s; break;
+    case "user/machineUID": (src.host ??= {}).uid = s; break;
+    case "info/callsign": src.callsign = s; break;
+    case "info/comment": src.comment = s; break;
+    case "stats/hash": src.hash = s; break;
+    default:
+      if (at.startsWith("stats/")) {
+        const n = Number(s);
+        (src.stats ??= {})[at.slice(6)] = Number.isFinite(n) ? n : s;
+      }
+  }
 }
 
 function splitFieldsSmart(s: string): string[] {
   return String(s).split(/[,\s;]+/).map(x => x.trim()).filter(Boolean);
 }
 
-function declareFieldsIfNeeded(ctx: Ctx, tokenCountHint?: number) {
-  if (ctx.fieldsDeclared) return;
-  const wr = ensureWriter(ctx);
-
-  if (!ctx.fields.length) {
-    const n = Math.min(tokenCountHint ?? 0, MAX_FIELDS);
-    ctx.fields = Array.from({ length: n }, (_, i) => `#${i}`);
-  }
-  if (ctx.fields.length > MAX_FIELDS) ctx.fields.length = MAX_FIELDS;
-
-  for (let i = 0; i < ctx.fields.length; i++) {
-    const f = ctx.fields[i];
-    wr.emitField(f, []);
-    ctx.nameToIndex.set(f, i);
-  }
-  ctx.fieldsDeclared = true;
-}
-
-function declareEventIfNeeded(ctx: Ctx, name: string, keys: string[]) {
-  if (!ctx.writer) return;
-  if (!ctx.evtIndex.has(name)) {
-    const idx = ctx.evtIndex.size;
-    ctx.evtIndex.set(name, idx);
-    ctx.writer.emitEvtId(name, keys);
-  }
-}
-
 function parseCsvKeepEmpty(s: string): string[] {
   return String(s).split(",");
 }
 
-function openTagToString(name: string, attrs: Record<string, any>) {
-  const a = Object.entries(attrs ?? {}).map(([k, v]) => `${k}="${String(v)}"`).join(" ");
-  return a.length ? `<${name} ${a}>` : `<${name}>`;
-}
-function closeTagToString(name: string) { return `</${name}>`; }
-
-function maybeEmitTs(ctx: Ctx, t: number) {
-  const ts = (t >>> 0);
-  if (ctx.lastTs !== ts) {
-    ctx.writer!.emitTs(ts);
-    ctx.lastTs = ts;
-  }
+/** value collected from <U name=".." t="..">v</U> or a nested <U><x name=".." t="..">v</x></U> */
+function emitUplinkIfAny(ctx: Ctx, core: TlmStreamCore) {
+  const nm = ctx.uCurName?.trim();
+  if (nm) core.emitUplink(nm, ctx.uCurText ?? "", ctx.uCurTs, true);
+  ctx.uCurName = "";
+  ctx.uCurTs = 0;
+  ctx.uCurText = "";
 }
 
-export async function repackTelemetryToApx_stream(
-  inputFile: string,
-  outFile: string,
-  opts: { utcOffset?: number; includeJso?: boolean } = {}
-): Promise<void> {
-  const { utcOffset = 0, includeJso = true } = opts;
-  const utcOffsetSec = utcOffset | 0;
+async function readTelemetry(input: RepackSource, core: TlmStreamCore, opts: RepackRunOptions) {
+  const { includeJso = true } = opts;
 
   const ctx: Ctx = {
     inTelemetry: false,
@@ -325,33 +96,23 @@ export async function repackTelemetryToApx_stream(
     uCurTs: 0,
     uCurText: "",
 
-    fields: [],
-    fieldsDeclared: false,
-    nameToIndex: new Map<string, number>(),
-
-    evtIndex: new Map(),
-
-    writer: undefined,
-    wroteHeader: false,
     baseTs: 0,
-    utcOffsetSec,
-    stack: [],
-    inDataDepth: 0,
-    capJsoActive: false,
-    capJsoDepth: 0,
-    capJsoName: "",
-    capXml: [],
+    baseFromInfo: false,
 
-    lastTs: -1,
+    stack: [],
   };
 
-  const parser = sax.createStream(true, { trim: false, normalize: false });
-  const jsoSkip = new Set(["D", "E", "U"]);
+  const reader = new XmlReader(opts.recover);
+  const parser = reader.parser;
+  const capture = new XmlObjectCapture(reader, (name, value) => core.emitObject(name, value));
+  core.locate = () => reader.line;
 
   parser.on("opentag", (tag) => {
     const name = tag.name;
     const attrs = tag.attributes as Record<string, any>;
+    reader.tag();
     ctx.stack.push(name);
+    core.nodeFields.opentag(name, attrs);
 
     if (!ctx.inTelemetry && name.toLowerCase() === "telemetry") {
       ctx.inTelemetry = true;
@@ -359,7 +120,8 @@ export async function repackTelemetryToApx_stream(
     }
     if (!ctx.inTelemetry) return;
 
-    if (name === "fields") {
+    // only the top-level <telemetry><fields> list; nodes carry their own <fields>
+    if (name === "fields" && ctx.stack.length === 2) {
       ctx.inFields = true;
       return;
     }
@@ -378,15 +140,9 @@ export async function repackTelemetryToApx_stream(
 
     if (name === "data") {
       ctx.inData = true;
-      ctx.inDataDepth = 1;
-
-      if (!(ctx.baseTs >= EPOCH_2000_MS)) ctx.baseTs = fileMtimeMs(inputFile);
-
-      if (!ctx.wroteHeader) {
-        ctx.writer = new ApxTlmWriter(1, ctx.utcOffsetSec, ctx.baseTs, outFile);
-        ctx.writer.writeHeaderPlaceholder();
-        ctx.writer.emitInfo(buildInfoForInput(inputFile, "telemetry", ctx.baseTs, {}, ctx.utcOffsetSec));
-        ctx.wroteHeader = true;
+      if (!core.opened) {
+        core.open(ctx.baseTs >= EPOCH_2000_MS ? ctx.baseTs : core.fallbackTs());
+        core.emitInfo();
       }
       return;
     }
@@ -394,13 +150,15 @@ export async function repackTelemetryToApx_stream(
     if (!ctx.inData) return;
 
     if (name === "D") {
+      reader.begin();
       ctx.inD = true;
-      ctx.currentD_ts = attrs?.["t"] != null ? Number(attrs["t"]) >>> 0 : 0;
+      ctx.currentD_ts = attrs?.["t"] != null ? Number(attrs["t"]) : 0;
       ctx.currentD_text = "";
       return;
     }
 
     if (name === "E") {
+      reader.begin();
       ctx.inE = true;
       ctx.currentE_attrs = Object.fromEntries(Object.entries(attrs || {}).map(([k, v]) => [k, String(v)]));
       ctx.currentE_text = "";
@@ -408,8 +166,15 @@ export async function repackTelemetryToApx_stream(
     }
 
     if (name === "U") {
+      reader.begin();
       ctx.inU = true;
       ctx.uStackDepth = ctx.stack.length;
+      // flat form: <U t=".." name="..">value</U>
+      const nm = attrs?.["name"];
+      const t  = (attrs?.["t"] != null ? Number(attrs["t"]) : undefined);
+      ctx.uCurName = nm ? String(nm) : "";
+      ctx.uCurTs   = Number.isFinite(t) ? (t as number) : 0;
+      ctx.uCurText = "";
       return;
     }
 
@@ -417,153 +182,84 @@ export async function repackTelemetryToApx_stream(
       const nm = (attrs?.["name"] ?? attrs?.["@_name"]);
       const t  = (attrs?.["t"] != null ? Number(attrs["t"]) : undefined);
       ctx.uCurName = nm ? String(nm) : "";
-      ctx.uCurTs   = Number.isFinite(t) ? (t as number) >>> 0 : 0;
+      ctx.uCurTs   = Number.isFinite(t) ? (t as number) : 0;
       ctx.uCurText = "";
     }
 
-    if (includeJso && !jsoSkip.has(name)) {
-      if (!ctx.capJsoActive) {
-        ctx.capJsoActive = true;
-        ctx.capJsoDepth = ctx.inDataDepth + 1;
-        ctx.capJsoName = name;
-        ctx.capXml = [];
-      }
-      ctx.capXml.push(openTagToString(name, attrs));
+    if (includeJso && !JSO_SKIP.has(name)) {
+      capture.start(name, ctx.stack.length);
+      capture.open(name, attrs);
     }
-
-    if (ctx.inData) ctx.inDataDepth++;
   });
 
   parser.on("text", (txt) => {
+    core.nodeFields.onText(txt);
+
+    // start time: <telemetry><info><time>ms</time>, else <telemetry><timestamp>date</timestamp>
+    if (ctx.inTelemetry && !ctx.inData) {
+      const top = ctx.stack[ctx.stack.length - 1];
+      if (top === "time" && ctx.stack.length === 3 && ctx.stack[1] === "info") {
+        const t = Number(txt.trim());
+        if (t >= EPOCH_2000_MS) { ctx.baseTs = Math.floor(t); ctx.baseFromInfo = true; }
+      } else if (top === "timestamp" && ctx.stack.length === 2 && !ctx.baseFromInfo) {
+        const t = Date.parse(txt.trim());
+        if (t >= EPOCH_2000_MS) ctx.baseTs = t;
+      }
+      headerText(core.source, ctx.stack.slice(1).join("/"), txt);
+    }
+
     if (ctx.inFields) {
       const raw = (txt ?? "").trim();
       if (raw) {
         const candidate = splitFieldsSmart(raw);
-        if (candidate.length >= 5) ctx.fields = candidate;
+        if (candidate.length >= 5) core.fields = candidate;
       }
     }
 
     if (ctx.inD) ctx.currentD_text += txt;
     if (ctx.inE) ctx.currentE_text += txt;
     if (ctx.inU) ctx.uCurText += txt;
-    if (ctx.capJsoActive && txt) ctx.capXml.push(txt);
+    capture.text(txt);
   });
 
   parser.on("closetag", (name) => {
-    if (name === "fields") {
+    reader.tag();
+    core.nodeFields.closetag(name);
+
+    if (name === "fields" && ctx.inFields) {
       ctx.inFields = false;
+      ctx.stack.pop();
       return;
     }
 
     if (name === "D" && ctx.inD) {
       ctx.inD = false;
-      declareFieldsIfNeeded(ctx, parseCsvKeepEmpty(ctx.currentD_text).length);
-
-      const wr = ctx.writer!;
-      const parts = parseCsvKeepEmpty(ctx.currentD_text);
-      const lim = Math.min(parts.length, ctx.fields.length || MAX_FIELDS);
-
-      maybeEmitTs(ctx, ctx.currentD_ts);
-      for (let i = 0; i < lim; i++) {
-        const s = parts[i];
-        if (s === "") continue;
-        const n = Number(s);
-        if (Number.isFinite(n)) wr.emitNumber(i, n, false);
-      }
+      if (!reader.damaged) core.emitRow(ctx.currentD_ts, parseCsvKeepEmpty(ctx.currentD_text));
       return;
     }
 
     if (name === "E" && ctx.inE) {
       ctx.inE = false;
-
-      const wr = ctx.writer!;
+      if (reader.damaged) return;
       const a = ctx.currentE_attrs;
-      const evName = a.name ?? "event";
-      const ts = a.t != null ? Number(a.t) : 0;
-
-      const keys = Object.keys(a).filter(k => k !== "name" && k !== "t");
-      if (ctx.currentE_text && ctx.currentE_text.trim().length) keys.push("text");
-      declareEventIfNeeded(ctx, evName, keys);
-
-      maybeEmitTs(ctx, ts);
-      const idx = ctx.evtIndex.get(evName)!;
-      const vals: string[] = [];
-      for (const k of keys) vals.push(k === "text" ? ctx.currentE_text.trim() : String(a[k] ?? ""));
-      wr.emitEvt(idx, vals);
+      core.emitEvent(a.name ?? "event", a, ctx.currentE_text, a.t != null ? Number(a.t) : 0);
       return;
     }
 
     if (name === "U" && ctx.inU && ctx.stack.length === ctx.uStackDepth) {
+      if (reader.damaged) ctx.uCurName = "";
+      emitUplinkIfAny(ctx, core);
       ctx.inU = false;
       ctx.uStackDepth = 0;
       return;
     }
 
     if (ctx.inU && name !== "U") {
-      const nm = ctx.uCurName?.trim();
-      const txt = ctx.uCurText?.trim();
-      if (nm && txt != null) {
-        if (!ctx.fieldsDeclared && ctx.fields.length >= 1) {
-          declareFieldsIfNeeded(ctx, ctx.fields.length);
-        }
-        let idx = ctx.nameToIndex.get(nm);
-        if (idx === undefined) {
-          const newIdx = ctx.fields.length;
-          if (newIdx < MAX_FIELDS) {
-            ctx.fields.push(nm);
-            ensureWriter(ctx).emitField(nm, []);
-            ctx.nameToIndex.set(nm, newIdx);
-            idx = newIdx;
-          }
-        }
-        if (idx !== undefined) {
-          const v = Number(txt);
-          if (Number.isFinite(v)) {
-            maybeEmitTs(ctx, ctx.uCurTs >>> 0);
-            ensureWriter(ctx).emitNumber(idx, v, true);
-          }
-        }
-      }
-      ctx.uCurName = "";
-      ctx.uCurTs = 0;
-      ctx.uCurText = "";
-    }
-
-    if (ctx.capJsoActive) {
-      ctx.capXml.push(closeTagToString(name));
-
-      if (name === ctx.capJsoName && ctx.inDataDepth === ctx.capJsoDepth) {
-        try {
-          const xmlStr = ctx.capXml.join("");
-          const parser = new XMLParser({
-            ignoreAttributes: false,
-            ignoreDeclaration: true,
-            attributeNamePrefix: "@_",
-            textNodeName: "#text",
-            trimValues: true,
-            allowBooleanAttributes: true,
-            parseTagValue: false
-          });
-          const obj = parser.parse(xmlStr);
-          const val = (obj as any)[ctx.capJsoName] ?? obj;
-
-          const normalized = tryNormalizeNodes(val, ctx.baseTs);
-          if (normalized) {
-            ctx.writer!.emitJso("nodes", normalized);
-          } else {
-            ctx.writer!.emitJso(ctx.capJsoName, val);
-          }
-        } catch (e: any) {
-          console.warn(`[repack][warn] JSO parse failed <${ctx.capJsoName}>: ${e?.message ?? e}`);
-        }
-        ctx.capJsoActive = false;
-        ctx.capJsoDepth = 0;
-        ctx.capJsoName = "";
-        ctx.capXml = [];
-      }
+      if (reader.damaged) ctx.uCurName = "";
+      emitUplinkIfAny(ctx, core);
     }
 
-    if (ctx.inData) ctx.inDataDepth--;
+    capture.close(name, ctx.stack.length);
 
     if (name.toLowerCase() === "telemetry") ctx.inTelemetry = false;
     if (name === "data") ctx.inData = false;
@@ -571,27 +267,21 @@ export async function repackTelemetryToApx_stream(
     ctx.stack.pop();
   });
 
-  const stream = fs.createReadStream(inputFile, { encoding: "utf8", highWaterMark: 100 * 1024 });
-
-  await new Promise<void>((resolve, reject) => {
-    stream.on("error", reject);
-    parser.on("error", reject);
-    parser.on("end", resolve);
-    stream.pipe(parser);
+  // recovery: close what the end of the input cut off (runs before parsing resolves)
+  parser.on("end", () => {
+    if (!reader.recovery || !core.opened) return;
+    if (ctx.inD) {
+      // the last cell may be cut short: only the text after the last comma is lost
+      const keep = Math.max(0, ctx.currentD_text.lastIndexOf(","));
+      if (!reader.damaged) core.emitRow(ctx.currentD_ts, parseCsvKeepEmpty(ctx.currentD_text.slice(0, keep)));
+      reader.cutTail(ctx.currentD_text.length - keep, "truncated <D> row, last value dropped");
+    } else if (ctx.inE || ctx.inU) {
+      reader.cutCapture(`truncated <${ctx.inE ? "E" : "U"}> dropped`);
+    }
+    capture.truncated();
   });
 
-  if (ctx.writer) {
-    await ctx.writer.finalizeToFile();
-  } else {
-    const baseTs = fileMtimeMs(inputFile);
-    const wr = new ApxTlmWriter(1, utcOffsetSec, baseTs, outFile);
-    wr.writeHeaderPlaceholder();
-    wr.emitInfo(buildInfoForInput(inputFile, "telemetry", baseTs, {}, utcOffsetSec));
-    await wr.finalizeToFile();
-  }
-
-  try {
-    const sz = fs.statSync(outFile).size;
-    console.log(`[repack] DONE → ${path.resolve(outFile)} size=${sz} bytes`);
-  } catch {}
+  return reader.parse(input, () => ctx.inD || ctx.inE || ctx.inU, () => core.drained());
 }
+
+export const telemetryAdapter: FormatAdapter = { kind: "telemetry", read: readTelemetry };
@@ -0,0 +1,226 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import { XMLBuilder } from "fast-xml-parser";
+import { TlmSink, SinkFactory } from "./tlm-sink";
+
+export type TelemetryXmlOptions = {
+  fill?: boolean;       // default true: rows carry the last value of every field; false: changed cells only
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const HREF = "http://www.uavos.com/";
+
+function xmlEsc(s: string): string {
+  return s.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[c]!));
+}
+
+/** `01 Aug 2025 03:46:38 -0400`, as the ground station writes it */
+function xmlDate(ms: number, utcOffsetSec: number): string {
+  const d = new Date(ms + utcOffsetSec * 1000);
+  const p = (n: number) => String(n).padStart(2, "0");
+  const off = Math.round(Math.abs(utcOffsetSec) / 60);
+  return `${p(d.getUTCDate())} ${MONTHS[d.getUTCMonth()]} ${d.getUTCFullYear()} ` +
+    `${p(d.getUTCHours())}:${p(d.getUTCMinutes())}:${p(d.getUTCSeconds())} ` +
+    `${utcOffsetSec < 0 ? "-" : "+"}${p(Math.floor(off / 60))}${p(off % 60)}`;
+}
+
+function el(name: string, v: unknown, indent = "  "): string {
+  return v == null || v === "" ? `${indent}<${name}/>` : `${indent}<${name}>${xmlEsc(String(v))}</${name}>`;
+}
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  format: true,
+  indentBy: "  ",
+});
+
+/** `{nodes:[{info, dict, values}]}` as the pipelines normalize it, back to the ground station layout */
+function nodesXml(obj: any): string | undefined {
+  const nodes: any[] = obj?.nodes;
+  if (!Array.isArray(nodes) || !nodes.every(n => Array.isArray(n?.dict?.fields))) return undefined;
+  const out: string[] = [`<nodes format="1" href="${HREF}">`];
+  const first = nodes[0]?.info ?? {};
+  if (first.version) out.push(el("version", first.version));
+  out.push("  <vehicle>", el("callsign", first.name, "    "), el("class", first.type, "    "), el("time", nodes[0]?.time, "    "), "  </vehicle>");
+  for (const n of nodes) {
+    const info = n.info ?? {};
+    const values = n.values ?? {};
+    out.push(info.uid ? `  <node sn="${xmlEsc(String(info.uid))}">` : "  <node>");
+    out.push("    <dictionary>", el("hardware", info.hardware, "      "), el("version", info.version, "      "), "    </dictionary>");
+    out.push(`    <fields cnt="${n.dict.fields.length}">`);
+    n.dict.fields.forEach((f: any, id: number) => {
+      const type = String(f.type ?? "string");
+      out.push(`      <field name="${xmlEsc(String(f.name))}" id="${id}">`);
+      out.push(el("type", type.charAt(0).toUpperCase() + type.slice(1), "        "));
+      out.push(el("title", f.title ?? f.name, "        "));
+      if (values[f.name] !== undefined) out.push(el("value", values[f.name], "        "));
+      out.push("      </field>");
+    });
+    out.push("    </fields>", "  </node>");
+  }
+  out.push("</nodes>");
+  return out.join("\n");
+}
+
+/**
+ * Ground station .telemetry XML from the decoded stream: the field list,
+ * <D> rows (forward-filled by default, since repack drops unchanged values),
+ * <E> events, <U> uplinks and objects re-expanded to XML. The header needs
+ * the whole stream (stats), so the data block is spooled next to the output
+ * and copied in at the end.
+ */
+export class TelemetryXmlSink implements TlmSink {
+  private bodyFile: string;
+  private ws: fs.WriteStream;
+
+  private names: string[] = [];
+  private held: Array<number | undefined> = [];   // last downlink value per field
+  private row = new Map<number, number>();         // downlink values seen at curTs
+  private pending: string[] = [];                  // events, uplinks, objects at curTs
+  private curTs = 0;
+
+  private evtNames: string[] = [];
+  private evtKeys: string[][] = [];
+  private evtCounts = new Map<string, number>();
+  private stats = { downlink: 0, uplink: 0, events: 0 };
+  private info: any;
+
+  constructor(private outFile: string, private baseTs: number, private utcOffsetSec: number, private opts: TelemetryXmlOptions = {}) {
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    this.bodyFile = `${outFile}.data.tmp`;
+    this.ws = fs.createWriteStream(this.bodyFile, { highWaterMark: 100 * 1024 });
+  }
+
+  private get fill() { return this.opts.fill ?? true; }
+
+  /** the <D> row of curTs, then what came with it */
+  private commitRow() {
+    if (this.row.size) {
+      const cells: string[] = [];
+      const last = this.fill ? this.held.length : Math.max(...this.row.keys()) + 1;
+      for (let i = 0; i < last; i++) {
+        const v = this.fill ? this.held[i] : this.row.get(i);
+        cells.push(v === undefined ? "" : String(v));
+      }
+      while (cells.length && cells[cells.length - 1] === "") cells.pop();
+      this.ws.write(`<D t="${this.curTs}">${cells.join(",")}</D>\n`);
+      this.stats.downlink += this.row.size;
+      this.row.clear();
+    }
+    for (const s of this.pending) this.ws.write(s + "\n");
+    this.pending = [];
+  }
+
+  writeHeaderPlaceholder() {}
+
+  emitInfo(info: any) {
+    this.info = info;
+  }
+
+  emitField(name: string, _info: string[] = []) {
+    this.names.push(name);
+  }
+
+  emitEvtId(name: string, keys: string[]) {
+    this.evtNames.push(name);
+    this.evtKeys.push(keys);
+  }
+
+  emitTs(ms: number) {
+    if (ms === this.curTs) return;
+    this.commitRow();
+    this.curTs = ms;
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    if (!(fieldIndex >= 0 && fieldIndex < this.names.length)) return;
+    if (uplink) {
+      this.pending.push(`<U t="${this.curTs}" name="${xmlEsc(this.names[fieldIndex])}">${v}</U>`);
+      this.stats.uplink++;
+      return;
+    }
+    this.held[fieldIndex] = v;
+    this.row.set(fieldIndex, v);
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    const name = this.evtNames[evIndex] ?? "event";
+    const keys = this.evtKeys[evIndex] ?? [];
+    let text = "";
+    const attrs: string[] = [];
+    keys.forEach((k, i) => {
+      if (k === "text") text = values[i] ?? "";
+      else attrs.push(` ${k}="${xmlEsc(values[i] ?? "")}"`);
+    });
+    this.pending.push(`<E t="${this.curTs}" name="${xmlEsc(name)}"${attrs.join("")}>${xmlEsc(text)}</E>`);
+    this.evtCounts.set(name, (this.evtCounts.get(name) ?? 0) + 1);
+    this.stats.events++;
+  }
+
+  emitJso(name: string, obj: any, ts?: number) {
+    if (typeof ts === "number") this.emitTs(ts);
+    const xml = name === "nodes" ? nodesXml(obj) : undefined;
+    this.pending.push(xml ?? String(builder.build({ [name]: obj })).trimEnd());
+  }
+
+  private head(): string {
+    const info = this.info ?? {};
+    const title = info.import?.title ?? info.title ?? path.parse(this.outFile).name;
+    const evtDetails = [...this.evtCounts].sort(([a], [b]) => a.localeCompare(b)).map(([k, n]) => `${k}=${n}`).join(",");
+    const out = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<telemetry href="${HREF}" format="1">`,
+      el("title", title),
+      el("timestamp", xmlDate(this.baseTs, this.utcOffsetSec)),
+      el("exported", xmlDate(Date.now(), this.utcOffsetSec)),
+      el("version", info.sw?.version),
+    ];
+    if (info.sw?.hash) out.push(el("sharedHash", info.sw.hash));
+    if (info.host) {
+      out.push("  <user>", el("machineUID", info.host.uid, "    "), el("hostname", info.host.hostname, "    "), el("username", info.host.username, "    "), "  </user>");
+    }
+    out.push(
+      "  <info>", el("callsign", info.unit?.name, "    "), el("comment", info.comment, "    "), el("time", this.baseTs, "    "), "  </info>",
+      "  <stats>",
+      el("downlink", this.stats.downlink, "    "),
+      el("events", this.stats.events, "    "),
+      el("evtDetails", evtDetails, "    "),
+      el("totalTime", this.curTs, "    "),
+      el("uplink", this.stats.uplink, "    "),
+      "  </stats>",
+      el("fields", this.names.join(",")),
+      "<data>",
+    );
+    return out.join("\n") + "\n";
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.commitRow();
+    await new Promise<void>((resolve, reject) => {
+      this.ws.once("error", reject);
+      this.ws.once("finish", resolve);
+      this.ws.end();
+    });
+    const head = this.head();
+    const body = this.bodyFile;
+    try {
+      await pipeline(
+        async function* () {
+          yield head;
+          yield* fs.createReadStream(body, { highWaterMark: 100 * 1024 });
+          yield "</data>\n</telemetry>\n";
+        },
+        fs.createWriteStream(this.outFile),
+      );
+    } finally {
+      await fs.promises.rm(body, { force: true });
+    }
+  }
+}
+
+export function createTelemetryXmlSink(opts: TelemetryXmlOptions = {}): SinkFactory {
+  return (outFile, baseTs, utcOffsetSec) => new TelemetryXmlSink(outFile, baseTs, utcOffsetSec, opts);
+}
@@ -0,0 +1,246 @@
+import { TlmSink, SinkFactory } from "./tlm-sink";
+import { SegmentedSink, SegmentOptions } from "./segment-sink";
+
+/**
+ * APXTLM timestamps are u32 ms relative to the header timestamp (49.7 days).
+ * The XML sources carry whatever the recorder wrote: uptime counters that wrap,
+ * negative offsets, rows out of order, counters restarting after a reboot.
+ *
+ *  - clamp:   never go back in time; out-of-range values are pinned, a reset
+ *             continues from the last time written
+ *  - reorder: like clamp, but rows up to `windowMs` late are sorted into place
+ *  - split:   start a new output (`<name>_segN.apxtlm`) on resets and overflow
+ */
+export type TimePolicy = "clamp" | "reorder" | "split";
+
+export const TIME_POLICIES: readonly TimePolicy[] = ["clamp", "reorder", "split"];
+
+export type TimeAnomalyKind =
+  | "negative"   // before the header timestamp
+  | "wrap"       // u32 source counter rolled over (unwrapped)
+  | "overflow"   // beyond 2^32-1 ms from the header timestamp
+  | "backward"   // out of order, within the window
+  | "reset";     // jumped back further than the window
+
+export type TimeAnomaly = {
+  kind: TimeAnomalyKind;
+  line?: number;        // source line, when the pipeline can tell
+  ts: number;           // time as read, ms
+  prev: number;         // latest time before it, ms from the segment start
+  action: "clamped" | "reordered" | "unwrapped" | "rebased" | "split";
+  segment: number;      // 1-based output the row went to
+};
+
+export type TimeGuardOptions = {
+  policy?: TimePolicy;        // default clamp
+  windowMs?: number;          // reorder window and backward/reset threshold, default 5000
+  onAnomaly?: (a: TimeAnomaly) => void;
+};
+
+/** The serializable part, for CLI/worker plumbing. */
+export type TimeGuardSettings = Omit<TimeGuardOptions, "onAnomaly">;
+
+const U32_MAX = 0xFFFFFFFF;
+const U32_SPAN = 0x100000000;
+const WRAP_MARGIN_MS = 3600 * 1000;   // a wrap lands within an hour of both ends
+const DEFAULT_WINDOW_MS = 5000;
+const REPORT_LIMIT = 20;
+
+type Group = { ts: number; ops: Array<(s: TlmSink) => void> };
+
+/**
+ * TlmSink decorator taking source times as-is (any number) and handing the
+ * inner sink valid, non-decreasing u32 times according to the policy.
+ */
+export class TimeGuardSink implements TlmSink {
+  readonly anomalies: TimeAnomaly[] = [];
+
+  private policy: TimePolicy;
+  private windowMs: number;
+  private onAnomaly?: (a: TimeAnomaly) => void;
+
+  private epoch = 0;          // added to source times after a wrap
+  private offset = 0;         // subtracted to get segment-relative times
+  private lastRaw?: number;
+  private high = -1;          // highest segment time seen
+  private lastOut = -1;       // last time handed to the inner sink
+  private pending: Group[] = [];
+  private cur?: Group;
+
+  constructor(
+    private inner: SegmentedSink,
+    private baseTs: number,
+    opts: TimeGuardOptions = {},
+    private locate?: () => number | undefined
+  ) {
+    this.policy = opts.policy ?? "clamp";
+    this.windowMs = Math.max(0, opts.windowMs ?? DEFAULT_WINDOW_MS);
+    this.onAnomaly = opts.onAnomaly;
+  }
+
+  get outputs(): string[] { return this.inner.outputs; }
+  get segments() { return this.inner.segments; }
+
+  writeHeaderPlaceholder() { this.inner.writeHeaderPlaceholder(); }
+  emitInfo(info: any) { this.inner.emitInfo(info); }
+  emitField(name: string, info?: string[]) { this.inner.emitField(name, info); }
+  emitEvtId(name: string, keys: string[]) { this.inner.emitEvtId(name, keys); }
+
+  emitTs(ms: number) {
+    if (!Number.isFinite(ms)) ms = this.lastRaw ?? 0;
+    const raw = Math.floor(ms);
+
+    if (this.lastRaw !== undefined && this.lastRaw > U32_MAX - WRAP_MARGIN_MS && raw >= 0 && raw < WRAP_MARGIN_MS) {
+      this.epoch += U32_SPAN;
+      this.report("wrap", raw, "unwrapped");
+    }
+    this.lastRaw = raw;
+
+    let t = raw + this.epoch - this.offset;
+    if (t < 0) {
+      this.report("negative", raw, "clamped");
+      t = Math.max(this.high, 0);
+    }
+    if (t > U32_MAX) {
+      if (this.policy === "split") {
+        this.split(raw + this.epoch, "overflow", raw, true);
+        t = 0;
+      } else {
+        this.report("overflow", raw, "clamped");
+        t = U32_MAX;
+      }
+    }
+    if (t < this.high) {
+      const back = this.high - t;
+      if (back <= this.windowMs) {
+        if (this.policy === "reorder") this.report("backward", raw, "reordered");
+        else { this.report("backward", raw, "clamped"); t = this.high; }
+      } else if (this.policy === "split") {
+        this.split(raw + this.epoch, "reset", raw, false);
+        t = 0;
+      } else {
+        this.report("reset", raw, "rebased");
+        this.offset += t - this.high;
+        t = this.high;
+      }
+    }
+    if (t > this.high) this.high = t;
+
+    if (this.policy !== "reorder") {
+      if (t !== this.lastOut) this.inner.emitTs(t);
+      this.lastOut = t;
+      return;
+    }
+
+    // reorder: queue rows sorted by time, release what the window has passed
+    const g: Group = { ts: t, ops: [] };
+    let i = this.pending.length;
+    while (i > 0 && this.pending[i - 1].ts > t) i--;
+    this.pending.splice(i, 0, g);
+    this.cur = g;
+    this.flush(this.high - this.windowMs);
+  }
+
+  emitNumber(fieldIndex: number, v: number, uplink = false) {
+    this.op((s) => s.emitNumber(fieldIndex, v, uplink));
+  }
+
+  emitEvt(evIndex: number, values: string[]) {
+    this.op((s) => s.emitEvt(evIndex, values));
+  }
+
+  emitJso(name: string, obj: any, ts?: number) {
+    if (typeof ts === "number") this.emitTs(ts);
+    this.op((s) => s.emitJso(name, obj));
+  }
+
+  async finalizeToFile(): Promise<void> {
+    this.flush(Infinity);
+    await this.inner.finalizeToFile();
+  }
+
+  drained() { return this.inner.drained?.(); }
+
+  /** formatTimeAnomalies() plus the list of outputs when split. */
+  summary(): string[] {
+    const out = formatTimeAnomalies(this.anomalies);
+    const segs = this.segments;
+    if (segs.length > 1) out.push(`split into ${segs.length} files: ${segs.map((g) => `${g.output} (${g.reason})`).join(", ")}`);
+    return out;
+  }
+
+  private op(fn: (s: TlmSink) => void) {
+    if (this.policy === "reorder" && this.cur) this.cur.ops.push(fn);
+    else fn(this.inner);
+  }
+
+  private flush(upTo: number) {
+    let n = 0;
+    for (const g of this.pending) {
+      if (g.ts > upTo) break;
+      if (g.ts !== this.lastOut) this.inner.emitTs(g.ts);
+      this.lastOut = g.ts;
+      for (const fn of g.ops) fn(this.inner);
+      n++;
+    }
+    if (n) this.pending.splice(0, n);
+    if (!this.pending.includes(this.cur!)) this.cur = undefined;
+  }
+
+  /**
+   * Close the current output and continue in the next segment at `abs` (source ms).
+   * The new header timestamp is exact when the time is `continuous` (overflow);
+   * after a reset the real time is unknown, so it continues from the last row.
+   */
+  private split(abs: number, kind: "reset" | "overflow", raw: number, continuous: boolean) {
+    this.flush(Infinity);
+    this.report(kind, raw, "split", this.outputs.length + 1);
+
+    this.baseTs += continuous ? abs - this.offset : Math.max(this.lastOut, 0);
+    this.offset = abs;
+    this.high = 0;
+    this.lastOut = -1;
+    this.inner.split(kind, this.baseTs, 0);
+  }
+
+  private report(kind: TimeAnomalyKind, ts: number, action: TimeAnomaly["action"], segment = this.outputs.length) {
+    const a: TimeAnomaly = { kind, line: this.locate?.(), ts, prev: Math.max(this.high, 0), action, segment };
+    this.anomalies.push(a);
+    this.onAnomaly?.(a);
+  }
+}
+
+/** One line per anomaly kind, with the first few places it happened. */
+export function formatTimeAnomalies(anomalies: TimeAnomaly[]): string[] {
+  const byKind = new Map<TimeAnomalyKind, TimeAnomaly[]>();
+  for (const a of anomalies) {
+    const l = byKind.get(a.kind) ?? [];
+    l.push(a);
+    byKind.set(a.kind, l);
+  }
+  const out: string[] = [];
+  for (const [kind, list] of byKind) {
+    const where = list.slice(0, REPORT_LIMIT).map((a) =>
+      `${a.line !== undefined ? `line ${a.line} ` : ""}t=${a.ts} after ${a.prev}`);
+    const more = list.length > REPORT_LIMIT ? `, ... ${list.length - REPORT_LIMIT} more` : "";
+    out.push(`${kind} x${list.length} (${list[0].action}): ${where.join(", ")}${more}`);
+  }
+  return out;
+}
+
+/**
+ * Wrap a factory so its sink gets validated times and can be split into
+ * segments; `onCreate` receives the guard, `locate` the current source line.
+ */
+export function withTimeGuard(
+  factory: SinkFactory,
+  opts: { time?: TimeGuardOptions; segment?: SegmentOptions; locate?: () => number | undefined },
+  onCreate?: (g: TimeGuardSink) => void
+): SinkFactory {
+  return (outFile, baseTs, utcOffsetSec) => {
+    const seg = new SegmentedSink(factory, outFile, baseTs, utcOffsetSec, opts.segment);
+    const g = new TimeGuardSink(seg, baseTs, opts.time, opts.locate);
+    onCreate?.(g);
+    return g;
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Receiver of the decoded telemetry stream produced by the SAX pipelines.
+ * ApxTlmWriter is the canonical implementation; exporters plug in their own.
+ */
+export interface TlmSink {
+  writeHeaderPlaceholder(): void;
+  emitInfo(info: any): void;
+
+  emitField(name: string, info?: string[]): void;
+  emitEvtId(name: string, keys: string[]): void;
+
+  emitTs(ms: number): void;
+  emitNumber(fieldIndex: number, v: number, uplink?: boolean): void;
+  emitEvt(evIndex: number, values: string[]): void;
+  emitJso(name: string, obj: any, ts?: number): void;
+
+  finalizeToFile(): Promise<void>;
+
+  /** pending while the output cannot take more (backpressure), undefined when it can; the readers pause on it */
+  drained?(): Promise<void> | undefined;
+}
+
+/** Called once per output when the pipeline knows its base timestamp. */
+export type SinkFactory = (outFile: string, baseTs: number, utcOffsetSec: number) => TlmSink;
@@ -0,0 +1,203 @@
+import { globToRegExp } from "./glob.util";
+
+// same numbering as DSpec in apxtlm-writer.service (kept here to avoid a cycle)
+const enum Spec { u8 = 1, u16 = 2, u24 = 3, u32 = 4, u64 = 5, f16 = 6, f32 = 7, f64 = 8 }
+
+/**
+ * How a field's values go on the wire:
+ *  - auto:  non-negative integers as uint; else f16 when it loses nothing (or
+ *           stays within precision/2), f32 likewise, else f64
+ *  - uint:  smallest of u8/u16/u24/u32/u64 that fits; other values fall back to auto
+ *  - u8..u64, f16, f32, f64: that DSpec; integers that don't fit fall back to auto,
+ *    f16 outside its range to f32
+ */
+export type ValueSpec = "auto" | "uint" | "u8" | "u16" | "u24" | "u32" | "u64" | "f16" | "f32" | "f64";
+
+export const VALUE_SPECS: readonly ValueSpec[] = ["auto", "uint", "u8", "u16", "u24", "u32", "u64", "f16", "f32", "f64"];
+
+export type FieldEncoding = {
+  spec?: ValueSpec;
+  precision?: number;   // round to this step (lossy), e.g. 0.01 for roll in degrees
+  deadband?: number;    // drop changes smaller than this from the last written value
+};
+
+/**
+ * Per-field encoding by name glob (`gps_*`, comma lists allowed), first match
+ * wins. Defaults for names no entry matches: bit/option fields as uint,
+ * latitudes/longitudes (`*_lat`, `*_lon`) as f64 so centimetres survive.
+ */
+export type EncodingPolicy = Record<string, FieldEncoding>;
+
+const DEFAULT_POLICY: EncodingPolicy = {
+  "*_lat,*_lon": { spec: "f64" },
+};
+const INTEGER_TYPES = /^(bit|option|enum|bool|u?int\d*|u\d+|i\d+|byte)$/i;
+
+const F16_MAX = 65504;
+const U24_MAX = 0xFFFFFF;
+const U32_MAX = 0xFFFFFFFF;
+
+export type EncodedValue = { dspec: number; size: number; write: (b: Buffer, off: number) => void };
+
+type Rule = { match: RegExp[]; enc: FieldEncoding };
+
+function compile(policy: EncodingPolicy): Rule[] {
+  return Object.entries(policy).map(([globs, enc]) => ({
+    match: globs.split(",").map((g) => g.trim()).filter(Boolean).map(globToRegExp),
+    enc,
+  }));
+}
+
+/** Throws on unknown specs and non-positive steps; the message names the entry. */
+export function validateEncodingPolicy(policy: EncodingPolicy) {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) throw new Error("expected an object of field globs");
+  for (const [globs, enc] of Object.entries(policy)) {
+    if (!enc || typeof enc !== "object") throw new Error(`"${globs}": expected an object`);
+    if (enc.spec !== undefined && !VALUE_SPECS.includes(enc.spec)) {
+      throw new Error(`"${globs}": unknown spec "${enc.spec}" (expected ${VALUE_SPECS.join(", ")})`);
+    }
+    for (const k of ["precision", "deadband"] as const) {
+      const v = enc[k];
+      if (v !== undefined && !(typeof v === "number" && v > 0)) throw new Error(`"${globs}": ${k} must be a positive number`);
+    }
+  }
+}
+
+// half-float encode/decode helpers
+function f32ToF16Bits(val: number): number {
+  const f32 = new Float32Array(1);
+  const u32 = new Uint32Array(f32.buffer);
+  f32[0] = val;
+  const x = u32[0];
+
+  const sign = (x >>> 31) & 0x1;
+  const exp  = (x >>> 23) & 0xff;
+  const mant = x & 0x7fffff;
+
+  if (exp === 0xff) { // Inf/NaN
+    const isNaN = mant !== 0;
+    return (sign << 15) | (0x1f << 10) | (isNaN ? 0x200 : 0);
+  }
+
+  let exp16 = exp - 127 + 15;
+
+  if (exp <= 112) { // subnormal or zero
+    if (exp < 103) return (sign << 15);
+    const shift = 113 - exp;
+    let mant16 = (0x800000 | mant) >>> shift;
+    if ((mant16 & 0x1) && ((mant & ((1 << (shift - 1)) - 1)) !== 0)) mant16++;
+    return (sign << 15) | mant16;
+  } else if (exp16 >= 0x1f) {
+    return (sign << 15) | (0x1f << 10);
+  } else {
+    let mant16 = mant >>> 13;
+    const roundBit = (mant >>> 12) & 1;
+    if (roundBit && ((mant16 & 1) || (mant & 0xFFF))) mant16++;
+    if (mant16 === 0x400) {
+      mant16 = 0;
+      exp16++;
+      if (exp16 >= 0x1f) return (sign << 15) | (0x1f << 10);
+    }
+    return (sign << 15) | ((exp16 & 0x1f) << 10) | (mant16 & 0x3ff);
+  }
+}
+
+export function f16ToF32Approx(bits: number): number {
+  const s = (bits & 0x8000) ? -1 : 1;
+  const e = (bits >>> 10) & 0x1f;
+  const f = bits & 0x3ff;
+  if (e === 0) return s * Math.pow(2, -14) * (f / 1024);
+  if (e === 31) return f ? NaN : s * Infinity;
+  return s * Math.pow(2, e - 15) * (1 + f / 1024);
+}
+
+function f16(h: number): EncodedValue {
+  return { dspec: Spec.f16, size: 2, write: (b, off) => b.writeUInt16LE(h, off) };
+}
+function f32(v: number): EncodedValue {
+  return { dspec: Spec.f32, size: 4, write: (b, off) => b.writeFloatLE(v, off) };
+}
+function f64(v: number): EncodedValue {
+  return { dspec: Spec.f64, size: 8, write: (b, off) => b.writeDoubleLE(v, off) };
+}
+
+/** smallest float that gives the value back within `tolerance` (exactly by default): f16, f32, else f64 */
+function floatAuto(v: number, tolerance = 0): EncodedValue {
+  if (!Number.isFinite(v)) return f32(v);
+  const h = f32ToF16Bits(v);
+  const back = f16ToF32Approx(h);
+  if (Object.is(back, v) || Math.abs(back - v) <= tolerance) return f16(h);
+  const single = Math.fround(v);
+  if (single === v || Math.abs(single - v) <= tolerance) return f32(v);
+  return f64(v);
+}
+
+function uint(v: number, min: Spec): EncodedValue | undefined {
+  if (!Number.isInteger(v) || v < 0 || v > Number.MAX_SAFE_INTEGER) return undefined;
+  if (min <= Spec.u8 && v <= 0xFF) return { dspec: Spec.u8, size: 1, write: (b, off) => b.writeUInt8(v, off) };
+  if (min <= Spec.u16 && v <= 0xFFFF) return { dspec: Spec.u16, size: 2, write: (b, off) => b.writeUInt16LE(v, off) };
+  if (min <= Spec.u24 && v <= U24_MAX) return { dspec: Spec.u24, size: 3, write: (b, off) => b.writeUIntLE(v, off, 3) };
+  if (min <= Spec.u32 && v <= U32_MAX) return { dspec: Spec.u32, size: 4, write: (b, off) => b.writeUInt32LE(v, off) };
+  return { dspec: Spec.u64, size: 8, write: (b, off) => b.writeBigUInt64LE(BigInt(v), off) };
+}
+
+function fixedUint(v: number, spec: Spec, max: number): EncodedValue | undefined {
+  if (v > max) return undefined;
+  const e = uint(v, spec);
+  return e?.dspec === spec ? e : undefined;
+}
+
+/**
+ * Encoding decisions of one output: resolved per field when it is declared,
+ * applied per value by ApxTlmWriter.emitNumber.
+ */
+export class ValueEncoder {
+  private rules: Rule[];
+  private defaults = compile(DEFAULT_POLICY);
+  private fields: Array<FieldEncoding & { spec: ValueSpec }> = [];
+
+  constructor(policy: EncodingPolicy = {}) {
+    this.rules = compile(policy);
+  }
+
+  /** `info` as given to emitField: [title, units, type, ...] */
+  declare(name: string, info: string[] = []) {
+    const hit = (rules: Rule[]) => rules.find((r) => r.match.some((m) => m.test(name)))?.enc;
+    const enc = hit(this.rules) ?? hit(this.defaults) ?? {};
+    const spec = enc.spec ?? (INTEGER_TYPES.test(info[2] ?? "") ? "uint" : "auto");
+    this.fields.push({ ...enc, spec });
+  }
+
+  /** value after the precision policy */
+  quantize(index: number, v: number): number {
+    const p = this.fields[index]?.precision;
+    if (!p || !Number.isFinite(v)) return v;
+    const digits = Math.max(0, Math.min(15, -Math.floor(Math.log10(p)) + 1));
+    return Number((Math.round(v / p) * p).toFixed(digits));
+  }
+
+  /** false when the change from `prev` is inside the deadband */
+  changed(index: number, prev: number | undefined, v: number): boolean {
+    if (prev === undefined) return true;
+    if (Object.is(prev, v)) return false;
+    const d = this.fields[index]?.deadband;
+    return !(d && Math.abs(v - prev) < d);
+  }
+
+  encode(index: number, v: number): EncodedValue {
+    const f = this.fields[index];
+    const tol = f?.precision ? f.precision / 2 : 0;
+    const auto = () => uint(v, Spec.u8) ?? floatAuto(v, tol);
+    switch (f?.spec ?? "auto") {
+      case "u8": return fixedUint(v, Spec.u8, 0xFF) ?? auto();
+      case "u16": return fixedUint(v, Spec.u16, 0xFFFF) ?? auto();
+      case "u24": return fixedUint(v, Spec.u24, U24_MAX) ?? auto();
+      case "u32": return fixedUint(v, Spec.u32, U32_MAX) ?? auto();
+      case "u64": return fixedUint(v, Spec.u64, Number.MAX_SAFE_INTEGER) ?? auto();
+      case "f16": return Math.abs(v) <= F16_MAX || !Number.isFinite(v) ? f16(f32ToF16Bits(v)) : f32(v);
+      case "f32": return f32(v);
+      case "f64": return f64(v);
+      default: return auto();   // auto, uint
+    }
+  }
+}
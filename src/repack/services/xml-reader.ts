@@ -0,0 +1,147 @@
+import sax from "sax";
+import { XMLParser } from "fast-xml-parser";
+import { log } from "../log";
+import { RepackSource, parseSource } from "./source";
+import { XmlRecovery, RecoveryReport } from "./recovery";
+
+/**
+ * SAX parser of the XML adapters, with the recovery bookkeeping around the
+ * capture (row/event/uplink) currently being read: a capture that saw a
+ * parser error is damaged and dropped, one cut off by the end of the input is
+ * recorded as skipped.
+ */
+export class XmlReader {
+  readonly parser = sax.createStream(true, { trim: false, normalize: false });
+  readonly recovery?: XmlRecovery;
+
+  private capStart = 0;
+  private capLine = 0;
+  private capErrors = 0;
+
+  constructor(recover?: boolean) {
+    if (recover) this.recovery = new XmlRecovery(this.parser._parser);
+  }
+
+  /** 1-based line being parsed, for diagnostics */
+  get line(): number {
+    return this.parser._parser.line + 1;
+  }
+
+  /** parser errors resumed after so far */
+  get errors(): number {
+    return this.recovery?.errors ?? 0;
+  }
+
+  /** a tag parsed fine */
+  tag() {
+    this.recovery?.tag();
+  }
+
+  /** a capture starts at the tag just opened */
+  begin() {
+    const p = this.parser._parser;
+    this.capStart = p.startTagPosition - 1;
+    this.capLine = p.line + 1;
+    this.capErrors = this.errors;
+  }
+
+  /** the current capture saw a parser error (recovery mode only) */
+  get damaged(): boolean {
+    return !!this.recovery && this.recovery.errors !== this.capErrors;
+  }
+
+  /** input ended inside the capture: all of it is lost */
+  cutCapture(reason: string) {
+    this.recovery?.cut(this.capStart, this.capLine, reason);
+  }
+
+  /** input ended inside the capture: its last `lost` characters are */
+  cutTail(lost: number, reason: string) {
+    const p = this.parser._parser;
+    this.recovery?.cut(p.position - lost, p.line + 1, reason);
+  }
+
+  /** Parse the whole source; `inCapture` tells where a damaged stretch starts, `drained` is the output backpressure. */
+  async parse(input: RepackSource, inCapture: () => boolean, drained?: () => Promise<void> | undefined): Promise<RecoveryReport | undefined> {
+    const recovery = this.recovery;
+    await parseSource(input, this.parser, recovery && ((e) => {
+      recovery.error(e, inCapture() ? this.capStart : undefined);
+    }), drained);
+    return recovery?.finish();
+  }
+}
+
+function openTagToString(name: string, attrs: Record<string, any>): string {
+  const a = Object.entries(attrs ?? {}).map(([k, v]) => `${k}="${String(v)}"`).join(" ");
+  return a.length ? `<${name} ${a}>` : `<${name}>`;
+}
+function closeTagToString(name: string): string { return `</${name}>`; }
+
+/**
+ * An element re-serialized while it streams by and parsed into an object
+ * when it closes (nodes, mission, mandala, …).
+ */
+export class XmlObjectCapture {
+  private name = "";
+  private depth = 0;
+  private xml: string[] = [];
+  private errors = 0;
+
+  constructor(private reader: XmlReader, private onObject: (name: string, value: any) => void) {}
+
+  get active(): boolean {
+    return this.name !== "";
+  }
+
+  /** start capturing at `name` (stack depth `depth`) unless already inside an object */
+  start(name: string, depth: number) {
+    if (this.active) return;
+    this.name = name;
+    this.depth = depth;
+    this.xml = [];
+    this.errors = this.reader.errors;
+  }
+
+  open(name: string, attrs: Record<string, any>) {
+    if (this.active) this.xml.push(openTagToString(name, attrs));
+  }
+
+  text(txt: string) {
+    if (this.active && txt) this.xml.push(txt);
+  }
+
+  /** `depth`: stack depth of the closing element */
+  close(name: string, depth: number) {
+    if (!this.active) return;
+    this.xml.push(closeTagToString(name));
+    if (name !== this.name || depth !== this.depth) return;
+
+    if (this.reader.errors !== this.errors) {
+      log.warn(`[repack][recover] <${this.name}> object dropped after a parser error`);
+    } else {
+      try {
+        const parser = new XMLParser({
+          ignoreAttributes: false,
+          ignoreDeclaration: true,
+          attributeNamePrefix: "@_",
+          textNodeName: "#text",
+          trimValues: true,
+          allowBooleanAttributes: true,
+          parseTagValue: false
+        });
+        const obj = parser.parse(this.xml.join(""));
+        this.onObject(this.name, (obj as any)[this.name] ?? obj);
+      } catch (e: any) {
+        log.warn(`[repack][warn] JSO parse failed <${this.name}>: ${e?.message ?? e}`);
+      }
+    }
+    this.name = "";
+    this.depth = 0;
+    this.xml = [];
+  }
+
+  /** input ended inside the object */
+  truncated() {
+    if (this.active) log.warn(`[repack][recover] truncated <${this.name}> object dropped`);
+  }
+}
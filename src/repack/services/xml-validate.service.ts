@@ -0,0 +1,251 @@
+import sax from "sax";
+import { XmlKind } from "../sniff.service";
+import { RepackSource, parseSource, sourceName } from "./source";
+import { TlmSink } from "./tlm-sink";
+import { TimeGuardSettings, withTimeGuard } from "./time-guard";
+
+export type ValidateSeverity = "error" | "warning";
+
+export type ValidateCode =
+  | "xml"              // not well-formed
+  | "truncated"        // ends inside an element
+  | "root"             // unexpected root element
+  | "element"          // unknown top-level element
+  | "fields-missing"   // rows before (or without) a field list
+  | "fields-short"     // field list the pipeline ignores (< 5 names)
+  | "row-columns"      // row length does not match the field list
+  | "value"            // cell / uplink value that is not a number
+  | "time"             // missing, unparsable or anomalous timestamp
+  | "empty";           // no data rows
+
+export type ValidateDiagnostic = {
+  severity: ValidateSeverity;
+  code: ValidateCode;
+  line: number;        // 1-based
+  column: number;      // 1-based
+  message: string;
+};
+
+export type ValidateOptions = {
+  maxPerCode?: number;         // diagnostics kept per code, default 20 (all are counted)
+  time?: TimeGuardSettings;    // thresholds for timestamp anomalies
+};
+
+export type ValidateReport = {
+  file: string;
+  kind: XmlKind;
+  rows: number;
+  fields: number;
+  errors: number;
+  warnings: number;
+  counts: Partial<Record<ValidateCode, number>>;
+  diagnostics: ValidateDiagnostic[];
+};
+
+const DEFAULT_MAX_PER_CODE = 20;
+const EPOCH_2000_MS = Date.UTC(2000, 0, 1);
+const MIN_FIELDS = 5;         // shorter <fields> lists are ignored by the telemetry pipeline
+
+// children of the root element the pipelines know about
+const TELEMETRY_TOP = new Set(["title", "timestamp", "exported", "version", "sharedHash", "user", "info", "stats", "fields", "data"]);
+const DATALINK_TOP = new Set(["mandala", "mission", "nodes", "msg", "S", "D", "U", "event", "evt"]);
+
+/** TlmSink that drops everything; only the time guard in front of it matters. */
+const nullSink: TlmSink = {
+  writeHeaderPlaceholder() {},
+  emitInfo() {},
+  emitField() {},
+  emitEvtId() {},
+  emitTs() {},
+  emitNumber() {},
+  emitEvt() {},
+  emitJso() {},
+  async finalizeToFile() {},
+};
+
+/**
+ * Stream a .telemetry / .datalink XML and check it against the structure the
+ * repack pipelines expect, without writing anything. Problems the pipelines
+ * would silently work around (dropped cells, ignored field lists, clamped
+ * times) are reported next to the ones that make them fail.
+ */
+export async function validateXml(input: RepackSource, kind: XmlKind, opts: ValidateOptions = {}): Promise<ValidateReport> {
+  const maxPerCode = Math.max(0, opts.maxPerCode ?? DEFAULT_MAX_PER_CODE);
+  const rep: ValidateReport = {
+    file: sourceName(input), kind, rows: 0, fields: 0, errors: 0, warnings: 0, counts: {}, diagnostics: [],
+  };
+
+  const parser = sax.createStream(true, { trim: false, normalize: false });
+  const p = parser._parser;
+  let at = { line: 1, column: 1 };
+  const here = () => ({ line: p.line + 1, column: p.column + 1 });
+
+  const report = (severity: ValidateSeverity, code: ValidateCode, message: string, pos = at) => {
+    const n = (rep.counts[code] ?? 0) + 1;
+    rep.counts[code] = n;
+    if (severity === "error") rep.errors++;
+    else rep.warnings++;
+    if (n <= maxPerCode) rep.diagnostics.push({ severity, code, ...pos, message });
+  };
+
+  const guard = withTimeGuard(() => nullSink, {
+    time: {
+      ...opts.time,
+      policy: "clamp",
+      onAnomaly: (a) => report("warning", "time", `${a.kind}: t=${a.ts} after ${a.prev} (repack: ${a.action})`),
+    },
+  })("", 0, 0);
+
+  const stack: string[] = [];
+  let fields: string[] | undefined;
+  let fieldsText = "";
+  let inFields = false;
+  let warnedNoFields = false;
+
+  let row: { tag: string; attrs: Record<string, string>; text: string } | undefined;
+  let uplink: { name: string; text: string } | undefined;
+  let uptimeIdx = -1;
+  let uptimeBase: number | undefined;
+
+  const isRow = (name: string) => kind === "telemetry" ? name === "D" && stack[1] === "data" : (name === "S" || name === "D") && stack.length === 2;
+  const isUplink = (name: string) => name === "U" && (kind === "telemetry" ? stack[1] === "data" : stack.length === 2);
+
+  const closeFields = () => {
+    const list = fieldsText.split(/[,\s;]+/).map((s) => s.trim()).filter(Boolean);
+    if (kind === "telemetry" && list.length < MIN_FIELDS) {
+      report("warning", "fields-short", `<fields> lists ${list.length} name(s); lists under ${MIN_FIELDS} are ignored and columns become #0..#N`);
+      return;
+    }
+    fields = list;
+    rep.fields = list.length;
+    uptimeIdx = list.indexOf("dl_timestamp");
+  };
+
+  const rowTime = (r: NonNullable<typeof row>, cells: string[]): number | undefined => {
+    const raw = kind === "telemetry" ? r.attrs.t : r.attrs.t ?? r.attrs.ts ?? r.attrs.time_ms ?? r.attrs.UTC;
+    if (raw !== undefined) {
+      const t = Number(raw);
+      if (!Number.isFinite(t)) report("error", "time", `<${r.tag}> t="${raw}" is not a number`);
+      return Number.isFinite(t) ? t : undefined;
+    }
+    if (kind === "datalink" && uptimeIdx >= 0) {
+      const up = Number(cells[uptimeIdx]);
+      if (cells[uptimeIdx] && Number.isFinite(up)) {
+        uptimeBase ??= up;
+        return up - uptimeBase;
+      }
+      return undefined;
+    }
+    report("warning", "time", `<${r.tag}> has no t attribute (written at 0)`);
+    return undefined;
+  };
+
+  const closeRow = (r: NonNullable<typeof row>) => {
+    rep.rows++;
+    const cells = kind === "telemetry" ? r.text.split(",") : r.text.trim().split(",").map((s) => s.trim());
+    if (!fields && !warnedNoFields) {
+      report("error", "fields-missing", `<${r.tag}> row before any <fields> list: columns are written as #0..#${cells.length - 1}`);
+      warnedNoFields = true;
+    }
+    if (fields) {
+      if (cells.length > fields.length) {
+        report("error", "row-columns", `<${r.tag}> has ${cells.length} values for ${fields.length} fields: the last ${cells.length - fields.length} are dropped`);
+      } else if (kind === "datalink" && cells.length < fields.length) {
+        // telemetry rows end at the last changed value; datalink rows are complete
+        report("warning", "row-columns", `<${r.tag}> has ${cells.length} values for ${fields.length} fields`);
+      }
+    }
+    cells.forEach((s, i) => {
+      const v = s.trim();
+      if (v !== "" && !Number.isFinite(Number(v))) {
+        report("error", "value", `<${r.tag}> column ${i + 1} (${fields?.[i] ?? `#${i}`}): "${v.slice(0, 40)}" is not a number`);
+      }
+    });
+    const t = rowTime(r, cells);
+    if (t !== undefined) guard.emitTs(t);
+  };
+
+  parser.on("opentag", (tag) => {
+    const name = tag.name;
+    const attrs = Object.fromEntries(Object.entries(tag.attributes ?? {}).map(([k, v]) => [k, String(v)]));
+    at = here();
+    stack.push(name);
+
+    if (stack.length === 1) {
+      const ok = kind === "telemetry" ? name.toLowerCase() === "telemetry" : /^telemetry\./i.test(name);
+      if (!ok) report("error", "root", `root element <${name}> is not a ${kind} document`);
+      // datalink: time_ms is the uptime at capture start unless it is an epoch value
+      const up = Number(attrs.time_ms);
+      if (kind === "datalink" && Number.isFinite(up) && up < EPOCH_2000_MS) uptimeBase = up;
+      return;
+    }
+    if (stack.length === 2) {
+      const known = kind === "telemetry" ? TELEMETRY_TOP : DATALINK_TOP;
+      if (!known.has(name)) {
+        report("warning", "element", kind === "telemetry"
+          ? `unknown element <${name}> under the root is ignored`
+          : `unknown element <${name}> under the root is embedded as an object`);
+      }
+    }
+
+    const isFieldList = name === "fields" && (kind === "telemetry" ? stack.length === 2 : stack[1] === "mandala");
+    if (isFieldList) {
+      inFields = true;
+      fieldsText = "";
+    } else if (isRow(name)) {
+      row = { tag: name, attrs, text: "" };
+    } else if (isUplink(name)) {
+      uplink = { name: attrs.name ?? attrs.f ?? "", text: "" };
+    } else if (kind === "telemetry" && uplink && stack.length > 3) {
+      // nested form: <U><x name=".." t="..">v</x></U>
+      uplink = { name: attrs.name ?? "", text: "" };
+    }
+  });
+
+  parser.on("text", (txt) => {
+    if (inFields) fieldsText += txt;
+    if (row) row.text += txt;
+    if (uplink) uplink.text += txt;
+  });
+
+  parser.on("closetag", (name) => {
+    if (inFields && name === "fields") {
+      inFields = false;
+      closeFields();
+    } else if (row && name === row.tag) {
+      closeRow(row);
+      row = undefined;
+    } else if (uplink) {
+      const v = uplink.text.trim();
+      if (uplink.name && v !== "" && !Number.isFinite(Number(v))) {
+        report("error", "value", `uplink ${uplink.name}: "${v.slice(0, 40)}" is not a number`);
+      }
+      uplink = name === "U" ? undefined : { name: "", text: "" };
+    }
+    stack.pop();
+  });
+
+  // the stream resumes the parser after each error, so all problems get collected
+  await parseSource(input, parser, (e) => {
+    const msg = String(e.message).split("\n")[0];
+    const truncated = /unclosed root tag|unexpected end/i.test(msg);
+    report("error", truncated ? "truncated" : "xml", truncated ? `file ends inside <${stack[stack.length - 1] ?? "?"}>: truncated?` : msg, here());
+  });
+
+  if (!fields && !rep.rows) report("error", "fields-missing", "no <fields> list", here());
+  if (!rep.rows) report("warning", "empty", "no data rows", here());
+  return rep;
+}
+
+/** `file:line:col: severity code: message` lines, then a summary. */
+export function formatValidateReport(rep: ValidateReport): string[] {
+  const out = rep.diagnostics.map((d) => `${rep.file}:${d.line}:${d.column}: ${d.severity} ${d.code}: ${d.message}`);
+  const shown = new Map<ValidateCode, number>();
+  for (const d of rep.diagnostics) shown.set(d.code, (shown.get(d.code) ?? 0) + 1);
+  for (const [code, n] of Object.entries(rep.counts) as Array<[ValidateCode, number]>) {
+    const more = n - (shown.get(code) ?? 0);
+    if (more > 0) out.push(`... ${more} more ${code}`);
+  }
+  out.push(`${rep.kind}: ${rep.rows} rows, ${rep.fields} fields, ${rep.errors} error(s), ${rep.warnings} warning(s)`);
+  return out;
+}
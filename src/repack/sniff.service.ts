@@ -1,46 +1,134 @@
 import * as fs from "fs";
 import * as path from "path";
 import { XMLParser } from "fast-xml-parser";
+import { ZipEntry, fileCompression, listZipEntries, readHeadSync, stripCompressionExt, zipXmlEntries } from "./services/compressed";
 
-export type FileKind = "telemetry" | "datalink";
+/** XML exports of the ground station */
+export type XmlKind = "telemetry" | "datalink";
+/** Every input the repack pipelines read: XML exports, MAVLink .tlog and ArduPilot DataFlash .bin logs. */
+export type FileKind = XmlKind | "tlog" | "dataflash";
 
-/** Cheap, defensive sniff of file kind by extension, content head and XML tags. */
-export function sniffXmlKind(filePath: string): FileKind | null {
+export function isXmlKind(kind: FileKind): kind is XmlKind {
+  return kind === "telemetry" || kind === "datalink";
+}
+
+const SNIFF_BYTES = 64 * 1024;
+const DATAFLASH_MAGIC = [0xA3, 0x95, 0x80];   // header + FMT, every log starts with its format table
+const MAVLINK_MAGIC = [0xFE, 0xFD];           // v1, v2
+const TLOG_MIN_US = Date.UTC(2000, 0, 1) * 1000;
+const TLOG_MAX_US = Date.UTC(2100, 0, 1) * 1000;
+
+/**
+ * Sniff of any input by content, then extension: binary logs by their magic
+ * bytes, XML as sniffXmlKind does. Compressed files are sniffed on their
+ * content; zip archives by `entry`, or the first telemetry/datalink entry.
+ */
+export function sniffKind(filePath: string, entry?: ZipEntry): FileKind | null {
+  if (!entry && fileCompression(filePath) === "zip") {
+    try { entry = zipXmlEntries(filePath)[0]; } catch { return null; }
+    if (!entry) return null;
+  }
+  return sniffKindFromHead(readHeadSync(filePath, SNIFF_BYTES, entry), entry?.name ?? filePath);
+}
+
+/** Same sniff for content that is not a file (streams, buffers); `name` enables the extension hints. */
+export function sniffKindFromHead(head: Buffer, name?: string): FileKind | null {
+  return sniffBinaryKindFromHead(head, name) ?? sniffXmlKindFromHead(head.toString("utf8"), name);
+}
+
+function sniffBinaryKindFromHead(head: Buffer, name?: string): FileKind | null {
+  if (DATAFLASH_MAGIC.every((b, i) => head[i] === b)) return "dataflash";
+  // tlog record: u64 BE microseconds since the epoch, then a MAVLink packet
+  if (head.length >= 9 && MAVLINK_MAGIC.includes(head[8])) {
+    const us = Number(head.readBigUInt64BE(0));
+    if (us >= TLOG_MIN_US && us < TLOG_MAX_US) return "tlog";
+  }
+  const base = path.basename(stripCompressionExt(name ?? "")).toLowerCase();
+  if (base.endsWith(".tlog")) return "tlog";
+  return null;
+}
+
+/**
+ * Cheap, defensive sniff of XML kind by extension, content head and XML tags.
+ * Compressed files are sniffed on their content; zip archives by `entry`, or
+ * the first telemetry/datalink entry.
+ */
+export function sniffXmlKind(filePath: string, entry?: ZipEntry): XmlKind | null {
+  if (!entry && fileCompression(filePath) === "zip") {
+    try { entry = zipXmlEntries(filePath)[0]; } catch { return null; }
+    if (!entry) return null;
+  }
+  return sniffXmlKindFromHead(readHeadSync(filePath, SNIFF_BYTES, entry).toString("utf8"), entry?.name ?? filePath);
+}
+
+/** Same sniff for content that is not a file (streams, buffers); `name` enables the extension hints. */
+export function sniffXmlKindFromHead(head: string, name?: string): XmlKind | null {
+  const lower = head.toLowerCase();
+
+  // Extension hints
+  const base = path.basename(stripCompressionExt(name ?? "")).toLowerCase();
+  if (base.endsWith(".telemetry")) return "telemetry";
+  if (base.endsWith(".datalink.xml") || base.includes(".datalink")) return "datalink";
+
+  // Text heuristics; the datalink root is <telemetry.gcu.uavos.com>
+  if (/<telemetry\.[\w.]+/.test(lower)) return "datalink";
+  if (lower.includes("<telemetry")) return "telemetry";
+  if (lower.includes("<mandala") || lower.includes("<s>") || lower.includes("<d>")) return "datalink";
+
+  // Fallback: try parsing the head
+  try {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      ignoreDeclaration: true,
+      attributeNamePrefix: "@_",
+      textNodeName: "#text",
+      trimValues: true,
+      allowBooleanAttributes: true,
+      parseTagValue: false
+    });
+    const doc = parser.parse(head);
+    const keys = Object.keys(doc).filter(k => !k.startsWith("?"));
+    if (keys.some(k => k.toLowerCase().includes("telemetry"))) return "telemetry";
+    if (keys.some(k => k.toLowerCase().includes("datalink") || k.toLowerCase().includes("mandala")))
+      return "datalink";
+  } catch { /* ignore */ }
+
+  return null;
+}
+
+/** True when the file starts with the APXTLM magic (i.e. is already a repack output). */
+export function isApxTlmFile(filePath: string): boolean {
   const fd = fs.openSync(filePath, "r");
   try {
-    const buf = Buffer.allocUnsafe(64 * 1024);
+    const buf = Buffer.alloc(6);
     const n = fs.readSync(fd, buf, 0, buf.length, 0);
-    const head = buf.slice(0, Math.max(0, n)).toString("utf8");
-    const lower = head.toLowerCase();
-
-    // Extension hints
-    const base = path.basename(filePath).toLowerCase();
-    if (base.endsWith(".telemetry")) return "telemetry";
-    if (base.endsWith(".datalink.xml") || base.includes(".datalink")) return "datalink";
-
-    // Text heuristics
-    if (lower.includes("<telemetry")) return "telemetry";
-    if (lower.includes("<mandala") || lower.includes("<s>") || lower.includes("<d>")) return "datalink";
-
-    // Fallback: try parsing the head
-    try {
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        ignoreDeclaration: true,
-        attributeNamePrefix: "@_",
-        textNodeName: "#text",
-        trimValues: true,
-        allowBooleanAttributes: true,
-        parseTagValue: false
-      });
-      const doc = parser.parse(head);
-      const keys = Object.keys(doc).filter(k => !k.startsWith("?"));
-      if (keys.some(k => k.toLowerCase().includes("telemetry"))) return "telemetry";
-      if (keys.some(k => k.toLowerCase().includes("datalink") || k.toLowerCase().includes("mandala")))
-        return "datalink";
-    } catch { /* ignore */ }
-
-    return null;
+    return n === buf.length && buf.toString("ascii") === "APXTLM";
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * True when the file ends with the closing tag of its root element (export fully written).
+ * Zip archives need their central directory; gzip/zstd have no cheap end marker and pass.
+ */
+export function xmlLooksComplete(filePath: string): boolean {
+  const c = fileCompression(filePath);
+  if (c === "zip") {
+    try { listZipEntries(filePath); return true; } catch { return false; }
+  }
+  if (c) return true;
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const head = Buffer.alloc(Math.min(4096, size));
+    fs.readSync(fd, head, 0, head.length, 0);
+    const m = /<([A-Za-z_][\w.\-:]*)[\s>\/]/.exec(head.toString("utf8").replace(/<\?[\s\S]*?\?>/g, "").replace(/<!--[\s\S]*?-->/g, ""));
+    if (!m) return false;
+
+    const tail = Buffer.alloc(Math.min(4096, size));
+    fs.readSync(fd, tail, 0, tail.length, size - tail.length);
+    return new RegExp(`</${m[1].replace(/[.\-]/g, "\\$&")}\\s*>\\s*$`).test(tail.toString("utf8"));
   } finally {
     fs.closeSync(fd);
   }
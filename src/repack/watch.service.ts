@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+import { sniffKind, isXmlKind, xmlLooksComplete } from "./sniff.service";
+import { createRepackRunner } from "./factory";
+import { ZipEntry, fileCompression, openZipEntry, stripCompressionExt, zipXmlEntries } from "./services/compressed";
+import { formatRecovery } from "./services/recovery";
+
+export type WatchOptions = {
+  inbox: string;
+  outDir: string;
+  intervalMs?: number;      // poll period, default 2000
+  stableChecks?: number;    // polls with unchanged size before a file is taken, default 2
+  unclosedChecks?: number;  // further stable polls an XML file may lack its closing tag before it is repacked with recovery, default 30
+  utcOffset?: number;
+  includeJso?: boolean;
+  log?: (msg: string) => void;
+};
+
+export type WatchHandle = {
+  /** stop polling and wait for the file in progress */
+  close(): Promise<void>;
+};
+
+type Candidate = { size: number; mtimeMs: number; stable: number };
+
+/** `dir/name`, or `dir/<name>.<ts><ext>` when that is taken */
+function freePath(dir: string, name: string): string {
+  const dst = path.join(dir, name);
+  if (!fs.existsSync(dst)) return dst;
+  const p = path.parse(name);
+  return path.join(dir, `${p.name}.${Date.now()}${p.ext}`);
+}
+
+/** move `file` into `dir`, never overwriting */
+function moveInto(file: string, dir: string): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const dst = freePath(dir, path.basename(file));
+  fs.renameSync(file, dst);
+  return dst;
+}
+
+/**
+ * Poll an inbox folder and repack every file once it is stable (size unchanged
+ * for `stableChecks` polls and the XML root closed). Polling instead of
+ * fs.watch because ground stations drop files onto network shares. XML that
+ * stays unclosed (ground station crashed mid-write) is repacked with recovery
+ * after `unclosedChecks` more polls. A zip archive with several
+ * telemetry/datalink files gives one output per entry, as in batch. Outputs
+ * never overwrite each other; sources go to <inbox>/processed or
+ * <inbox>/failed (+ <name>.error.json).
+ */
+export function watchInbox(opts: WatchOptions): WatchHandle {
+  const inbox = path.resolve(opts.inbox);
+  const outDir = path.resolve(opts.outDir);
+  const processedDir = path.join(inbox, "processed");
+  const failedDir = path.join(inbox, "failed");
+  const intervalMs = opts.intervalMs ?? 2000;
+  const stableChecks = opts.stableChecks ?? 2;
+  const unclosedChecks = opts.unclosedChecks ?? 30;
+  const log = opts.log ?? ((m: string) => console.log(m));
+
+  const seen = new Map<string, Candidate>();
+  let busy: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  /** repack `file` (or its archive entry) to a free name in outDir; `[kind] name → output (ms)` for the log */
+  const repackInput = async (file: string, entry: ZipEntry | undefined, recover: boolean): Promise<string> => {
+    const t0 = Date.now();
+    const name = entry ? path.join(file, entry.name) : file;
+    const kind = sniffKind(file, entry);
+    if (!kind) throw new Error("cannot detect file type (telemetry/datalink/tlog/dataflash)");
+    const outFile = freePath(outDir, `${path.parse(stripCompressionExt(name)).name}.apxtlm`);
+    await createRepackRunner(kind)(entry ? openZipEntry(file, entry) : file, outFile, {
+      name: entry && name,
+      mtimeMs: entry?.mtimeMs,
+      utcOffset: opts.utcOffset ?? 0,
+      includeJso: opts.includeJso ?? true,
+      recover,
+      onRecovery: (r) => { for (const line of formatRecovery(r)) log(`[watch] recover ${path.basename(name)}: ${line}`); },
+    });
+    return `[${kind}] ${entry ? `${path.basename(file)}/${entry.name}` : path.basename(file)} → ${outFile} (${Date.now() - t0} ms)`;
+  };
+
+  const processFile = async (file: string, recover: boolean) => {
+    const kind = sniffKind(file);
+    try {
+      const entries = fileCompression(file) === "zip" ? zipXmlEntries(file) : [];
+      if (entries.length > 1) {
+        // every entry is tried; the archive fails when one of them does
+        const failed: string[] = [];
+        for (const e of entries) {
+          try {
+            log(`[watch] ok     ${await repackInput(file, e, recover)}`);
+          } catch (err: any) {
+            failed.push(`${e.name}: ${err?.message ?? err}`);
+          }
+        }
+        if (failed.length) throw new Error(`${failed.length} of ${entries.length} entries failed: ${failed.join("; ")}`);
+        log(`[watch] ok     ${path.basename(file)}: ${entries.length} entries, source → ${moveInto(file, processedDir)}`);
+      } else {
+        const done = await repackInput(file, undefined, recover);
+        log(`[watch] ok     ${done}, source → ${moveInto(file, processedDir)}`);
+      }
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      try {
+        const moved = moveInto(file, failedDir);
+        fs.writeFileSync(`${moved}.error.json`, JSON.stringify({
+          file: path.basename(file), kind, error: msg, time: new Date().toISOString(),
+        }, null, 2));
+      } catch (e2: any) {
+        log(`[watch] cannot move failed file ${file}: ${e2?.message ?? e2}`);
+      }
+      log(`[watch] FAILED ${path.basename(file)}: ${msg}`);
+    }
+  };
+
+  const poll = () => {
+    if (closed) return;
+    let names: string[];
+    try { names = fs.readdirSync(inbox); } catch (e: any) {
+      log(`[watch] cannot read ${inbox}: ${e?.message ?? e}`);
+      return;
+    }
+
+    const present = new Set<string>();
+    for (const name of names) {
+      if (name.startsWith(".")) continue;
+      const file = path.join(inbox, name);
+      let st: fs.Stats;
+      try { st = fs.statSync(file); } catch { continue; }
+      if (!st.isFile()) continue;
+      present.add(file);
+
+      const prev = seen.get(file);
+      if (!prev || prev.size !== st.size || prev.mtimeMs !== st.mtimeMs) {
+        seen.set(file, { size: st.size, mtimeMs: st.mtimeMs, stable: 0 });
+        continue;
+      }
+      if (prev.stable < 0) continue;      // queued already
+      if (++prev.stable < stableChecks) continue;
+      // unknown files are failed right away; XML waits for its closing tag, binary logs only for a stable size
+      const kind = sniffKind(file);
+      const unclosed = !!kind && isXmlKind(kind) && !xmlLooksComplete(file);
+      if (unclosed) {
+        if (prev.stable === stableChecks) log(`[watch] wait   ${name}: no closing tag yet`);
+        if (prev.stable < stableChecks + unclosedChecks) continue;
+        log(`[watch] ${name}: still no closing tag, repacking what parses`);
+      }
+
+      prev.stable = -1;
+      busy = busy.then(() => processFile(file, unclosed)).finally(() => seen.delete(file));
+    }
+    for (const f of seen.keys()) if (!present.has(f) && (seen.get(f)!.stable >= 0)) seen.delete(f);
+  };
+
+  fs.mkdirSync(outDir, { recursive: true });
+  log(`[watch] watching ${inbox} → ${outDir} (every ${intervalMs} ms)`);
+  const timer = setInterval(poll, intervalMs);
+  poll();
+
+  return {
+    async close() {
+      closed = true;
+      clearInterval(timer);
+      await busy;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Writable } from "stream";
+import { repack, repackToBuffer } from "../src/repack/repacker.service";
+import { ExitCode, OutputError } from "../src/repack/errors";
+
+const FIXTURE = path.join(__dirname, "2025_08_01_03_46_38_000-TR-1101.telemetry");
+
+test("an output that cannot be opened rejects with an output error", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-writer-"));
+  try {
+    const out = path.join(dir, "x.apxtlm");
+    fs.mkdirSync(out);
+    await assert.rejects(repack(FIXTURE, out), (e: any) => e instanceof OutputError && e.exitCode === ExitCode.output && /EISDIR/.test(e.message));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a slow output stream gets the whole file", async () => {
+  const chunks: Buffer[] = [];
+  let highest = 0;
+  const slow = new Writable({
+    highWaterMark: 4096,
+    write(chunk: Buffer, _enc, cb) {
+      chunks.push(chunk);
+      highest = Math.max(highest, slow.writableLength);
+      setImmediate(cb);
+    },
+  });
+  await repack(FIXTURE, slow);
+  const { data: expected } = await repackToBuffer(FIXTURE);
+  assert.ok(Buffer.concat(chunks).equals(expected));
+  // the reader paused on drain instead of queueing the whole output
+  assert.ok(highest < expected.length / 2, `${highest} bytes queued of ${expected.length}`);
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CommandSpec, parseArgs } from "../src/repack/argv";
+import { UsageError } from "../src/repack/errors";
+
+const COMMANDS: CommandSpec[] = [
+  { name: "repack", summary: "", positionals: [{ name: "input", describe: "" }], options: [] },
+  { name: "inspect", summary: "", positionals: [{ name: "file", describe: "" }], options: [] },
+];
+
+test("a bare word naming an existing path goes to the default command", () => {
+  const cwd = process.cwd();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-argv-"));
+  try {
+    fs.mkdirSync(path.join(dir, "flights"));
+    process.chdir(dir);
+    const r = parseArgs(["flights"], COMMANDS, [], "repack");
+    assert.equal(r.cmd, "repack");
+    assert.equal(r.positionals.input, "flights");
+    assert.throws(() => parseArgs(["flightz"], COMMANDS, [], "repack"), UsageError);
+  } finally {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
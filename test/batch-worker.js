@@ -0,0 +1,3 @@
+// worker_threads entry for the batch tests: the CLI, run from source
+require("tsx/cjs");
+require("../src/index.ts");
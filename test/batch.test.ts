@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runBatch } from "../src/repack/batch.service";
+import { setLogMode } from "../src/repack/log";
+
+const WORKER = path.join(__dirname, "batch-worker.js");
+
+test("inputs differing only by extension get distinct outputs", async () => {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-batch-"));
+  try {
+    const inDir = path.join(dir, "in");
+    fs.mkdirSync(inDir);
+    fs.copyFileSync(path.join(__dirname, "2025_08_01_03_46_38_000-TR-1101.telemetry"), path.join(inDir, "x.telemetry"));
+    fs.copyFileSync(path.join(__dirname, "2025_08_28_16_37_001_TR-1101.datalink"), path.join(inDir, "x.datalink"));
+    const opts = { inDir, outDir: path.join(dir, "out"), concurrency: 2, workerScript: WORKER };
+
+    const first = await runBatch(opts);
+    assert.deepEqual(first.items.map((i) => i.status), ["ok", "ok"], first.items.map((i) => i.error).join("; "));
+    const outputs = first.items.map((i) => path.relative(opts.outDir, i.output)).sort();
+    assert.deepEqual(outputs, ["x.apxtlm", "x.telemetry.apxtlm"]);
+    for (const i of first.items) assert.ok(fs.statSync(i.output).size > 0, i.output);
+
+    const second = await runBatch(opts);
+    assert.deepEqual(second.items.map((i) => i.status), ["skipped", "skipped"]);
+    assert.deepEqual(second.items.map((i) => i.output), first.items.map((i) => i.output));
+
+    // other options, other outputs: the manifest does not skip them
+    const third = await runBatch({ ...opts, filter: { fields: ["roll"] } });
+    assert.deepEqual(third.items.map((i) => i.status), ["ok", "ok"]);
+    const fourth = await runBatch({ ...opts, filter: { fields: ["roll"] } });
+    assert.deepEqual(fourth.items.map((i) => i.status), ["skipped", "skipped"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
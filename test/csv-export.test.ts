@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CsvSink, CsvExportOptions } from "../src/repack/services/csv-export.service";
+import { setLogMode } from "../src/repack/log";
+
+/** a, two rows, then b declared late (as merge does with a second source's fields), one more row */
+async function lateField(opts: CsvExportOptions): Promise<string[]> {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-csv-"));
+  try {
+    const out = path.join(dir, "x.csv");
+    const sink = new CsvSink(out, Date.UTC(2025, 0, 1), opts);
+    sink.emitField("a");
+    sink.emitTs(0);
+    sink.emitNumber(0, 1);
+    sink.emitTs(10);
+    sink.emitNumber(0, 2);
+    sink.emitField("b");
+    sink.emitTs(20);
+    sink.emitNumber(1, 3);
+    await sink.finalizeToFile();
+    assert.deepEqual(fs.readdirSync(dir), ["x.csv"]);
+    return fs.readFileSync(out, "utf8").trimEnd().split("\n");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("fields declared after the first row get a column", async () => {
+  assert.deepEqual(await lateField({}), [
+    "t,time,a,b",
+    "0,2025-01-01T00:00:00.000Z,1,",
+    "10,2025-01-01T00:00:00.010Z,2,",
+    "20,2025-01-01T00:00:00.020Z,,3",
+  ]);
+});
+
+test("--fields keeps its order and fills late fields in their slot", async () => {
+  assert.deepEqual(await lateField({ fields: ["b", "a", "c"], fill: true }), [
+    "t,time,b,a,c",
+    "0,2025-01-01T00:00:00.000Z,,1,",
+    "10,2025-01-01T00:00:00.010Z,,2,",
+    "20,2025-01-01T00:00:00.020Z,3,2,",
+  ]);
+});
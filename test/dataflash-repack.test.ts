@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runRepack } from "../src/repack/command";
+import { ApxTlmReader } from "../src/repack/services/apxtlm-reader.service";
+import { setLogMode } from "../src/repack/log";
+
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+const WEEK_MS = 7 * 24 * 3600 * 1000;
+const LEAP_MS = 18000;
+
+/** FMT record describing message `type` */
+function fmt(type: number, name: string, format: string, columns: string, len: number): Buffer {
+  const b = Buffer.alloc(89);
+  b.set([0xA3, 0x95, 0x80, type, len]);
+  b.write(name, 5, 4, "ascii");
+  b.write(format, 9, 16, "ascii");
+  b.write(columns, 25, 64, "ascii");
+  return b;
+}
+
+/** record of `type`, `len` bytes, TimeUS first and the rest written by `fill` */
+function rec(type: number, len: number, us: number, fill: (b: Buffer) => void): Buffer {
+  const b = Buffer.alloc(len);
+  b.set([0xA3, 0x95, type]);
+  b.writeBigUInt64LE(BigInt(us), 3);
+  fill(b);
+  return b;
+}
+
+test("DataFlash: records before the first GPS fix are dated by it, centi-units scaled", async () => {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-dataflash-"));
+  try {
+    const ATT = 0x81, GPS = 0x82, MSG = 0x83;
+    const gwk = 2345, gms = 123456000;
+    const input = path.join(dir, "f.bin");
+    fs.writeFileSync(input, Buffer.concat([
+      fmt(ATT, "ATT", "Qcc", "TimeUS,Roll,Pitch", 15),
+      fmt(GPS, "GPS", "QBIH", "TimeUS,Status,GMS,GWk", 18),
+      fmt(MSG, "MSG", "QZ", "TimeUS,Message", 75),
+      rec(ATT, 15, 1_000_000, (b) => { b.writeInt16LE(150, 11); b.writeInt16LE(-20, 13); }),
+      rec(MSG, 75, 1_500_000, (b) => b.write("ArduPlane V4.5.0", 11)),
+      rec(GPS, 18, 2_000_000, (b) => { b.writeUInt8(3, 11); b.writeUInt32LE(gms, 12); b.writeUInt16LE(gwk, 16); }),
+      rec(ATT, 15, 3_000_000, (b) => { b.writeInt16LE(250, 11); b.writeInt16LE(-20, 13); }),
+    ]));
+    const out = path.join(dir, "f.apxtlm");
+    await runRepack({ inFile: input, outFile: out });
+
+    const reader = new ApxTlmReader(out);
+    // the fix at 2 s since boot is GPS time; output time 0 is the first record, 1 s earlier
+    assert.equal((await reader.readHeader()).timestamp, GPS_EPOCH_MS + gwk * WEEK_MS + gms - LEAP_MS - 1000);
+    reader.close();
+    const values: string[] = [];
+    const events: string[] = [];
+    for await (const r of new ApxTlmReader(out)) {
+      if (r.type === "value") values.push(`${r.ts} ${r.name}=${r.value}`);
+      if (r.type === "evt") events.push(`${r.ts} ${r.name} ${r.values.text}`);
+    }
+    assert.deepEqual(values, ["0 roll=1.5", "0 pitch=-0.2", "2000 roll=2.5"]);
+    assert.deepEqual(events, ["500 msg ArduPlane V4.5.0"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
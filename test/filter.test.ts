@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TlmFilter, resolveFilterTime } from "../src/repack/services/filter";
+import { runRepack } from "../src/repack/command";
+import { ApxTlmReader } from "../src/repack/services/apxtlm-reader.service";
+import { setLogMode } from "../src/repack/log";
+
+const BASE = Date.UTC(2025, 0, 1);
+
+test("name globs include, !globs exclude, excludes alone keep the rest", () => {
+  const f = new TlmFilter({ fields: ["gps_*", "roll", "!gps_SU"], events: ["!msg"] });
+  assert.deepEqual(["gps_lat", "gps_SU", "roll", "pitch"].filter(f.field), ["gps_lat", "roll"]);
+  assert.deepEqual(["msg", "mission"].filter(f.event), ["mission"]);
+});
+
+test("times are ms from the start or absolute dates, and the output starts at from", () => {
+  assert.equal(resolveFilterTime(1500, BASE), 1500);
+  assert.equal(resolveFilterTime("1500", BASE), 1500);
+  assert.equal(resolveFilterTime("2025-01-01T00:01:00Z", BASE), 60000);
+  assert.equal(resolveFilterTime(BASE + 2000, BASE), 2000);
+  assert.throws(() => new TlmFilter({ to: "yesterday" }), /invalid time/);
+
+  const f = new TlmFilter({ from: "2025-01-01T00:00:10Z", to: 20000 });
+  f.bind(BASE);
+  assert.deepEqual([f.from, f.to, f.shift], [10000, 20000, 10000]);
+  assert.deepEqual([9999, 10000, 20000, 20001].map((t) => f.time(t)), [false, true, true, false]);
+});
+
+test("values before the range are held and handed out once", () => {
+  const f = new TlmFilter({ from: 100 });
+  f.bind(BASE);
+  f.hold(0, 1);
+  f.hold(0, 2);
+  f.hold(1, 5);
+  assert.deepEqual(f.takeHeld(), [[0, 2], [1, 5]]);
+  f.hold(0, 3);
+  assert.deepEqual(f.takeHeld(), []);
+});
+
+test("a repacked excerpt starts at from with the state held from before it", async () => {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-filter-"));
+  try {
+    const out = path.join(dir, "cut.apxtlm");
+    await runRepack({
+      inFile: path.join(__dirname, "2025_08_01_03_46_38_000-TR-1101.telemetry"),
+      outFile: out,
+      filter: { from: 60000, to: 120000, fields: ["roll", "pitch"] },
+    });
+    const first = new Map<string, number>();
+    let last = 0;
+    for await (const r of new ApxTlmReader(out)) {
+      if (r.type !== "value") continue;
+      if (!first.has(r.name)) first.set(r.name, r.ts);
+      last = Math.max(last, r.ts);
+    }
+    assert.deepEqual([...first.keys()].sort(), ["pitch", "roll"]);
+    assert.deepEqual([...first.values()], [0, 0]);
+    assert.ok(last <= 60000, `last value at ${last}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runRepack } from "../src/repack/command";
+import { ApxTlmReader } from "../src/repack/services/apxtlm-reader.service";
+import { setLogMode } from "../src/repack/log";
+
+const T0_US = BigInt(Date.UTC(2025, 0, 1)) * 1000n;
+const VFR_HUD = { id: 74, extra: 20 };
+const ATTITUDE = { id: 30, extra: 39 };
+const STATUSTEXT = { id: 253, extra: 83 };
+
+function crc16(b: Buffer, extra: number): number {
+  let crc = 0xFFFF;
+  for (const x of [...b, extra]) {
+    let t = (x ^ crc) & 0xFF;
+    t = (t ^ (t << 4)) & 0xFF;
+    crc = ((crc >> 8) ^ (t << 8) ^ (t << 3) ^ (t >> 4)) & 0xFFFF;
+  }
+  return crc;
+}
+
+/** tlog record: u64 BE µs, then a MAVLink v1 (or v2) packet */
+function record(ms: number, msg: { id: number; extra: number }, payload: Buffer, o: { v2?: boolean; sysid?: number; badCrc?: boolean } = {}): Buffer {
+  const sysid = o.sysid ?? 1;
+  const head = o.v2
+    ? Buffer.from([0xFD, payload.length, 0, 0, 0, sysid, 1, msg.id & 0xFF, (msg.id >> 8) & 0xFF, msg.id >> 16])
+    : Buffer.from([0xFE, payload.length, 0, sysid, 1, msg.id]);
+  const pkt = Buffer.concat([head, payload, Buffer.alloc(2)]);
+  pkt.writeUInt16LE(crc16(pkt.subarray(1, head.length + payload.length), msg.extra) ^ (o.badCrc ? 1 : 0), head.length + payload.length);
+  const us = Buffer.alloc(8);
+  us.writeBigUInt64BE(T0_US + BigInt(ms) * 1000n);
+  return Buffer.concat([us, pkt]);
+}
+
+function vfrHud(airspeed: number, throttle: number): Buffer {
+  const b = Buffer.alloc(20);
+  b.writeFloatLE(airspeed, 0);
+  b.writeUInt16LE(throttle, 18);
+  return b;
+}
+
+test("tlog: mapped fields and STATUSTEXT of the vehicle, damaged and GCS packets left out", async () => {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-tlog-"));
+  try {
+    const att = Buffer.alloc(8);      // v2 drops trailing zeros: time_boot_ms and roll only
+    att.writeUInt32LE(1000, 0);
+    att.writeFloatLE(Math.PI / 2, 4);
+    const text = Buffer.alloc(51);
+    text[0] = 4;
+    text.write("low battery", 1);
+
+    const input = path.join(dir, "f.tlog");
+    fs.writeFileSync(input, Buffer.concat([
+      record(0, VFR_HUD, vfrHud(12.5, 50)),
+      Buffer.alloc(5),                                               // junk between records
+      record(100, VFR_HUD, vfrHud(99, 0), { badCrc: true }),
+      record(200, VFR_HUD, vfrHud(77, 0), { sysid: 255 }),           // ground station
+      record(300, ATTITUDE, att, { v2: true }),
+      record(400, STATUSTEXT, text),
+    ]));
+    const out = path.join(dir, "f.apxtlm");
+    await runRepack({ inFile: input, outFile: out });
+
+    const reader = new ApxTlmReader(out);
+    assert.equal((await reader.readHeader()).timestamp, Number(T0_US / 1000n));
+    const values: Record<string, Array<[number, number]>> = {};
+    const events: string[] = [];
+    for await (const r of new ApxTlmReader(out)) {
+      if (r.type === "value") (values[r.name] ??= []).push([r.ts, r.value]);
+      if (r.type === "evt") events.push(`${r.ts} ${r.name} ${r.values.severity} ${r.values.text}`);
+    }
+    reader.close();
+    assert.deepEqual(values.airspeed, [[0, 12.5]]);
+    assert.deepEqual(values.ctr_throttle, [[0, 0.5]]);
+    assert.equal(values.roll.length, 1);
+    assert.equal(values.roll[0][0], 300);
+    assert.ok(Math.abs(values.roll[0][1] - 90) < 1e-4, `roll ${values.roll[0][1]}`);
+    assert.deepEqual(events, ["400 msg warning low battery"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
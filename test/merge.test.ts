@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { mergeInputs } from "../src/repack/merge.service";
+import { ApxTlmWriter } from "../src/repack/services/apxtlm-writer.service";
+import { ApxTlmReader } from "../src/repack/services/apxtlm-reader.service";
+
+const BASE = Date.UTC(2025, 0, 1);
+
+/** .apxtlm starting at `baseTs` with `fields` and rows of [time, field index, value] */
+async function write(file: string, baseTs: number, fields: string[], rows: Array<[number, number, number]>) {
+  const w = new ApxTlmWriter(1, 0, baseTs, file);
+  w.writeHeaderPlaceholder();
+  w.emitInfo({ title: path.basename(file) });
+  for (const f of fields) w.emitField(f);
+  for (const [t, i, v] of rows) {
+    w.emitTs(t);
+    w.emitNumber(i, v);
+  }
+  await w.finalizeToFile();
+}
+
+async function values(file: string): Promise<string[]> {
+  const out: string[] = [];
+  for await (const r of new ApxTlmReader(file)) if (r.type === "value") out.push(`${r.ts} ${r.name}=${r.value}`);
+  return out;
+}
+
+test("samples of a field another input wrote within the dedup window are dropped", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-merge-"));
+  try {
+    const a = path.join(dir, "a.apxtlm");
+    const b = path.join(dir, "b.apxtlm");
+    const out = path.join(dir, "m.apxtlm");
+    await write(a, BASE, ["x"], [[0, 0, 1], [10, 0, 2]]);                 // same input: never a duplicate
+    await write(b, BASE + 20, ["x", "y"], [[0, 0, 9], [0, 1, 7], [200, 0, 3]]);
+
+    const r = await mergeInputs({ inputs: [a, b], outFile: out, dedupMs: 50 });
+    assert.deepEqual(r.inputs.map((i) => i.offsetMs), [0, 20]);
+    assert.deepEqual(r.inputs.map((i) => i.duplicates), [0, 1]);
+    assert.equal(r.duplicates.values, 1);
+    // b's x at +20 is 10 ms after a's, its later one is far enough from everything
+    assert.deepEqual(await values(out), ["0 x=1", "10 x=2", "20 y=7", "220 x=3"]);
+
+    await mergeInputs({ inputs: [a, b], outFile: out, dedupMs: 5 });
+    assert.deepEqual(await values(out), ["0 x=1", "10 x=2", "20 x=9", "20 y=7", "220 x=3"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,31 @@
+import { TlmSink, SinkFactory } from "../src/repack/services/tlm-sink";
+
+/** TlmSink keeping one line per call: `field a`, `ts 5`, `v 0 1.5` (`up` for uplinks), `evt 0 x,y`, `jso name` */
+export class RecordingSink implements TlmSink {
+  readonly calls: string[] = [];
+  info: any;
+  finalized = false;
+
+  constructor(readonly outFile = "", readonly baseTs = 0) {}
+
+  writeHeaderPlaceholder() {}
+  emitInfo(info: any) { this.info = info; }
+  emitField(name: string) { this.calls.push(`field ${name}`); }
+  emitEvtId(name: string, keys: string[]) { this.calls.push(`evtid ${name} ${keys.join(",")}`); }
+  emitTs(ms: number) { this.calls.push(`ts ${ms}`); }
+  emitNumber(i: number, v: number, uplink = false) { this.calls.push(`${uplink ? "up" : "v"} ${i} ${v}`); }
+  emitEvt(i: number, values: string[]) { this.calls.push(`evt ${i} ${values.join(",")}`); }
+  emitJso(name: string) { this.calls.push(`jso ${name}`); }
+  async finalizeToFile() { this.finalized = true; }
+}
+
+/** SinkFactory handing out RecordingSinks; `sinks` lists them in creation order */
+export function recordingFactory(): { factory: SinkFactory; sinks: RecordingSink[] } {
+  const sinks: RecordingSink[] = [];
+  const factory: SinkFactory = (outFile, baseTs) => {
+    const s = new RecordingSink(outFile, baseTs);
+    sinks.push(s);
+    return s;
+  };
+  return { factory, sinks };
+}
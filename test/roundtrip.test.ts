@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runRepack, runExport } from "../src/repack/command";
+import { ApxTlmReader } from "../src/repack/services/apxtlm-reader.service";
+import { setLogMode } from "../src/repack/log";
+
+const FIXTURES = ["2025_08_01_03_46_38_000-TR-1101.telemetry", "2025_08_28_16_37_001_TR-1101.datalink"];
+
+type Series = Map<string, Array<[number, number]>>;   // field → [ts, value] changes
+
+/** downlink and uplink values per field, consecutive repeats folded */
+async function readSeries(file: string): Promise<{ down: Series; up: Series }> {
+  const down: Series = new Map();
+  const up: Series = new Map();
+  for await (const r of new ApxTlmReader(file)) {
+    if (r.type !== "value") continue;
+    const series = r.uplink ? up : down;
+    let s = series.get(r.name);
+    if (!s) series.set(r.name, s = []);
+    if (!r.uplink && s.length && s[s.length - 1][1] === r.value) continue;
+    s.push([r.ts, r.value]);
+  }
+  return { down, up };
+}
+
+for (const fixture of FIXTURES) test(`${fixture}: repack → export .telemetry → repack keeps every field value`, async () => {
+  setLogMode("quiet");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-roundtrip-"));
+  try {
+    const first = path.join(dir, "first.apxtlm");
+    const xml = path.join(dir, "first.telemetry");
+    const second = path.join(dir, "second.apxtlm");
+    await runRepack({ inFile: path.join(__dirname, fixture), outFile: first });
+    await runExport({ inFile: first, outFile: xml });
+    await runRepack({ inFile: xml, outFile: second });
+
+    const a = await readSeries(first);
+    const b = await readSeries(second);
+    assert.ok(a.down.size > 0, "no downlink values in the first repack");
+    assert.deepEqual([...b.down.keys()].sort(), [...a.down.keys()].sort());
+    for (const [name, values] of a.down) assert.deepEqual(b.down.get(name), values, `downlink ${name}`);
+    assert.deepEqual([...b.up.keys()].sort(), [...a.up.keys()].sort());
+    for (const [name, values] of a.up) assert.deepEqual(b.up.get(name), values, `uplink ${name}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as path from "path";
+import { SegmentedSink, SegmentOptions } from "../src/repack/services/segment-sink";
+import { recordingFactory } from "./recording-sink";
+
+const BASE = Date.UTC(2025, 0, 1);
+const OUT = path.join("out", "day.apxtlm");
+
+function open(opts: SegmentOptions, fields: string[]) {
+  const { factory, sinks } = recordingFactory();
+  const sink = new SegmentedSink(factory, OUT, BASE, 0, opts);
+  sink.writeHeaderPlaceholder();
+  sink.emitInfo({ title: "flight" });
+  for (const f of fields) sink.emitField(f);
+  return { sink, sinks };
+}
+
+test("a gap starts the next segment with the field list and the last values", async () => {
+  const { sink, sinks } = open({ rules: ["gap"], gapMs: 30000 }, ["a", "b"]);
+  for (const [t, i, v] of [[0, 0, 1], [0, 1, 7], [1000, 0, 2], [40000, 0, 3]]) {
+    sink.emitTs(t);
+    sink.emitNumber(i, v);
+  }
+  await sink.finalizeToFile();
+
+  assert.deepEqual(sinks.map((s) => s.outFile), [path.join("out", "flight_seg1.apxtlm"), path.join("out", "flight_seg2.apxtlm")]);
+  assert.deepEqual(sink.segments.map((s) => s.reason), ["start", "gap"]);
+  assert.equal(sinks[1].baseTs, BASE + 40000);
+  assert.equal(sinks[1].info.title, "flight_seg2");
+  assert.deepEqual(sinks[1].calls, ["field a", "field b", "ts 0", "v 0 2", "v 1 7", "v 0 3"]);
+  assert.ok(sinks.every((s) => s.finalized));
+});
+
+test("the next takeoff after a landing splits at the following row", async () => {
+  const { sink, sinks } = open({ rules: ["landed"] }, ["status_landed", "a"]);
+  for (const [t, i, v] of [[0, 0, 1], [100, 0, 0], [200, 0, 1], [300, 0, 0], [400, 1, 5]]) {
+    sink.emitTs(t);
+    sink.emitNumber(i, v);
+  }
+  await sink.finalizeToFile();
+
+  assert.deepEqual(sink.segments.map((s) => s.reason), ["start", "landed"]);
+  assert.equal(sinks[1].baseTs, BASE + 400);
+  assert.deepEqual(sinks[1].calls, ["field status_landed", "field a", "ts 0", "v 0 0", "v 1 5"]);
+});
+
+test("a nodes object splits only once something was written", async () => {
+  const { sink, sinks } = open({ rules: ["nodes"] }, ["a"]);
+  sink.emitJso("nodes", {}, 0);
+  sink.emitNumber(0, 1);
+  sink.emitJso("nodes", {}, 500);
+  sink.emitNumber(0, 2);
+  await sink.finalizeToFile();
+
+  assert.deepEqual(sink.segments.map((s) => s.reason), ["start", "nodes"]);
+  assert.deepEqual(sinks[0].calls.filter((c) => !c.startsWith("ts")), ["field a", "jso nodes", "v 0 1"]);
+  assert.equal(sinks[1].baseTs, BASE + 500);
+  assert.deepEqual(sinks[1].calls, ["field a", "ts 0", "v 0 1", "jso nodes", "v 0 2"]);
+});
+
+test("fields declared before the info block are declared once", async () => {
+  const { factory, sinks } = recordingFactory();
+  const sink = new SegmentedSink(factory, OUT, BASE, 0);
+  sink.emitField("a");
+  sink.emitEvtId("msg", ["text"]);
+  sink.emitInfo({ title: "flight" });
+  await sink.finalizeToFile();
+  assert.deepEqual(sinks.map((s) => s.outFile), [OUT]);
+  assert.deepEqual(sinks[0].calls, ["field a", "evtid msg text"]);
+});
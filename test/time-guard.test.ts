@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { TimeGuardOptions, TimeGuardSink, withTimeGuard } from "../src/repack/services/time-guard";
+import { recordingFactory } from "./recording-sink";
+
+const U32_MAX = 0xFFFFFFFF;
+const BASE = Date.UTC(2025, 0, 1);
+
+/** guarded sink opened as the stream core does, one field declared; `rows` as [time, value] */
+async function run(time: TimeGuardOptions, rows: Array<[number, number]>) {
+  const { factory, sinks } = recordingFactory();
+  let guard!: TimeGuardSink;
+  const sink = withTimeGuard(factory, { time }, (g) => { guard = g; })("out.apxtlm", BASE, 0);
+  sink.writeHeaderPlaceholder();
+  sink.emitInfo({ title: "out" });
+  sink.emitField("a");
+  for (const [t, v] of rows) {
+    sink.emitTs(t);
+    sink.emitNumber(0, v);
+  }
+  await sink.finalizeToFile();
+  return { sinks, anomalies: guard.anomalies.map((a) => `${a.kind}:${a.action}`) };
+}
+
+test("a u32 counter wrapping near 2^32 ms is unwrapped, then pinned at the end of the u32 range", async () => {
+  const { sinks, anomalies } = await run({}, [[U32_MAX - 1000, 1], [500, 2]]);
+  assert.deepEqual(anomalies, ["wrap:unwrapped", "overflow:clamped"]);
+  assert.deepEqual(sinks[0].calls, ["field a", `ts ${U32_MAX - 1000}`, "v 0 1", `ts ${U32_MAX}`, "v 0 2"]);
+});
+
+test("split continues a wrapped counter in a second output dated right after the wrap", async () => {
+  const { sinks, anomalies } = await run({ policy: "split" }, [[U32_MAX - 1000, 1], [500, 2]]);
+  assert.deepEqual(anomalies, ["wrap:unwrapped", "overflow:split"]);
+  assert.deepEqual(sinks.map((s) => s.outFile), ["out.apxtlm", "out_seg2.apxtlm"]);
+  assert.equal(sinks[1].baseTs, BASE + 2 ** 32 + 500);
+  // the new output starts with the field list and the state carried over
+  assert.deepEqual(sinks[1].calls, ["field a", "ts 0", "v 0 1", "v 0 2"]);
+  assert.ok(sinks.every((s) => s.finalized));
+});
+
+test("clamp pins negative and slightly late times, rebases a reset", async () => {
+  const { sinks, anomalies } = await run({}, [[-5, 1], [100, 2], [50, 3], [10000, 4], [100, 5], [200, 6]]);
+  assert.deepEqual(anomalies, ["negative:clamped", "backward:clamped", "reset:rebased"]);
+  assert.deepEqual(sinks[0].calls, ["field a", "ts 0", "v 0 1", "ts 100", "v 0 2", "v 0 3", "ts 10000", "v 0 4", "v 0 5", "ts 10100", "v 0 6"]);
+});
+
+test("reorder sorts rows within the window into place", async () => {
+  const { sinks, anomalies } = await run({ policy: "reorder", windowMs: 1000 }, [[100, 1], [50, 2], [3000, 3]]);
+  assert.deepEqual(anomalies, ["backward:reordered"]);
+  assert.deepEqual(sinks[0].calls, ["field a", "ts 50", "v 0 2", "ts 100", "v 0 1", "ts 3000", "v 0 3"]);
+});
+
+test("split starts a new output on a reset beyond the window", async () => {
+  const { sinks, anomalies } = await run({ policy: "split" }, [[10000, 1], [100, 2], [200, 3]]);
+  assert.deepEqual(anomalies, ["reset:split"]);
+  assert.equal(sinks.length, 2);
+  assert.equal(sinks[1].baseTs, BASE + 10000);
+  assert.deepEqual(sinks[1].calls, ["field a", "ts 0", "v 0 1", "v 0 2", "ts 100", "v 0 3"]);
+});
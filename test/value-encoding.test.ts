@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { EncodingPolicy, ValueEncoder, validateEncodingPolicy } from "../src/repack/services/value-encoding";
+import { DSpec } from "../src/repack/services/apxtlm-writer.service";
+
+/** DSpec names `values` get as field `name` (declared with `info`) under `policy` */
+function specs(policy: EncodingPolicy, name: string, values: number[], info: string[] = []): string[] {
+  const e = new ValueEncoder(policy);
+  e.declare(name, info);
+  return values.map((v) => DSpec[e.encode(0, v).dspec]);
+}
+
+test("auto: unsigned integers as the smallest uint, floats as the smallest exact float", () => {
+  assert.deepEqual(specs({}, "a", [200, 70000, 2 ** 32, -1, 1.5, 100000.5]), ["u8", "u24", "u64", "f16", "f16", "f32"]);
+});
+
+test("a value f32 would round falls back to f64", () => {
+  assert.notEqual(Math.fround(0.1), 0.1);
+  assert.deepEqual(specs({}, "a", [0.1, 1 / 3]), ["f64", "f64"]);
+});
+
+test("precision rounds values and lets them go in a float within half a step", () => {
+  const e = new ValueEncoder({ roll: { precision: 0.01 } });
+  e.declare("roll");
+  assert.equal(e.quantize(0, 1.234567), 1.23);
+  assert.equal(e.quantize(0, -0.005001), -0.01);
+  assert.ok(Number.isNaN(e.quantize(0, NaN)));
+  assert.equal(DSpec[e.encode(0, 1.23).dspec], "f16");
+  assert.equal(DSpec[e.encode(0, 1234.56).dspec], "f32");
+});
+
+test("deadband drops changes smaller than it from the last written value", () => {
+  const e = new ValueEncoder({ alt: { deadband: 0.5 } });
+  e.declare("alt");
+  assert.equal(e.changed(0, undefined, 10), true);
+  assert.equal(e.changed(0, 10, 10.4), false);
+  assert.equal(e.changed(0, 10, 9.5), true);
+  const plain = new ValueEncoder();
+  plain.declare("alt");
+  assert.equal(plain.changed(0, 10, 10), false);
+  assert.equal(plain.changed(0, 10, 10.001), true);
+});
+
+test("fixed specs fall back when the value does not fit", () => {
+  assert.deepEqual(specs({ a: { spec: "u16" } }, "a", [5, 70000, -3]), ["u16", "u24", "f16"]);
+  assert.deepEqual(specs({ a: { spec: "f16" } }, "a", [1.5, 70000]), ["f16", "f32"]);
+  assert.deepEqual(specs({ a: { spec: "f32" } }, "a", [1]), ["f32"]);
+});
+
+test("integer field types default to uint, lat/lon to f64, first matching glob wins", () => {
+  assert.deepEqual(specs({}, "mode", [3, 2.5], ["", "", "uint8"]), ["u8", "f16"]);
+  assert.deepEqual(specs({}, "gps_lat", [1.5]), ["f64"]);
+  assert.deepEqual(specs({ "gps_*": { spec: "f32" }, "gps_lat": { spec: "f16" } }, "gps_lat", [1.5]), ["f32"]);
+});
+
+test("policies with unknown specs or non-positive steps are rejected", () => {
+  assert.doesNotThrow(() => validateEncodingPolicy({ "roll,pitch": { precision: 0.01 } }));
+  assert.throws(() => validateEncodingPolicy({ roll: { spec: "f8" as any } }), /"roll": unknown spec "f8"/);
+  assert.throws(() => validateEncodingPolicy({ roll: { deadband: 0 } }), /deadband must be a positive number/);
+  assert.throws(() => validateEncodingPolicy([] as any), /expected an object/);
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { watchInbox } from "../src/repack/watch.service";
+import { crc32 } from "../src/repack/services/apxtlm-writer.service";
+
+/** zip archive with `files` stored uncompressed */
+function storedZip(files: Array<[string, Buffer]>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of files) {
+    const n = Buffer.from(name);
+    const crc = crc32(data);
+    const h = Buffer.alloc(30);
+    h.writeUInt32LE(0x04034b50, 0);
+    h.writeUInt16LE(20, 4);
+    h.writeUInt16LE(0x21, 12);          // 1980-01-01
+    h.writeUInt32LE(crc, 14);
+    h.writeUInt32LE(data.length, 18);
+    h.writeUInt32LE(data.length, 22);
+    h.writeUInt16LE(n.length, 26);
+    const c = Buffer.alloc(46);
+    c.writeUInt32LE(0x02014b50, 0);
+    c.writeUInt16LE(20, 4);
+    c.writeUInt16LE(20, 6);
+    c.writeUInt16LE(0x21, 14);
+    c.writeUInt32LE(crc, 16);
+    c.writeUInt32LE(data.length, 20);
+    c.writeUInt32LE(data.length, 24);
+    c.writeUInt16LE(n.length, 28);
+    c.writeUInt32LE(offset, 42);
+    local.push(h, n, data);
+    central.push(c, n);
+    offset += h.length + n.length + data.length;
+  }
+  const cd = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(cd.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, cd, end]);
+}
+
+test("a zip with several telemetry files dropped into the inbox gives one output per entry", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apx-watch-"));
+  try {
+    const inbox = path.join(dir, "inbox");
+    const outDir = path.join(dir, "out");
+    fs.mkdirSync(inbox);
+    fs.writeFileSync(path.join(inbox, "day.zip"), storedZip([
+      ["a.telemetry", fs.readFileSync(path.join(__dirname, "2025_08_01_03_46_38_000-TR-1101.telemetry"))],
+      ["b.datalink", fs.readFileSync(path.join(__dirname, "2025_08_28_16_37_001_TR-1101.datalink"))],
+    ]));
+
+    const lines: string[] = [];
+    const w = watchInbox({ inbox, outDir, intervalMs: 20, stableChecks: 1, log: (m) => lines.push(m) });
+    const processed = path.join(inbox, "processed", "day.zip");
+    for (let i = 0; i < 1000 && !fs.existsSync(processed) && !fs.existsSync(path.join(inbox, "failed")); i++) {
+      await new Promise((r) => setTimeout(r, 20));
+    }
+    await w.close();
+
+    assert.ok(fs.existsSync(processed), lines.join("\n"));
+    assert.deepEqual(fs.readdirSync(outDir).sort(), ["a.apxtlm", "b.apxtlm"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});